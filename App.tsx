@@ -1,19 +1,78 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Client } from './types';
-import { fetchClients } from './services/googleSheetService';
-import { initializeGemini, findClientCitiesBatch } from './services/geminiService';
-import { initializeOpenAI, findClientCitiesBatchOpenAI } from './services/openaiService';
+import { CityVerification, Client, ColumnMapping, ConsensusCandidate, CorsProxySettings, EnrichmentError, SheetTable, SourceLink, TitleClassification } from './types';
+import { fetchSheetTables, getCombinedHeaders, mapTablesToClients, parseSheetTabs, SheetFetchError, SheetFetchErrorKind } from './services/googleSheetService';
+import { normalizeCorsProxySettings, parseCorsProxySettings } from './services/corsProxy';
+import { isMappingApplicable, parseSavedColumnMappings, suggestColumnMapping } from './services/columnMapping';
+import { parseClientFile } from './services/fileImportService';
+import { buildClientsCsv, downloadCsv, groupClientsByTab, toFileNameSegment } from './services/exportService';
+import { createEnrichmentError, EnrichmentBatch, EnrichmentProvider, EnrichmentResultMap, NO_TOKEN_USAGE, TokenUsage } from './services/enrichmentProvider';
+import { AllProviderSettings, getConfiguredProviders, getEnrichmentProviders, hasConfiguredProvider } from './services/providerRegistry';
+import { applyReviewThreshold, parseReviewThreshold } from './services/confidenceReview';
+import { getConsensusBatchSize } from './services/consensus';
+import { applyApiResult, applyConsensusResults, applyFoundCity, BatchStop, getBatchStop, withDerivedFields } from './services/resultProcessing';
+import { withResolvedLocation } from './services/gazetteer';
+import { isWithinBusinessHours } from './services/timeZones';
+import { applyAiClassifications, classifyTitlesWithAi, needsAiClassification, TITLE_BATCH_SIZE } from './services/titleClassifier';
+import { createRateLimiter, enrichBatchWithRetries, parseMaxRateLimitAttempts, RateLimiter, RateLimitWait } from './services/rateLimiter';
+import { createRunControl, RunControl } from './services/runControl';
+import { createJobQueue, EnrichmentJobQueue, EnrichmentMode, getJobOutcomes, getUnfinishedClientKeys, parseJobQueue, requeueInFlightJobs, saveJobOutcomes, setJobState } from './services/jobQueue';
+import { getActivePromptTemplate, parsePromptTemplateStore, PromptTemplateStore, setActivePromptTemplate } from './services/promptTemplates';
+import {
+  addToResultCache,
+  lookupCachedResults,
+  mergeCachedResults,
+  parseCacheTtlDays,
+  parseResultCache,
+  pruneResultCache,
+  removeCachedResults,
+  ResultCache,
+} from './services/resultCache';
+import {
+  addToUsageTotals,
+  canAffordNextBatch,
+  EMPTY_USAGE_TOTALS,
+  estimateCost,
+  findModelPrice,
+  formatCost,
+  ModelPrice,
+  parseModelPrices,
+  parseRunBudget,
+  parseUsageTotals,
+  UsageRecord,
+  UsageTotals,
+} from './services/usageTracking';
 import Header from './components/Header';
 import ClientTable from './components/ClientTable';
 import Loader from './components/Loader';
 import ApiKeySetup from './components/ApiKeySetup';
+import FileImport from './components/FileImport';
+import ColumnMappingDialog from './components/ColumnMappingDialog';
+import WriteBackDialog from './components/WriteBackDialog';
+import CorsProxySettingsFields from './components/CorsProxySettingsFields';
+import ReviewFilterBar, { ClientFilter, JobFunctionFilter, SeniorityFilter } from './components/ReviewFilterBar';
+import SettingsDialog from './components/SettingsDialog';
+import UsageSummary from './components/UsageSummary';
+import RateLimitCountdown from './components/RateLimitCountdown';
+import RunProgress from './components/RunProgress';
+import InterruptedRunBanner from './components/InterruptedRunBanner';
+import SelectionBar from './components/SelectionBar';
+import { CellChange } from './services/sheetsWriteBackService';
 
-const BATCH_SIZE = 5; // Process 5 clients per API call
-const RPM_DELAY = 10000; // 10 seconds. Increased delay for a safer margin under 10 RPM.
 const LOCAL_STORAGE_KEY_CLIENTS = 'client-city-data';
-const LOCAL_STORAGE_KEY_API_KEY = 'gemini-api-key';
 const LOCAL_STORAGE_KEY_SHEET_ID = 'google-sheet-id';
-const LOCAL_STORAGE_KEY_OPENAI_API_KEY = 'openai-api-key';
+const LOCAL_STORAGE_KEY_SHEET_TABS = 'google-sheet-tabs';
+const LOCAL_STORAGE_KEY_COLUMN_MAPPINGS = 'column-mappings';
+const LOCAL_STORAGE_KEY_INCLUDE_PREFILLED = 'include-prefilled-rows';
+const LOCAL_STORAGE_KEY_CORS_PROXY = 'cors-proxy-settings';
+const LOCAL_STORAGE_KEY_REVIEW_THRESHOLD = 'review-confidence-threshold';
+const LOCAL_STORAGE_KEY_PROMPT_TEMPLATES = 'prompt-templates';
+const LOCAL_STORAGE_KEY_MODEL_PRICES = 'model-prices';
+const LOCAL_STORAGE_KEY_RUN_BUDGET = 'run-budget';
+const LOCAL_STORAGE_KEY_USAGE_TOTALS = 'usage-totals';
+const LOCAL_STORAGE_KEY_RATE_LIMIT_ATTEMPTS = 'rate-limit-max-attempts';
+const LOCAL_STORAGE_KEY_JOB_QUEUE = 'enrichment-job-queue';
+const LOCAL_STORAGE_KEY_RESULT_CACHE = 'result-cache';
+const LOCAL_STORAGE_KEY_CACHE_TTL_DAYS = 'result-cache-ttl-days';
 
 
 // Creates a stable, unique key for a client based on their core details.
@@ -21,129 +80,512 @@ const getClientUniqueKey = (client: Pick<Client, 'firstName' | 'lastName' | 'com
   return `${client.firstName}|${client.lastName}|${client.company}`.toLowerCase().trim();
 };
 
+// The part of a client that is saved in the browser between sessions.
+interface SavedClientProgress {
+  city: string;
+  cityStatus: Client['cityStatus'];
+  jobTitle?: string;
+  verification?: CityVerification;
+  sources?: SourceLink[];
+  confidence?: number;
+  rationale?: string;
+  reviewed?: boolean;
+  consensusCandidates?: ConsensusCandidate[];
+  error?: EnrichmentError;
+  cachedAt?: string;
+  // Only kept for titles an AI classified; rule-based classifications are recomputed on load.
+  titleClassification?: TitleClassification;
+}
+
+const CITY_STATUSES: string[] = ['idle', 'finding', 'found', 'needs_review', 'disputed', 'not_found', 'error', 'prefilled'];
+
+const isSavedClientProgress = (value: unknown): value is SavedClientProgress => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const { city, cityStatus } = value as Record<string, unknown>;
+  return typeof city === 'string' && (cityStatus === undefined || (typeof cityStatus === 'string' && CITY_STATUSES.includes(cityStatus)));
+};
+
+// Reads the saved results, keyed by client, ignoring anything malformed.
+const parseSavedProgress = (raw: string | null): Record<string, SavedClientProgress> => {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('Unexpected saved progress format.');
+    }
+    return Object.fromEntries(Object.entries(parsed).filter(([, progress]) => isSavedClientProgress(progress)));
+  } catch (e) {
+    console.error('Could not read the saved progress:', e);
+    return {};
+  }
+};
+
+// Restores previously saved results onto freshly loaded clients, whatever source they came from. Rows that were
+// still being looked up when the page closed go back to their status from before that run.
+const mergeWithSavedProgress = (loadedClients: Client[], interruptedRun: EnrichmentJobQueue | null): Client[] => {
+  const savedData = parseSavedProgress(localStorage.getItem(LOCAL_STORAGE_KEY_CLIENTS));
+
+  return loadedClients.map(client => {
+    const key = getClientUniqueKey(client);
+    const savedClient = savedData[key];
+    if (savedClient) {
+      return { 
+        ...client, 
+        city: savedClient.city, 
+        cityStatus: savedClient.cityStatus === 'finding' ? interruptedRun?.previousStatuses[key] ?? 'idle' : savedClient.cityStatus,
+        jobTitle: savedClient.jobTitle !== undefined ? savedClient.jobTitle : client.jobTitle,
+        verification: savedClient.verification,
+        sources: savedClient.sources,
+        confidence: savedClient.confidence,
+        rationale: savedClient.rationale,
+        reviewed: savedClient.reviewed,
+        consensusCandidates: savedClient.consensusCandidates,
+        error: savedClient.error,
+        cachedAt: savedClient.cachedAt,
+        titleClassification: savedClient.titleClassification,
+      };
+    }
+    return client;
+  });
+};
+
+// Rows in these states already hold an answer, so bulk lookups skip them.
+const ANSWERED_STATUSES: Client['cityStatus'][] = ['found', 'needs_review', 'disputed', 'prefilled'];
+
+// Column mappings are remembered per source, keyed by `sheet:<id>` or `file:<name>`.
+const loadSavedColumnMapping = (sourceKey: string): ColumnMapping | undefined => {
+  const savedMappings = parseSavedColumnMappings(localStorage.getItem(LOCAL_STORAGE_KEY_COLUMN_MAPPINGS));
+  return savedMappings[sourceKey];
+};
+
+const saveColumnMapping = (sourceKey: string, mapping: ColumnMapping) => {
+  const savedMappings = parseSavedColumnMappings(localStorage.getItem(LOCAL_STORAGE_KEY_COLUMN_MAPPINGS));
+  savedMappings[sourceKey] = mapping;
+  localStorage.setItem(LOCAL_STORAGE_KEY_COLUMN_MAPPINGS, JSON.stringify(savedMappings));
+};
+
+// Provider settings are stored under the keys the providers declare, one entry per field.
+const loadProviderSettings = (): AllProviderSettings => {
+  return Object.fromEntries(getEnrichmentProviders().map(provider => [
+    provider.id,
+    Object.fromEntries(provider.settings.map(field => [field.key, localStorage.getItem(field.storageKey) || ''])),
+  ]));
+};
+
+// A bulk lookup in progress: which providers run it, which button started it and how far it got.
+interface EnrichmentRun {
+  providerIds: string[];
+  mode: EnrichmentMode;
+  // The batch being sent, counting from 1.
+  batchNumber: number;
+  batchCount: number;
+  isPaused: boolean;
+}
+
+const RUN_LABELS: Record<EnrichmentMode, string> = {
+  findAll: 'Finding all',
+  retryFailed: 'Retrying failed',
+  verify: 'Verifying existing',
+  consensus: 'Comparing providers',
+  refresh: 'Looking up selected rows again',
+};
+
+// Shown when a filter leaves no rows.
+const EMPTY_FILTER_MESSAGES: Record<Exclude<ClientFilter, 'all'>, string> = {
+  needs_review: 'No results need review.',
+  disputed: 'No disputed results.',
+  business_hours: 'It is outside business hours for every contact with a known time zone.',
+};
+
+const SHEET_ERROR_TITLES: Record<SheetFetchErrorKind, string> = {
+  permission: 'Action Required: Cannot Access Google Sheet',
+  proxy: 'Action Required: The CORS Proxy Failed',
+  not_found: 'Action Required: Sheet or Tab Not Found',
+  network: 'Action Required: The Browser Could Not Load the Sheet',
+};
 
 const App: React.FC = () => {
   // Initialize state directly from localStorage. This is more robust and prevents race conditions on load.
-  const [apiKey, setApiKey] = useState<string>(
-    () => localStorage.getItem(LOCAL_STORAGE_KEY_API_KEY) || ''
-  );
-  const [openAiApiKey, setOpenAiApiKey] = useState<string>(
-    () => localStorage.getItem(LOCAL_STORAGE_KEY_OPENAI_API_KEY) || ''
-  );
+  const [providerSettings, setProviderSettings] = useState<AllProviderSettings>(loadProviderSettings);
   const [sheetId, setSheetId] = useState<string>(
     () => localStorage.getItem(LOCAL_STORAGE_KEY_SHEET_ID) || ''
   );
+  // Comma-separated list of tab gids or names. Empty means only the first tab is loaded.
+  const [sheetTabs, setSheetTabs] = useState<string>(
+    () => localStorage.getItem(LOCAL_STORAGE_KEY_SHEET_TABS) || ''
+  );
+  const [corsProxy, setCorsProxy] = useState<CorsProxySettings>(
+    () => parseCorsProxySettings(localStorage.getItem(LOCAL_STORAGE_KEY_CORS_PROXY))
+  );
   
   const [clients, setClients] = useState<Client[]>([]);
-  // Start in a loading state only if the app is already configured.
-  const [isLoading, setIsLoading] = useState<boolean>(() => !!(apiKey && sheetId));
-  const [error, setError] = useState<boolean>(false);
-  const [isFindingAll, setIsFindingAll] = useState<boolean>(false);
-  const [isRetrying, setIsRetrying] = useState<boolean>(false); // Used for all OpenAI operations
+  // Start in a loading state only if the app is already configured with a sheet to load.
+  const [isLoading, setIsLoading] = useState<boolean>(() => hasConfiguredProvider(providerSettings) && !!sheetId);
+  const [error, setError] = useState<SheetFetchError | null>(null);
+  // Name of the local file the current client list was imported from, if any. Files are not persisted.
+  const [importedFileName, setImportedFileName] = useState<string>('');
+  const [importError, setImportError] = useState<string>('');
+  // The raw tables of the current source, kept so the column mapping can be changed without reloading.
+  const [sourceTables, setSourceTables] = useState<SheetTable[]>([]);
+  const [sourceKey, setSourceKey] = useState<string>('');
+  const [pendingMapping, setPendingMapping] = useState<ColumnMapping | null>(null);
+  const [mappingError, setMappingError] = useState<string>('');
+  // When set, rows that already have a city are loaded as 'prefilled' so they can be re-verified, instead of being skipped.
+  const [includePrefilled, setIncludePrefilled] = useState<boolean>(
+    () => localStorage.getItem(LOCAL_STORAGE_KEY_INCLUDE_PREFILLED) === 'true'
+  );
+  const [isWriteBackOpen, setIsWriteBackOpen] = useState<boolean>(false);
+  const [isClassifyingTitles, setIsClassifyingTitles] = useState<boolean>(false);
+  const [activeRun, setActiveRun] = useState<EnrichmentRun | null>(null);
+  // Controls of the active run, used by the Pause, Resume and Cancel buttons.
+  const runControlRef = useRef<RunControl | null>(null);
+  // A run from an earlier session that did not finish, offered for resuming.
+  const [interruptedRun, setInterruptedRun] = useState<EnrichmentJobQueue | null>(null);
   const [rateLimitMessage, setRateLimitMessage] = useState<string>('');
-  const [showDailyLimitWarning, setShowDailyLimitWarning] = useState<boolean>(false);
-  const rateLimitHistory = useRef<number[]>([]);
+  // Set while a rate-limited batch waits to be sent again.
+  const [rateLimitWait, setRateLimitWait] = useState<RateLimitWait | null>(null);
+  const [maxRateLimitAttempts, setMaxRateLimitAttempts] = useState<number>(
+    () => parseMaxRateLimitAttempts(localStorage.getItem(LOCAL_STORAGE_KEY_RATE_LIMIT_ATTEMPTS))
+  );
+  const maxRateLimitAttemptsRef = useRef<number>(maxRateLimitAttempts);
+  // One limiter per provider id, kept across runs so a new run does not reset the pacing.
+  const rateLimiters = useRef<Map<string, RateLimiter>>(new Map());
+  const [reviewThreshold, setReviewThreshold] = useState<number>(
+    () => parseReviewThreshold(localStorage.getItem(LOCAL_STORAGE_KEY_REVIEW_THRESHOLD))
+  );
+  // Read by results that arrive during a run, which was started with the threshold of an earlier render.
+  const reviewThresholdRef = useRef<number>(reviewThreshold);
+  const [clientFilter, setClientFilter] = useState<ClientFilter>('all');
+  const [seniorityFilter, setSeniorityFilter] = useState<SeniorityFilter>('all');
+  const [jobFunctionFilter, setJobFunctionFilter] = useState<JobFunctionFilter>('all');
+  // Ticks every minute, for the local times in the table and the business hours filter.
+  const [now, setNow] = useState<Date>(() => new Date());
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateStore>(
+    () => parsePromptTemplateStore(localStorage.getItem(LOCAL_STORAGE_KEY_PROMPT_TEMPLATES))
+  );
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [modelPrices, setModelPrices] = useState<ModelPrice[]>(
+    () => parseModelPrices(localStorage.getItem(LOCAL_STORAGE_KEY_MODEL_PRICES))
+  );
+  // Maximum estimated USD a single bulk run may spend, or null for no limit.
+  const [runBudget, setRunBudget] = useState<number | null>(
+    () => parseRunBudget(localStorage.getItem(LOCAL_STORAGE_KEY_RUN_BUDGET))
+  );
+  // Like the review threshold, read by runs that started in an earlier render.
+  const modelPricesRef = useRef<ModelPrice[]>(modelPrices);
+  const runBudgetRef = useRef<number | null>(runBudget);
+  // Usage of the current or last bulk run, and of all calls since the totals were last reset.
+  const [runUsage, setRunUsage] = useState<UsageRecord[]>([]);
+  const [usageTotals, setUsageTotals] = useState<UsageTotals>(
+    () => parseUsageTotals(localStorage.getItem(LOCAL_STORAGE_KEY_USAGE_TOTALS))
+  );
+  // How many days a cached answer is reused instead of asking the provider again; 0 turns the cache off.
+  const [cacheTtlDays, setCacheTtlDays] = useState<number>(
+    () => parseCacheTtlDays(localStorage.getItem(LOCAL_STORAGE_KEY_CACHE_TTL_DAYS))
+  );
+  const [resultCache, setResultCache] = useState<ResultCache>(
+    () => parseResultCache(localStorage.getItem(LOCAL_STORAGE_KEY_RESULT_CACHE), cacheTtlDays)
+  );
+  // Like the review threshold, read and updated by runs that started in an earlier render.
+  const cacheTtlDaysRef = useRef<number>(cacheTtlDays);
+  const resultCacheRef = useRef<ResultCache>(resultCache);
+  // Rows ticked in the table, for looking them up again or forgetting their cached answers.
+  const [selectedClientIds, setSelectedClientIds] = useState<Set<number>>(new Set());
 
-  // Derived state to determine if the app is configured.
-  const isConfigured = !!apiKey && !!sheetId;
+  // Derived state to determine if the app is configured. The Sheet ID is optional because clients can be imported from a file.
+  const isConfigured = hasConfiguredProvider(providerSettings);
+  const configuredProviders = getConfiguredProviders(providerSettings);
+  // Single-row lookups and verification use the first configured provider.
+  const defaultProvider: EnrichmentProvider | undefined = configuredProviders[0];
 
-  const handleSetupSubmit = (data: { apiKey: string; sheetId: string; openAiApiKey: string }) => {
-    if (data.apiKey.trim() && data.sheetId.trim()) {
-      const newApiKey = data.apiKey.trim();
+  const handleSetupSubmit = (data: { providerSettings: AllProviderSettings; sheetId: string; sheetTabs: string; corsProxy: CorsProxySettings; file: File | null }) => {
+    if (hasConfiguredProvider(data.providerSettings) && (data.sheetId.trim() || data.file)) {
       const newSheetId = data.sheetId.trim();
-      const newOpenAiKey = data.openAiApiKey.trim();
-      
-      localStorage.setItem(LOCAL_STORAGE_KEY_API_KEY, newApiKey);
-      localStorage.setItem(LOCAL_STORAGE_KEY_SHEET_ID, newSheetId);
-      if(newOpenAiKey) {
-        localStorage.setItem(LOCAL_STORAGE_KEY_OPENAI_API_KEY, newOpenAiKey);
+      const newSheetTabs = data.sheetTabs.trim();
+      const newProviderSettings: AllProviderSettings = {};
+
+      for (const provider of getEnrichmentProviders()) {
+        newProviderSettings[provider.id] = {};
+        for (const field of provider.settings) {
+          // Advanced fields are not part of the setup form and keep their saved value.
+          if (field.advanced) {
+            newProviderSettings[provider.id][field.key] = providerSettings[provider.id]?.[field.key] || '';
+            continue;
+          }
+          const value = (data.providerSettings[provider.id]?.[field.key] || '').trim();
+          newProviderSettings[provider.id][field.key] = value;
+          if (value) {
+            localStorage.setItem(field.storageKey, value);
+          } else {
+            localStorage.removeItem(field.storageKey);
+          }
+        }
+      }
+      if (newSheetId) {
+        localStorage.setItem(LOCAL_STORAGE_KEY_SHEET_ID, newSheetId);
+      } else {
+        localStorage.removeItem(LOCAL_STORAGE_KEY_SHEET_ID);
+      }
+      if (newSheetTabs) {
+        localStorage.setItem(LOCAL_STORAGE_KEY_SHEET_TABS, newSheetTabs);
       } else {
-        localStorage.removeItem(LOCAL_STORAGE_KEY_OPENAI_API_KEY);
+        localStorage.removeItem(LOCAL_STORAGE_KEY_SHEET_TABS);
       }
       
-      setApiKey(newApiKey);
+      setProviderSettings(newProviderSettings);
       setSheetId(newSheetId);
-      setOpenAiApiKey(newOpenAiKey);
-      setIsLoading(true); // Start loading clients after setup
+      setSheetTabs(newSheetTabs);
+      saveCorsProxySettings(data.corsProxy);
+      if (data.file) {
+        // A file takes precedence over the sheet, so the sheet is not fetched on top of it.
+        setImportedFileName(data.file.name);
+        loadClientsFromFile(data.file);
+      } else {
+        setIsLoading(true); // Start loading clients after setup
+      }
     }
   };
 
   const handleResetSettings = () => {
-    localStorage.removeItem(LOCAL_STORAGE_KEY_API_KEY);
+    // Advanced settings such as the model choice are preferences, not credentials, so they are kept. So is the
+    // result cache, which saves paying for the same lookups again after setting up anew.
+    getEnrichmentProviders().forEach(provider => provider.settings.filter(field => !field.advanced).forEach(field => localStorage.removeItem(field.storageKey)));
     localStorage.removeItem(LOCAL_STORAGE_KEY_SHEET_ID);
+    localStorage.removeItem(LOCAL_STORAGE_KEY_SHEET_TABS);
     localStorage.removeItem(LOCAL_STORAGE_KEY_CLIENTS);
-    localStorage.removeItem(LOCAL_STORAGE_KEY_OPENAI_API_KEY);
-    setApiKey('');
+    localStorage.removeItem(LOCAL_STORAGE_KEY_CORS_PROXY);
+    localStorage.removeItem(LOCAL_STORAGE_KEY_JOB_QUEUE);
+    setInterruptedRun(null);
+    setProviderSettings(loadProviderSettings());
     setSheetId('');
-    setOpenAiApiKey('');
+    setSheetTabs('');
+    setCorsProxy(parseCorsProxySettings(null));
     setClients([]);
+    setSelectedClientIds(new Set());
+    setImportedFileName('');
+    setImportError('');
+    setSourceTables([]);
+    setSourceKey('');
+    setPendingMapping(null);
     setIsLoading(false); // Not configured, so not loading
-    setError(false); // Reset any previous errors
+    setError(null); // Reset any previous errors
+  };
+
+  const handleSaveSettings = ({ modelSettings, promptTemplates: newPromptTemplates, modelPrices: newModelPrices, runBudget: newRunBudget, maxRateLimitAttempts: newMaxRateLimitAttempts, cacheTtlDays: newCacheTtlDays }: {
+    modelSettings: AllProviderSettings;
+    promptTemplates: PromptTemplateStore;
+    modelPrices: ModelPrice[];
+    runBudget: number | null;
+    maxRateLimitAttempts: number;
+    cacheTtlDays: number;
+  }) => {
+    const newProviderSettings: AllProviderSettings = { ...providerSettings };
+    for (const provider of getEnrichmentProviders()) {
+      for (const field of provider.settings) {
+        const value = modelSettings[provider.id]?.[field.key];
+        if (value === undefined) continue;
+        newProviderSettings[provider.id] = { ...newProviderSettings[provider.id], [field.key]: value.trim() };
+        if (value.trim()) {
+          localStorage.setItem(field.storageKey, value.trim());
+        } else {
+          localStorage.removeItem(field.storageKey);
+        }
+      }
+    }
+    setProviderSettings(newProviderSettings);
+    setPromptTemplates(newPromptTemplates);
+    localStorage.setItem(LOCAL_STORAGE_KEY_PROMPT_TEMPLATES, JSON.stringify(newPromptTemplates));
+    setModelPrices(newModelPrices);
+    modelPricesRef.current = newModelPrices;
+    localStorage.setItem(LOCAL_STORAGE_KEY_MODEL_PRICES, JSON.stringify(newModelPrices));
+    setRunBudget(newRunBudget);
+    runBudgetRef.current = newRunBudget;
+    if (newRunBudget === null) {
+      localStorage.removeItem(LOCAL_STORAGE_KEY_RUN_BUDGET);
+    } else {
+      localStorage.setItem(LOCAL_STORAGE_KEY_RUN_BUDGET, String(newRunBudget));
+    }
+    setMaxRateLimitAttempts(newMaxRateLimitAttempts);
+    maxRateLimitAttemptsRef.current = newMaxRateLimitAttempts;
+    localStorage.setItem(LOCAL_STORAGE_KEY_RATE_LIMIT_ATTEMPTS, String(newMaxRateLimitAttempts));
+    setCacheTtlDays(newCacheTtlDays);
+    cacheTtlDaysRef.current = newCacheTtlDays;
+    localStorage.setItem(LOCAL_STORAGE_KEY_CACHE_TTL_DAYS, String(newCacheTtlDays));
+    saveResultCache(pruneResultCache(resultCacheRef.current, newCacheTtlDays));
+    setIsSettingsOpen(false);
+  };
+
+  const saveResultCache = (cache: ResultCache) => {
+    resultCacheRef.current = cache;
+    setResultCache(cache);
+    localStorage.setItem(LOCAL_STORAGE_KEY_RESULT_CACHE, JSON.stringify(cache));
+  };
+
+  // Saves the proxy settings, normalised so an empty custom template falls back to the default.
+  const saveCorsProxySettings = (settings: CorsProxySettings): CorsProxySettings => {
+    const normalized = normalizeCorsProxySettings(settings);
+    localStorage.setItem(LOCAL_STORAGE_KEY_CORS_PROXY, JSON.stringify(normalized));
+    setCorsProxy(normalized);
+    return normalized;
+  };
+
+  // Turns the source tables into clients and looks for a run that was interrupted before they were last closed.
+  // Throws if the mapping does not fit one of the tables.
+  const applyColumnMapping = useCallback((tables: SheetTable[], key: string, mapping: ColumnMapping, loadPrefilled: boolean) => {
+    const mappedClients = mapTablesToClients(tables, mapping, { includePrefilled: loadPrefilled });
+    saveColumnMapping(key, mapping);
+    // While a run is active, the saved queue is its own and nothing was interrupted.
+    const savedRun = runControlRef.current ? null : parseJobQueue(localStorage.getItem(LOCAL_STORAGE_KEY_JOB_QUEUE));
+    const loadedKeys = new Set(mappedClients.map(getClientUniqueKey));
+    const hasUnfinishedClients = !!savedRun && getUnfinishedClientKeys(savedRun).some(clientKey => loadedKeys.has(clientKey));
+    setInterruptedRun(hasUnfinishedClients ? savedRun : null);
+    // Locations and rule-based title classifications are not saved, so they are derived again.
+    setClients(mergeWithSavedProgress(mappedClients, savedRun).map(withDerivedFields));
+    setSelectedClientIds(new Set());
+    setPendingMapping(null);
+    setMappingError('');
+  }, []);
+
+  // Reuses the remembered mapping for this source when it still fits, otherwise asks the user to map the columns.
+  const receiveSourceTables = useCallback((tables: SheetTable[], key: string) => {
+    setSourceTables(tables);
+    setSourceKey(key);
+    const headers = getCombinedHeaders(tables);
+    const savedMapping = loadSavedColumnMapping(key);
+    const canReuseSavedMapping = !!savedMapping && isMappingApplicable(savedMapping, headers);
+    setMappingError('');
+    if (canReuseSavedMapping) {
+      try {
+        applyColumnMapping(tables, key, savedMapping, includePrefilled);
+        return;
+      } catch (err) {
+        console.error("Saved column mapping could not be applied.", err);
+        setMappingError(err instanceof Error ? err.message : 'The saved column mapping could not be applied.');
+      }
+    }
+    setClients([]);
+    setPendingMapping(canReuseSavedMapping ? savedMapping : suggestColumnMapping(headers));
+  }, [applyColumnMapping, includePrefilled]);
+
+  const handleEditMapping = () => {
+    setMappingError('');
+    setPendingMapping(loadSavedColumnMapping(sourceKey) || suggestColumnMapping(getCombinedHeaders(sourceTables)));
+  };
+
+  const handleApplyMapping = (mapping: ColumnMapping) => {
+    try {
+      applyColumnMapping(sourceTables, sourceKey, mapping, includePrefilled);
+    } catch (err) {
+      setMappingError(err instanceof Error ? err.message : 'The column mapping could not be applied.');
+    }
   };
 
-  const loadClients = useCallback(async (id: string) => {
+  // Re-applies the current mapping so rows with a city appear or disappear without reloading the source.
+  const handleIncludePrefilledChange = (include: boolean) => {
+    setIncludePrefilled(include);
+    localStorage.setItem(LOCAL_STORAGE_KEY_INCLUDE_PREFILLED, String(include));
+    const savedMapping = loadSavedColumnMapping(sourceKey);
+    if (sourceTables.length > 0 && savedMapping) {
+      try {
+        applyColumnMapping(sourceTables, sourceKey, savedMapping, include);
+      } catch (err) {
+        console.error(err);
+      }
+    }
+  };
+
+  const loadClients = useCallback(async (id: string, tabs: string, proxy: CorsProxySettings) => {
     if (!id) return;
     try {
       setIsLoading(true);
-      setError(false);
-      const fetchedClients = await fetchClients(id);
-      
-      const savedDataRaw = localStorage.getItem(LOCAL_STORAGE_KEY_CLIENTS);
-      const savedData: Record<string, { city: string; cityStatus: Client['cityStatus']; jobTitle?: string }> = savedDataRaw ? JSON.parse(savedDataRaw) : {};
-
-      const mergedClients = fetchedClients.map(client => {
-        const key = getClientUniqueKey(client);
-        const savedClient = savedData[key];
-        if (savedClient) {
-          return { 
-            ...client, 
-            city: savedClient.city, 
-            cityStatus: savedClient.cityStatus,
-            jobTitle: savedClient.jobTitle !== undefined ? savedClient.jobTitle : client.jobTitle
-          };
-        }
-        return client;
-      });
+      setError(null);
+      const tables = await fetchSheetTables(id, parseSheetTabs(tabs), proxy);
+      setImportedFileName('');
+      receiveSourceTables(tables, `sheet:${id}`);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof SheetFetchError ? err : new SheetFetchError('network', err instanceof Error ? err.message : 'The sheet could not be loaded.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [receiveSourceTables]);
 
-      setClients(mergedClients);
+  const loadClientsFromFile = useCallback(async (file: File) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      setImportError('');
+      const table = await parseClientFile(file);
+      setImportedFileName(file.name);
+      receiveSourceTables([table], `file:${file.name}`);
     } catch (err) {
       console.error(err);
-      setError(true);
+      setImportError(err instanceof Error ? err.message : 'The file could not be imported.');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [receiveSourceTables]);
 
-  // Effect to initialize the app and load clients once it's configured.
+  // Effect to initialize the providers whenever their settings change, e.g. a different model was picked.
   useEffect(() => {
     if (isConfigured) {
       try {
-        initializeGemini(apiKey);
-        if(openAiApiKey) {
-          initializeOpenAI(openAiApiKey);
-        }
-        loadClients(sheetId);
+        configuredProviders.forEach(provider => provider.init(providerSettings[provider.id]));
       } catch (e) {
         console.error("Failed to initialize with stored settings. Clearing invalid key.", e);
         handleResetSettings();
       }
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isConfigured, apiKey, sheetId, openAiApiKey]); // loadClients is stable and doesn't need to be in deps
+  }, [isConfigured, providerSettings]);
+
+  // Effect to load clients once the app is configured with a sheet. Kept apart from provider initialization, so
+  // changing a model does not reload the sheet.
+  useEffect(() => {
+    if (isConfigured && sheetId && !importedFileName) {
+      loadClients(sheetId, sheetTabs, corsProxy);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isConfigured, sheetId, sheetTabs]); // loadClients is stable and doesn't need to be in deps. Proxy changes apply on the next retry.
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    setActivePromptTemplate(promptTemplates);
+  }, [promptTemplates]);
+
+  useEffect(() => {
+    localStorage.setItem(LOCAL_STORAGE_KEY_USAGE_TOTALS, JSON.stringify(usageTotals));
+  }, [usageTotals]);
 
   // Effect to save client data to localStorage whenever it changes
   useEffect(() => {
     if (isLoading || clients.length === 0 || !isConfigured) {
       return;
     }
-    const dataToStore: Record<string, { city: string; cityStatus: Client['cityStatus']; jobTitle: string }> = {};
+    const dataToStore: Record<string, SavedClientProgress> = {};
     clients.forEach(client => {
-      if (client.cityStatus !== 'idle') {
+      const hasAiClassification = client.titleClassification?.source === 'ai';
+      if (client.cityStatus !== 'idle' || hasAiClassification) {
         const key = getClientUniqueKey(client);
         dataToStore[key] = {
           city: client.city,
           cityStatus: client.cityStatus,
           jobTitle: client.jobTitle,
+          verification: client.verification,
+          sources: client.sources,
+          confidence: client.confidence,
+          rationale: client.rationale,
+          reviewed: client.reviewed,
+          consensusCandidates: client.consensusCandidates,
+          error: client.error,
+          cachedAt: client.cachedAt,
+          titleClassification: hasAiClassification ? client.titleClassification : undefined,
         };
       }
     });
@@ -154,86 +596,136 @@ const App: React.FC = () => {
   const handleCityChange = useCallback((id: number, city: string) => {
     setClients(prevClients =>
       prevClients.map(client =>
-        client.id === id ? { ...client, city, cityStatus: city ? 'found' : 'idle' } : client
+        // A typed city no longer comes from the AI, so its sources and confidence no longer apply.
+        client.id === id ? withResolvedLocation({ ...client, city, cityStatus: city ? 'found' : 'idle', sources: undefined, confidence: undefined, rationale: undefined, reviewed: undefined, consensusCandidates: undefined, error: undefined, cachedAt: undefined }) : client
+      )
+    );
+  }, []);
+
+  // Marks a low-confidence result as checked by a reviewer.
+  const handleAcceptResult = useCallback((id: number) => {
+    setClients(prevClients =>
+      prevClients.map(client =>
+        client.id === id && client.cityStatus === 'needs_review' ? { ...client, cityStatus: 'found', reviewed: true } : client
       )
     );
   }, []);
+
+  // Applies the consensus candidate the user picked for a disputed row.
+  const handlePickCandidate = useCallback((id: number, candidate: ConsensusCandidate) => {
+    setClients(prevClients =>
+      prevClients.map(client => {
+        if (client.id !== id) return client;
+        const picked = applyFoundCity(client, candidate, reviewThresholdRef.current);
+        // The user chose this answer, so it needs no further review.
+        return picked.cityStatus === 'needs_review' ? { ...picked, cityStatus: 'found', reviewed: true } : picked;
+      })
+    );
+  }, []);
+
+  const handleReviewThresholdChange = (threshold: number) => {
+    setReviewThreshold(threshold);
+    reviewThresholdRef.current = threshold;
+    localStorage.setItem(LOCAL_STORAGE_KEY_REVIEW_THRESHOLD, String(threshold));
+    setClients(prevClients => applyReviewThreshold(prevClients, threshold));
+  };
   
-  const processApiResult = (resultMap: Map<number, { city: string; jobTitle: string } | string>) => {
-    const firstResultValue = resultMap.values().next().value;
-
-    // Handle batch-wide fatal errors first
-    if (typeof firstResultValue === 'string') {
-        if (firstResultValue === 'Invalid API Key') {
-            setRateLimitMessage("An invalid API Key was provided. Resetting settings.");
-            handleResetSettings();
-            return 'STOP';
-        }
-        if (firstResultValue === 'Insufficient Quota') {
-            setRateLimitMessage("OpenAI Quota Exceeded. Please check your plan and billing details on the OpenAI website.");
-            setClients(prev => prev.map(c => 
-                resultMap.has(c.id) ? { ...c, cityStatus: 'error', city: 'Quota Exceeded' } : c
-            ));
-            return 'STOP';
-        }
-        if (firstResultValue === 'Rate Limit Exceeded') {
-            setRateLimitMessage("API rate limit reached. Paused processing. Please wait a minute and try again.");
-            
-            const now = Date.now();
-            rateLimitHistory.current.push(now);
-            if (rateLimitHistory.current.length >= 2) {
-              const history = rateLimitHistory.current;
-              const timeOfLastError = history[history.length - 1];
-              const timeOfPreviousError = history[history.length - 2];
-              if (timeOfLastError - timeOfPreviousError > 60000) { // More than 1 minute apart
-                setShowDailyLimitWarning(true);
-              }
-            }
-            
-            setClients(prev => prev.map(c => 
-                resultMap.has(c.id) ? { ...c, cityStatus: 'error', city: 'Rate Limited' } : c
-            ));
-            return 'STOP';
-        }
-    } else if (typeof firstResultValue === 'object') {
-        // A successful API call will have an object as a result.
-        // This resets the consecutive rate limit counter.
-        rateLimitHistory.current = [];
+  // Shows why the run stopped, clearing the settings first when the key was rejected.
+  const handleBatchStop = (stop: BatchStop | undefined) => {
+    if (!stop) return 'CONTINUE';
+    setRateLimitMessage(stop.message);
+    if (stop.resetSettings) {
+        handleResetSettings();
     }
+    return 'STOP';
+  };
 
-    // Process individual results from the batch
-    for (const [id, result] of resultMap.entries()) {
-        if (result && typeof result === 'object') {
-            // This is a successful result with city and job title
-            setClients(prevClients =>
-                prevClients.map(client =>
-                    client.id === id ? { 
-                        ...client, 
-                        city: result.city, 
-                        jobTitle: result.jobTitle || client.jobTitle, // Keep original title if AI returns empty
-                        cityStatus: result.city.toLowerCase() === 'not found' ? 'not_found' : 'found' 
-                    } : client
-                )
-            );
-        } else if (typeof result === 'string') {
-            // This is an individual error string (e.g., "Error: No result from AI")
-            setClients(prevClients =>
-                prevClients.map(client =>
-                    client.id === id ? { 
-                        ...client, 
-                        city: result,
-                        cityStatus: 'error'
-                    } : client
-                )
-            );
-        }
+  // Returns 'STOP' when the batch failed in a way that ends the run.
+  const processApiResult = (batch: EnrichmentBatch, provider: EnrichmentProvider) => {
+    setClients(prevClients => applyApiResult(prevClients, batch, reviewThresholdRef.current));
+    return handleBatchStop(getBatchStop([batch], [provider], maxRateLimitAttemptsRef.current));
+  };
+
+  // A batch-wide error from any of the providers stops the run.
+  const processConsensusResults = (batches: EnrichmentBatch[], providers: EnrichmentProvider[]) => {
+    setClients(prevClients => applyConsensusResults(prevClients, batches, providers, reviewThresholdRef.current));
+    return handleBatchStop(getBatchStop(batches, providers, maxRateLimitAttemptsRef.current));
+  };
+
+  // Prices each provider call of a batch and adds it to the all-time totals. Clients answered from the result
+  // cache were not sent, and a batch answered entirely from it made no call.
+  const recordUsage = (providers: EnrichmentProvider[], batches: EnrichmentBatch[], batch: Client[]): UsageRecord[] => {
+    const recordedAt = new Date().toISOString();
+    const records = batches.flatMap((result, index): UsageRecord[] => {
+      const sentClients = batch.filter(client => !result.cachedAt?.has(client.id));
+      return sentClients.length === 0 ? [] : [{
+        providerId: providers[index].id,
+        providerName: providers[index].name,
+        model: result.model,
+        clientIds: sentClients.map(client => client.id),
+        ...result.usage,
+        cost: estimateCost(result.usage, findModelPrice(modelPricesRef.current, result.model)),
+        recordedAt,
+      }];
+    });
+    setUsageTotals(prev => addToUsageTotals(prev, records));
+    return records;
+  };
+
+  // Prices a request made outside a lookup, such as classifying job titles, and adds it to the all-time totals.
+  const recordCompletionUsage = (provider: EnrichmentProvider, usage: TokenUsage, model: string, clientIds: number[]) => {
+    const record: UsageRecord = {
+      providerId: provider.id,
+      providerName: provider.name,
+      model,
+      clientIds,
+      ...usage,
+      cost: estimateCost(usage, findModelPrice(modelPricesRef.current, model)),
+      recordedAt: new Date().toISOString(),
+    };
+    setUsageTotals(prev => addToUsageTotals(prev, [record]));
+  };
+
+  const getRateLimiter = (provider: EnrichmentProvider): RateLimiter => {
+    let limiter = rateLimiters.current.get(provider.id);
+    if (!limiter) {
+      limiter = createRateLimiter(provider.rateLimits);
+      rateLimiters.current.set(provider.id, limiter);
+    }
+    return limiter;
+  };
+
+  // Answers the batch from the result cache where it can and sends the rest to the provider, caching what it finds.
+  const enrichWithCache = async (provider: EnrichmentProvider, batch: Client[], bypassCache: boolean, signal?: AbortSignal): Promise<EnrichmentBatch> => {
+    const promptVersion = getActivePromptTemplate().version;
+    const ttlDays = cacheTtlDaysRef.current;
+    const { cached, uncached } = bypassCache || ttlDays === 0
+      ? { cached: new Map(), uncached: batch }
+      : lookupCachedResults(resultCacheRef.current, batch, provider.id, promptVersion, ttlDays);
+    const sent = uncached.length === 0 ? null : await enrichBatchWithRetries(provider, uncached, getRateLimiter(provider), {
+      maxAttempts: maxRateLimitAttemptsRef.current,
+      onWait: setRateLimitWait,
+      signal,
+    });
+    if (sent && ttlDays > 0) {
+      saveResultCache(addToResultCache(resultCacheRef.current, uncached, sent, provider.id, promptVersion));
+    }
+    return mergeCachedResults(batch, sent, cached);
+  };
+
+  // Sends a batch to each provider, waiting out rate limits with a countdown until the attempts run out.
+  // Rejects when the signal is aborted.
+  const enrichWithProviders = async (providers: EnrichmentProvider[], batch: Client[], bypassCache: boolean, signal?: AbortSignal): Promise<EnrichmentBatch[]> => {
+    try {
+      return await Promise.all(providers.map(provider => enrichWithCache(provider, batch, bypassCache, signal)));
+    } finally {
+      setRateLimitWait(null);
     }
-    return 'CONTINUE';
   };
 
   const handleFindCity = useCallback(async (id: number) => {
     const clientToFind = clients.find(c => c.id === id);
-    if (!clientToFind) return;
+    if (!clientToFind || !defaultProvider) return;
 
     setRateLimitMessage('');
     setClients(prevClients =>
@@ -242,177 +734,337 @@ const App: React.FC = () => {
       )
     );
 
-    const resultMap = await findClientCitiesBatch([clientToFind]);
-    processApiResult(resultMap);
-  }, [clients]);
+    let result: EnrichmentBatch;
+    try {
+      [result] = await enrichWithProviders([defaultProvider], [clientToFind], false);
+    } catch (error) {
+      console.error('The lookup failed:', error);
+      setRateLimitMessage(`The lookup stopped unexpectedly: ${error instanceof Error ? error.message : String(error)}`);
+      setClients(prevClients =>
+        prevClients.map(client =>
+          client.id === id ? { ...client, cityStatus: clientToFind.cityStatus } : client
+        )
+      );
+      return;
+    }
+    recordUsage([defaultProvider], [result], [clientToFind]);
+    processApiResult(result, defaultProvider);
+  }, [clients, defaultProvider]);
   
-  const handleFindAllCities = useCallback(async () => {
-    const clientsToFind = clients.filter(c => c.cityStatus !== 'found');
-    if (clientsToFind.length === 0) return;
+  // Sends the clients to the providers in batches, paced by each provider's rate limiter. With more than one
+  // provider, every batch goes to all of them and their answers are compared. The run can be paused, which
+  // aborts the batch in flight and sends it again on resume, or cancelled. Progress is saved as a job queue
+  // until the run ends, so it can be resumed after a reload; `resumedQueue` continues such a run. Answers in the
+  // result cache are reused, except when refreshing selected rows or verifying existing cities.
+  const runEnrichment = useCallback(async (providers: EnrichmentProvider[], clientsToFind: Client[], mode: EnrichmentMode, resumedQueue?: EnrichmentJobQueue) => {
+    if (clientsToFind.length === 0 || providers.length === 0) return;
+
+    setInterruptedRun(null);
+    let queue = resumedQueue ?? createJobQueue(mode, providers.map(provider => provider.id), clientsToFind.map(c => ({ key: getClientUniqueKey(c), status: c.cityStatus })));
+    const saveQueue = (next: EnrichmentJobQueue) => {
+        queue = next;
+        localStorage.setItem(LOCAL_STORAGE_KEY_JOB_QUEUE, JSON.stringify(next));
+    };
+    saveQueue(queue);
   
-    setIsFindingAll(true);
+    const batchSize = providers.length === 1 ? providers[0].rateLimits.batchSize : getConsensusBatchSize(providers);
+    const batchCount = Math.ceil(clientsToFind.length / batchSize);
+    const control = createRunControl();
+    runControlRef.current = control;
+    setActiveRun({ providerIds: providers.map(provider => provider.id), mode, batchNumber: 1, batchCount, isPaused: false });
     setRateLimitMessage('');
+    setRunUsage([]);
+    const runRecords: UsageRecord[] = [];
+    const bypassCache = mode === 'refresh' || mode === 'verify';
   
     setClients(prevClients =>
       prevClients.map(c =>
         clientsToFind.some(ctf => ctf.id === c.id) ? { ...c, cityStatus: 'finding' } : c
       )
     );
+
+    // Rows that were never answered go back to the status they had before the run.
+    const restoreStatuses = (remaining: Client[]) => {
+        setClients(prev => prev.map(c => {
+            const original = remaining.find(r => r.id === c.id);
+            return original ? { ...c, cityStatus: original.cityStatus } : c;
+        }));
+    };
   
-    for (let i = 0; i < clientsToFind.length; i += BATCH_SIZE) {
-        const batch = clientsToFind.slice(i, i + BATCH_SIZE);
-        const resultMap = await findClientCitiesBatch(batch);
-        const status = processApiResult(resultMap);
-        
-        if (status === 'STOP') {
-            const remainingClientIds = clientsToFind.slice(i).map(c => c.id);
-            setClients(prev => prev.map(c =>
-                remainingClientIds.includes(c.id) ? { ...c, cityStatus: 'error', city: c.city || 'Not Processed' } : c
-            ));
-            break;
-        }
+    try {
+        for (let i = 0; i < clientsToFind.length; i += batchSize) {
+            await control.waitUntilResumed();
+            if (control.getState() === 'cancelled') {
+                restoreStatuses(clientsToFind.slice(i));
+                break;
+            }
+
+            const batch = clientsToFind.slice(i, i + batchSize);
+            const budget = runBudgetRef.current;
+            if (!canAffordNextBatch(runRecords, batch.length, budget)) {
+                const spent = addToUsageTotals(EMPTY_USAGE_TOTALS, runRecords).cost;
+                const remaining = clientsToFind.slice(i);
+                setRateLimitMessage(`Stopped before the next batch, which would take this run past its ${formatCost(budget!)} budget (${formatCost(spent)} spent). ${remaining.length} clients were not processed.`);
+                restoreStatuses(remaining);
+                break;
+            }
 
-        if (i + BATCH_SIZE < clientsToFind.length) {
-            await new Promise(resolve => setTimeout(resolve, RPM_DELAY));
+            setActiveRun(prev => prev && { ...prev, batchNumber: i / batchSize + 1 });
+            const batchKeys = batch.map(getClientUniqueKey);
+            // Read once, since a pause and resume before the request rejects would otherwise look like a failure.
+            const signal = control.getSignal();
+            // Each provider is sent only the clients it has not answered yet in this run. Answers are kept in the
+            // queue and their usage recorded as they arrive, so a batch sent again after a pause or reload does not
+            // pay twice for them.
+            const enrichPending = async (provider: EnrichmentProvider): Promise<EnrichmentBatch> => {
+                const kept = getJobOutcomes(queue, provider.id);
+                const pending = batch.filter(client => !kept.has(getClientUniqueKey(client)));
+                let sent: EnrichmentBatch | null = null;
+                if (pending.length > 0) {
+                    saveQueue(setJobState(queue, pending.map(getClientUniqueKey), 'in_flight', provider.id));
+                    const result = await enrichWithCache(provider, pending, bypassCache, signal);
+                    const records = recordUsage([provider], [result], pending);
+                    runRecords.push(...records);
+                    setRunUsage(prev => [...prev, ...records]);
+                    saveQueue(saveJobOutcomes(queue, provider.id, new Map(pending.flatMap(client => {
+                        const outcome = result.results.get(client.id);
+                        return outcome ? [[getClientUniqueKey(client), outcome]] : [];
+                    }))));
+                    sent = result;
+                }
+                const results: EnrichmentResultMap = new Map();
+                for (const client of batch) {
+                    const outcome = kept.get(getClientUniqueKey(client)) ?? sent?.results.get(client.id);
+                    if (outcome) results.set(client.id, outcome);
+                }
+                return sent ? { ...sent, results } : { results, usage: { ...NO_TOKEN_USAGE }, model: '' };
+            };
+            // Settled rather than raced, so no provider is still answering once the batch is given up on.
+            const settled = await Promise.allSettled(providers.map(enrichPending));
+            setRateLimitWait(null);
+            const failure = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+            if (failure) {
+                saveQueue(requeueInFlightJobs(queue));
+                if (!signal.aborted) {
+                    console.error('The enrichment run failed:', failure.reason);
+                    setRateLimitMessage(`The run stopped unexpectedly: ${failure.reason instanceof Error ? failure.reason.message : String(failure.reason)}`);
+                    restoreStatuses(clientsToFind.slice(i));
+                    break;
+                }
+                // Paused or cancelled mid-batch: the loop waits for resume and sends the same batch again, or
+                // restores the rows on cancel.
+                i -= batchSize;
+                continue;
+            }
+            const batches = settled.map(outcome => (outcome as PromiseFulfilledResult<EnrichmentBatch>).value);
+            // The answers are on the rows now, so the queue no longer needs to keep them.
+            saveQueue(setJobState(queue, batchKeys, 'done'));
+            const status = providers.length === 1
+                ? processApiResult(batches[0], providers[0])
+                : processConsensusResults(batches, providers);
+        
+            if (status === 'STOP') {
+                const stoppedBy = getBatchStop(batches, providers, maxRateLimitAttemptsRef.current)!.error;
+                const notProcessed = createEnrichmentError('not_processed', { id: stoppedBy.providerId, name: stoppedBy.providerName }, {
+                    message: `The run stopped before this client was sent, after ${stoppedBy.providerName} reported: ${stoppedBy.message}`,
+                });
+                const remainingClientIds = clientsToFind.slice(i + batchSize).map(c => c.id);
+                setClients(prev => prev.map(c =>
+                    remainingClientIds.includes(c.id) ? { ...c, cityStatus: 'error', error: notProcessed } : c
+                ));
+                break;
+            }
         }
+    } finally {
+        // However the run ended, it was not interrupted, so there is nothing left to resume.
+        localStorage.removeItem(LOCAL_STORAGE_KEY_JOB_QUEUE);
+        runControlRef.current = null;
+        setActiveRun(null);
     }
-  
-    setIsFindingAll(false);
-  }, [clients]);
+  }, []);
 
-  const handleFindAllWithOpenAI = useCallback(async () => {
-    const clientsToFind = clients.filter(c => c.cityStatus !== 'found');
-    if (clientsToFind.length === 0) return;
+  // Continues an interrupted run with the clients it had not finished, in their original order.
+  const handleResumeInterruptedRun = () => {
+    if (!interruptedRun) return;
+    const providers = interruptedRun.providerIds.map(id => configuredProviders.find(provider => provider.id === id));
+    if (providers.some(provider => !provider)) return;
+    const unfinishedKeys = getUnfinishedClientKeys(interruptedRun);
+    const clientsByKey = new Map(clients.map(client => [getClientUniqueKey(client), client]));
+    const clientsToFind = unfinishedKeys.map(key => clientsByKey.get(key)).filter((client): client is Client => !!client);
+    runEnrichment(providers as EnrichmentProvider[], clientsToFind, interruptedRun.mode, interruptedRun);
+  };
 
-    setIsRetrying(true); // Reuse the 'isRetrying' state for all OpenAI bulk operations
-    setRateLimitMessage('');
+  const handleDiscardInterruptedRun = () => {
+    localStorage.removeItem(LOCAL_STORAGE_KEY_JOB_QUEUE);
+    setInterruptedRun(null);
+  };
 
-    setClients(prevClients =>
-      prevClients.map(c =>
-        clientsToFind.some(ctf => ctf.id === c.id) ? { ...c, cityStatus: 'finding' } : c
-      )
-    );
+  const handlePauseRun = () => {
+    runControlRef.current?.pause();
+    setActiveRun(prev => prev && { ...prev, isPaused: true });
+  };
 
-    for (let i = 0; i < clientsToFind.length; i += BATCH_SIZE) {
-        const batch = clientsToFind.slice(i, i + BATCH_SIZE);
-        const resultMap = await findClientCitiesBatchOpenAI(batch);
-        const status = processApiResult(resultMap);
-        
-        if (status === 'STOP') {
-            const remainingClientIds = clientsToFind.slice(i).map(c => c.id);
-            setClients(prev => prev.map(c =>
-                remainingClientIds.includes(c.id) ? { ...c, cityStatus: 'error', city: c.city || 'Not Processed' } : c
-            ));
-            break;
-        }
+  const handleResumeRun = () => {
+    runControlRef.current?.resume();
+    setActiveRun(prev => prev && { ...prev, isPaused: false });
+  };
 
-        if (i + BATCH_SIZE < clientsToFind.length) {
-            await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-    }
+  const handleCancelRun = () => {
+    runControlRef.current?.cancel();
+  };
 
-    setIsRetrying(false);
-  }, [clients]);
+  const handleFindAll = (provider: EnrichmentProvider) => {
+    runEnrichment([provider], clients.filter(c => !ANSWERED_STATUSES.includes(c.cityStatus)), 'findAll');
+  };
 
-  const handleRetryWithOpenAI = useCallback(async () => {
-    const clientsToFind = clients.filter(c => c.cityStatus === 'error' || c.cityStatus === 'not_found');
-    if (clientsToFind.length === 0) return;
+  // Looks up every client without an answer with all configured providers and accepts only matching answers.
+  const handleConsensus = () => {
+    runEnrichment(configuredProviders, clients.filter(c => !ANSWERED_STATUSES.includes(c.cityStatus)), 'consensus');
+  };
 
-    setIsRetrying(true);
+  const handleRetryFailed = (provider: EnrichmentProvider) => {
+    runEnrichment([provider], clients.filter(c => c.cityStatus === 'error' || c.cityStatus === 'not_found'), 'retryFailed');
+  };
+
+  // Sends the titles the keyword rules could not fully classify to the default provider, a batch of distinct titles
+  // at a time, paced by its rate limiter like lookups are.
+  const handleClassifyTitles = async () => {
+    if (!defaultProvider?.complete) return;
+    const provider = defaultProvider;
+    const titles = [...new Set<string>(clients.filter(needsAiClassification).map(client => client.titleClassification!.title))];
+    setIsClassifyingTitles(true);
     setRateLimitMessage('');
+    try {
+      for (let i = 0; i < titles.length; i += TITLE_BATCH_SIZE) {
+        const batchTitles = titles.slice(i, i + TITLE_BATCH_SIZE);
+        await getRateLimiter(provider).acquire();
+        const { classifications, usage, model } = await classifyTitlesWithAi(provider, batchTitles);
+        const clientIds = clients.filter(client => batchTitles.includes(client.titleClassification?.title || '')).map(client => client.id);
+        recordCompletionUsage(provider, usage, model, clientIds);
+        setClients(prevClients => applyAiClassifications(prevClients, classifications));
+      }
+    } catch (e) {
+      console.error('Failed to classify job titles:', e);
+      setRateLimitMessage(`${provider.name} could not classify the job titles: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsClassifyingTitles(false);
+    }
+  };
 
-    setClients(prevClients =>
-      prevClients.map(c =>
-        clientsToFind.some(ctf => ctf.id === c.id) ? { ...c, cityStatus: 'finding' } : c
-      )
-    );
+  // Sends rows loaded with an existing city back to the AI to check whether that city is still correct.
+  const handleVerifyExisting = () => {
+    if (!defaultProvider) return;
+    runEnrichment([defaultProvider], clients.filter(c => c.prefilledCity && !c.verification && c.cityStatus !== 'finding'), 'verify');
+  };
 
-    for (let i = 0; i < clientsToFind.length; i += BATCH_SIZE) {
-        const batch = clientsToFind.slice(i, i + BATCH_SIZE);
-        const resultMap = await findClientCitiesBatchOpenAI(batch);
-        const status = processApiResult(resultMap);
-        
-        if (status === 'STOP') {
-            const remainingClientIds = clientsToFind.slice(i).map(c => c.id);
-            setClients(prev => prev.map(c =>
-                remainingClientIds.includes(c.id) ? { ...c, cityStatus: 'error', city: c.city || 'Not Processed' } : c
-            ));
-            break;
-        }
+  const handleToggleSelected = (id: number) => {
+    setSelectedClientIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
 
-        if (i + BATCH_SIZE < clientsToFind.length) {
-            await new Promise(resolve => setTimeout(resolve, 2000));
-        }
-    }
+  const handleSelectClients = (ids: number[], selected: boolean) => {
+    setSelectedClientIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => selected ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
 
-    setIsRetrying(false);
-  }, [clients]);
+  // Asks the default provider again for the selected rows, ignoring and replacing their cached answers.
+  const handleRefreshSelected = () => {
+    if (!defaultProvider) return;
+    runEnrichment([defaultProvider], clients.filter(c => selectedClientIds.has(c.id) && c.cityStatus !== 'finding'), 'refresh');
+    setSelectedClientIds(new Set());
+  };
+
+  // Forgets the cached answers of the selected rows, so the next lookup of any provider asks again. The rows
+  // keep their current answers.
+  const handleClearCacheForSelected = () => {
+    saveResultCache(removeCachedResults(resultCacheRef.current, clients.filter(c => selectedClientIds.has(c.id))));
+    setClients(prev => prev.map(c => selectedClientIds.has(c.id) ? { ...c, cachedAt: undefined } : c));
+    setSelectedClientIds(new Set());
+  };
 
   const handleDownloadCSV = () => {
-    const headers = ["Client first name", "Client second name", "Job Title", "Company", "Identified City"];
-    
-    const formatCsvField = (field: string) => {
-      const str = String(field || '');
-      if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-        return `"${str.replace(/"/g, '""')}"`;
+    downloadCsv(buildClientsCsv(clients), 'client_locations.csv');
+  };
+
+  // After a write-back, the written values become the new loaded values, so a later preview does not see them as conflicts.
+  const handleCellsWritten = (changes: CellChange[]) => {
+    setClients(prev => prev.map(client => {
+      const clientChanges = changes.filter(change => change.clientId === client.id);
+      if (clientChanges.length === 0 || !client.sourceRow) return client;
+      const values = [...client.sourceRow.values];
+      for (const change of clientChanges) {
+        values[client.sourceRow.headers.indexOf(change.header)] = change.newValue;
       }
-      return str;
-    };
+      return { ...client, sourceRow: { ...client.sourceRow, values } };
+    }));
+  };
 
-    const csvRows = [
-      headers.join(','),
-      ...clients.map(client => 
-        [
-          formatCsvField(client.firstName),
-          formatCsvField(client.lastName),
-          formatCsvField(client.jobTitle),
-          formatCsvField(client.company),
-          formatCsvField(client.city)
-        ].join(',')
-      )
-    ];
-
-    const csvString = csvRows.join('\n');
-    const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    if (link.download !== undefined) {
-      const url = URL.createObjectURL(blob);
-      link.setAttribute('href', url);
-      link.setAttribute('download', 'client_locations.csv');
-      link.style.visibility = 'hidden';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+  // Writes one file per source tab so each region's list can be handed over separately.
+  const handleDownloadCSVByTab = () => {
+    for (const [tab, tabClients] of groupClientsByTab(clients)) {
+      downloadCsv(buildClientsCsv(tabClients), `client_locations_${toFileNameSegment(tab)}.csv`);
     }
   };
 
-  const ErrorDisplay = () => (
+  // Saves any proxy change made on the error screen before trying again with it.
+  const handleRetryConnection = () => {
+    loadClients(sheetId, sheetTabs, saveCorsProxySettings(corsProxy));
+  };
+
+  // Rendered with a function rather than as a nested component, so the proxy fields keep focus while typing.
+  const renderErrorDisplay = (loadError: SheetFetchError) => (
     <div className="bg-white dark:bg-gray-medium rounded-lg shadow-xl p-6 md:p-8 max-w-3xl mx-auto my-10 border-t-4 border-red-500">
       <div className="flex items-start mb-4">
         <svg className="h-8 w-8 text-red-500 mr-4 flex-shrink-0 mt-1" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
         </svg>
         <div>
-          <h2 className="text-2xl font-bold text-red-700 dark:text-red-400">Action Required: Cannot Access Google Sheet</h2>
-          <p className="text-gray-600 dark:text-gray-300 mt-1">
-            The app received an "Unauthorized" error. Please check the Sheet ID and sharing settings.
-          </p>
+          <h2 className="text-2xl font-bold text-red-700 dark:text-red-400">{SHEET_ERROR_TITLES[loadError.kind]}</h2>
+          <p className="text-gray-600 dark:text-gray-300 mt-1">{loadError.message}</p>
         </div>
       </div>
       <div className="text-gray-700 dark:text-gray-300 space-y-4">
-        <p>To fix this, you must set your Google Sheet to be viewable by "Anyone with the link". Follow these steps exactly:</p>
-        <ol className="list-decimal list-inside pl-4 space-y-2">
-          <li>Double-check that you have entered the correct <strong>Sheet ID</strong>.</li>
-          <li>In your Google Sheet, click the blue/green <strong>Share</strong> button in the top-right corner.</li>
-          <li>Under the <strong>"General access"</strong> section, click the dropdown menu.</li>
-          <li>If it says "Restricted", change it to <strong>"Anyone with the link"</strong>.</li>
-          <li>Ensure the role on the right is set to <strong>"Viewer"</strong>.</li>
-        </ol>
-        <p>Once you've updated the sharing settings, click the button below to try again.</p>
+        {loadError.kind === 'permission' && (
+          <>
+            <p>To fix this, you must set your Google Sheet to be viewable by "Anyone with the link". Follow these steps exactly:</p>
+            <ol className="list-decimal list-inside pl-4 space-y-2">
+              <li>Double-check that you have entered the correct <strong>Sheet ID</strong>.</li>
+              <li>In your Google Sheet, click the blue/green <strong>Share</strong> button in the top-right corner.</li>
+              <li>Under the <strong>"General access"</strong> section, click the dropdown menu.</li>
+              <li>If it says "Restricted", change it to <strong>"Anyone with the link"</strong>.</li>
+              <li>Ensure the role on the right is set to <strong>"Viewer"</strong>.</li>
+            </ol>
+            <p>Once you've updated the sharing settings, click the button below to try again.</p>
+          </>
+        )}
+        {loadError.kind === 'not_found' && (
+          <ol className="list-decimal list-inside pl-4 space-y-2">
+            <li>Double-check that you have entered the correct <strong>Sheet ID</strong>.</li>
+            <li>Check that every tab gid or name in <strong>Sheet Tabs</strong> still exists, and that the tabs are not empty.</li>
+          </ol>
+        )}
+        {(loadError.kind === 'proxy' || loadError.kind === 'network') && (
+          <>
+            <p>The sheet itself may be fine: the request never got a usable answer from Google. Choose another way to fetch the sheet and try again.</p>
+            <CorsProxySettingsFields value={corsProxy} onChange={setCorsProxy} />
+          </>
+        )}
+        <p>Alternatively, import your client list from a CSV or XLSX file instead:</p>
+        <FileImport onFileSelected={loadClientsFromFile} error={importError} compact />
       </div>
       <div className="mt-6 text-center">
         <button
-          onClick={() => loadClients(sheetId)}
+          onClick={handleRetryConnection}
           className="bg-brand-primary hover:bg-brand-dark text-white font-bold py-2 px-6 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-secondary"
         >
           Retry Connection
@@ -425,8 +1077,23 @@ const App: React.FC = () => {
     return <ApiKeySetup onSubmit={handleSetupSubmit} />;
   }
 
-  const clientsToProcessCount = clients.filter(c => c.cityStatus !== 'found' && c.cityStatus !== 'finding').length;
+  const clientsToProcessCount = clients.filter(c => !ANSWERED_STATUSES.includes(c.cityStatus) && c.cityStatus !== 'finding').length;
+  const clientsToReviewCount = clients.filter(c => c.cityStatus === 'needs_review').length;
+  const disputedCount = clients.filter(c => c.cityStatus === 'disputed').length;
+  const isInBusinessHours = (client: Client) => !!client.location?.timeZone && isWithinBusinessHours(client.location.timeZone, now);
+  const inBusinessHoursCount = clients.filter(isInBusinessHours).length;
+  const matchesTitleFilters = (client: Client) =>
+    (seniorityFilter === 'all' || (client.titleClassification?.seniority ?? 'unknown') === seniorityFilter)
+    && (jobFunctionFilter === 'all' || (client.titleClassification?.jobFunction ?? 'unknown') === jobFunctionFilter);
+  const hasTitleFilters = seniorityFilter !== 'all' || jobFunctionFilter !== 'all';
+  const visibleClients = clients
+    .filter(c => clientFilter === 'all' || (clientFilter === 'business_hours' ? isInBusinessHours(c) : c.cityStatus === clientFilter))
+    .filter(matchesTitleFilters);
+  const titlesToClassifyCount = clients.filter(needsAiClassification).length;
+  const clientsToVerifyCount = clients.filter(c => c.prefilledCity && !c.verification && c.cityStatus !== 'finding').length;
   const clientsToRetryCount = clients.filter(c => c.cityStatus === 'not_found' || c.cityStatus === 'error').length;
+  const sourceTabCount = new Set(clients.map(c => c.sourceTab).filter(Boolean)).size;
+  const sourceParseErrors = sourceTables.flatMap(table => table.parseErrors.map(parseError => ({ ...parseError, tab: table.tab })));
 
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-dark font-sans">
@@ -437,64 +1104,75 @@ const App: React.FC = () => {
             <Loader />
           </div>
         ) : error ? (
-          <ErrorDisplay />
+          renderErrorDisplay(error)
         ) : (
           <>
-            {showDailyLimitWarning && (
-              <div className="bg-red-100 dark:bg-red-900/50 border-l-4 border-red-500 text-red-700 dark:text-red-300 p-4 rounded-md mb-6 relative" role="alert">
-                <div className="flex">
-                  <div className="py-1">
-                    <svg className="fill-current h-6 w-6 text-red-500 mr-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M10 18a8 8 0 100-16 8 8 0 000 16zM9 9a1 1 0 011-1h0a1 1 0 011 1v4a1 1 0 01-2 0V9zm1-4a1 1 0 110 2 1 1 0 010-2z"/></svg>
-                  </div>
-                  <div>
-                    <p className="font-bold">Daily API Limit Likely Reached</p>
-                    <p className="text-sm">The API returned rate limit errors more than a minute apart, which suggests you may have used your entire daily quota. Please try again tomorrow or check your Google AI Studio account.</p>
-                  </div>
-                </div>
-                <button onClick={() => setShowDailyLimitWarning(false)} className="absolute top-2 right-2 p-1.5 text-red-500 hover:bg-red-200 dark:hover:bg-red-800/50 rounded-lg">
-                  <span className="sr-only">Dismiss</span>
-                  <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd"></path></svg>
-                </button>
-              </div>
-            )}
             <div className="mb-6 bg-white dark:bg-gray-medium p-4 rounded-lg shadow-md">
                 <div className="flex flex-col md:flex-row justify-between items-start md:items-center">
                     <div className="text-gray-700 dark:text-gray-300 text-left mb-4 md:mb-0">
                         <h3 className="font-bold text-lg">Instructions:</h3>
                         <ol className="list-decimal list-inside">
-                          <li><strong>Find Cities:</strong> Use 'Find All (Gemini)' or 'Find All (OpenAI)' to process all clients.</li>
-                          <li><strong>Retry Failed:</strong> Use 'Retry Failed with OpenAI' for any remaining unfound clients.</li>
-                          <li><strong>Review & Edit:</strong> Manually correct any cities as needed.</li>
+                          <li><strong>Find Cities:</strong> Use a 'Find All' button to process all clients with that AI provider.</li>
+                          <li><strong>Consensus:</strong> With two or more providers set up, 'Consensus' asks all of them and only accepts answers they agree on; pick the right answer for disputed rows.</li>
+                          <li><strong>Verify Existing:</strong> Load rows that already have a city and use 'Verify Existing' to check them.</li>
+                          <li><strong>Retry Failed:</strong> Use a 'Retry Failed' button to try another provider for any remaining unfound clients.</li>
+                          <li><strong>Segment:</strong> Filter by seniority and function; use 'Classify Titles' for titles the built-in rules could not place.</li>
+                          <li><strong>Review & Edit:</strong> Check the results marked 'Needs review', then accept or correct them.</li>
                           <li><strong>Download CSV:</strong> Save your updated list when you're done.</li>
                           <li><strong>Auto-Save:</strong> Your work is automatically saved in this browser.</li>
                         </ol>
                     </div>
                     <div className="w-full md:w-auto flex flex-col md:flex-row items-center space-y-2 md:space-y-0 md:space-x-4">
-                        <button
-                            onClick={handleFindAllCities}
-                            disabled={isFindingAll || isRetrying || clientsToProcessCount === 0}
-                            className="w-full md:w-auto bg-brand-primary hover:bg-brand-dark text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
-                        >
-                            {isFindingAll ? (
-                               <><Loader size="sm" /><span className="ml-2">Finding All (Gemini)...</span></>
-                            ) : `Find All (Gemini) (${clientsToProcessCount})`}
-                        </button>
-                        {openAiApiKey && (
+                        {configuredProviders.filter(provider => provider.capabilities.findAll).map((provider, index) => (
+                          <button
+                            key={`find-all-${provider.id}`}
+                            onClick={() => handleFindAll(provider)}
+                            disabled={!!activeRun || clientsToProcessCount === 0}
+                            className={`w-full md:w-auto ${index === 0 ? 'bg-brand-primary hover:bg-brand-dark' : 'bg-gray-800 hover:bg-black'} text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed`}
+                          >
+                            {activeRun?.providerIds.includes(provider.id) && activeRun.mode === 'findAll' ? (
+                               <><Loader size="sm" /><span className="ml-2">Finding All ({provider.name})...</span></>
+                            ) : `Find All (${provider.name}) (${clientsToProcessCount})`}
+                          </button>
+                        ))}
+                        {configuredProviders.length >= 2 && (
+                          <button
+                            onClick={handleConsensus}
+                            disabled={!!activeRun || clientsToProcessCount === 0}
+                            className="w-full md:w-auto bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={`Ask ${configuredProviders.map(provider => provider.name).join(', ')} and only accept answers they agree on`}
+                          >
+                            {activeRun?.mode === 'consensus' ? <><Loader size="sm" /><span className="ml-2">Comparing...</span></> : `Consensus (${clientsToProcessCount})`}
+                          </button>
+                        )}
+                        {defaultProvider && (clientsToVerifyCount > 0 || activeRun?.mode === 'verify') && (
                           <button
-                            onClick={handleFindAllWithOpenAI}
-                            disabled={isFindingAll || isRetrying || clientsToProcessCount === 0}
-                            className="w-full md:w-auto bg-gray-800 hover:bg-black text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                            onClick={handleVerifyExisting}
+                            disabled={!!activeRun}
+                            className="w-full md:w-auto bg-teal-600 hover:bg-teal-700 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={`Check with ${defaultProvider.name} whether the cities already in the sheet are still correct`}
                           >
-                            {isRetrying && !isFindingAll ? <><Loader size="sm" /><span className="ml-2">Finding All (OpenAI)...</span></> : `Find All (OpenAI) (${clientsToProcessCount})`}
+                            {activeRun?.mode === 'verify' ? <><Loader size="sm" /><span className="ml-2">Verifying...</span></> : `Verify Existing (${clientsToVerifyCount})`}
                           </button>
                         )}
-                        {clientsToRetryCount > 0 && openAiApiKey && (
+                        {clientsToRetryCount > 0 && configuredProviders.filter(provider => provider.capabilities.retryFailed).map(provider => (
                           <button
-                            onClick={handleRetryWithOpenAI}
-                            disabled={isRetrying || isFindingAll}
+                            key={`retry-${provider.id}`}
+                            onClick={() => handleRetryFailed(provider)}
+                            disabled={!!activeRun}
                             className="w-full md:w-auto bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
                           >
-                            {isRetrying ? <><Loader size="sm" /><span className="ml-2">Retrying...</span></> : `Retry Failed with OpenAI (${clientsToRetryCount})`}
+                            {activeRun?.providerIds.includes(provider.id) && activeRun.mode === 'retryFailed' ? <><Loader size="sm" /><span className="ml-2">Retrying...</span></> : `Retry Failed with ${provider.name} (${clientsToRetryCount})`}
+                          </button>
+                        ))}
+                        {defaultProvider?.complete && (titlesToClassifyCount > 0 || isClassifyingTitles) && (
+                          <button
+                            onClick={handleClassifyTitles}
+                            disabled={!!activeRun || isClassifyingTitles}
+                            className="w-full md:w-auto bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={`Ask ${defaultProvider.name} for the seniority or function of the job titles the built-in rules could not classify`}
+                          >
+                            {isClassifyingTitles ? <><Loader size="sm" /><span className="ml-2">Classifying...</span></> : `Classify Titles (${titlesToClassifyCount})`}
                           </button>
                         )}
                         <button
@@ -507,6 +1185,42 @@ const App: React.FC = () => {
                           </svg>
                           Download CSV
                         </button>
+                        {sourceTabCount > 1 && (
+                          <button
+                            onClick={handleDownloadCSVByTab}
+                            className="w-full md:w-auto bg-brand-secondary hover:bg-brand-dark text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center"
+                            title="Download one CSV file per sheet tab"
+                          >
+                            Download by Tab ({sourceTabCount})
+                          </button>
+                        )}
+                        {sheetId && !importedFileName && clients.length > 0 && (
+                          <button
+                            onClick={() => setIsWriteBackOpen(true)}
+                            disabled={!!activeRun}
+                            className="w-full md:w-auto bg-green-700 hover:bg-green-800 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Update the city and job title cells in the Google Sheet"
+                          >
+                            Write to Sheet
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setIsSettingsOpen(true)}
+                          disabled={!!activeRun}
+                          className="w-full md:w-auto text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="Choose AI models and edit the prompt template"
+                        >
+                          Settings
+                        </button>
+                        {sourceTables.length > 0 && (
+                          <button
+                            onClick={handleEditMapping}
+                            className="w-full md:w-auto text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center"
+                            title="Change which columns hold each client detail"
+                          >
+                            Columns
+                          </button>
+                        )}
                          <button
                           onClick={handleResetSettings}
                           className="w-full md:w-auto text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 font-bold py-2 px-4 rounded-lg transition-colors flex items-center justify-center"
@@ -520,6 +1234,60 @@ const App: React.FC = () => {
                         </button>
                     </div>
                 </div>
+                <div className="mt-4 border-t dark:border-gray-700 pt-4">
+                    <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+                        {importedFileName
+                          ? <>Clients imported from <strong>{importedFileName}</strong>. Import another file to replace them:</>
+                          : sheetId ? 'Import a CSV or XLSX file to use instead of the Google Sheet:' : 'Import a CSV or XLSX file to load your clients:'}
+                    </p>
+                    <FileImport onFileSelected={loadClientsFromFile} error={importError} compact />
+                    <label className="mt-3 flex items-center text-sm text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={includePrefilled}
+                          onChange={(e) => handleIncludePrefilledChange(e.target.checked)}
+                          className="mr-2 rounded border-gray-300 text-brand-primary focus:ring-brand-primary"
+                        />
+                        Load rows that already have a city, so they can be re-verified with 'Verify Existing'
+                    </label>
+                </div>
+                {sourceParseErrors.length > 0 && (
+                    <details className="mt-4 bg-amber-100 dark:bg-amber-900/50 border-l-4 border-amber-500 text-amber-700 dark:text-amber-300 p-3 rounded-md">
+                        <summary className="font-bold cursor-pointer">
+                            {sourceParseErrors.length} malformed {sourceParseErrors.length === 1 ? 'row' : 'rows'} found while reading the source
+                        </summary>
+                        <ul className="mt-2 text-sm list-disc list-inside">
+                            {sourceParseErrors.map((parseError, index) => (
+                                <li key={index}>
+                                    Line {parseError.line}{parseError.tab ? ` (${parseError.tab})` : ''}: {parseError.message}
+                                </li>
+                            ))}
+                        </ul>
+                    </details>
+                )}
+                {interruptedRun && !activeRun && (
+                    <InterruptedRunBanner
+                        label={RUN_LABELS[interruptedRun.mode]}
+                        providerNames={interruptedRun.providerIds.map(id => getEnrichmentProviders().find(provider => provider.id === id)?.name || id)}
+                        remainingCount={getUnfinishedClientKeys(interruptedRun).length}
+                        totalCount={Object.keys(interruptedRun.previousStatuses).length}
+                        canResume={interruptedRun.providerIds.every(id => configuredProviders.some(provider => provider.id === id))}
+                        onResume={handleResumeInterruptedRun}
+                        onDiscard={handleDiscardInterruptedRun}
+                    />
+                )}
+                {activeRun && (
+                    <RunProgress
+                        label={RUN_LABELS[activeRun.mode]}
+                        batchNumber={activeRun.batchNumber}
+                        batchCount={activeRun.batchCount}
+                        isPaused={activeRun.isPaused}
+                        onPause={handlePauseRun}
+                        onResume={handleResumeRun}
+                        onCancel={handleCancelRun}
+                    />
+                )}
+                {rateLimitWait && <RateLimitCountdown wait={rateLimitWait} />}
                 {rateLimitMessage && (
                     <div className="mt-4 text-center bg-amber-100 dark:bg-amber-900/50 border-l-4 border-amber-500 text-amber-700 dark:text-amber-300 p-3 rounded-md" role="alert">
                         <p className="font-bold">Processing Paused</p>
@@ -527,14 +1295,85 @@ const App: React.FC = () => {
                     </div>
                 )}
             </div>
+            <UsageSummary
+                runUsage={runUsage}
+                totals={usageTotals}
+                runBudget={runBudget}
+                isRunning={!!activeRun}
+                onResetTotals={() => setUsageTotals(EMPTY_USAGE_TOTALS)}
+            />
+            <ReviewFilterBar
+                filter={clientFilter}
+                onFilterChange={setClientFilter}
+                threshold={reviewThreshold}
+                onThresholdChange={handleReviewThresholdChange}
+                totalCount={clients.length}
+                needsReviewCount={clientsToReviewCount}
+                disputedCount={disputedCount}
+                inBusinessHoursCount={inBusinessHoursCount}
+                seniorityFilter={seniorityFilter}
+                onSeniorityFilterChange={setSeniorityFilter}
+                jobFunctionFilter={jobFunctionFilter}
+                onJobFunctionFilterChange={setJobFunctionFilter}
+            />
+            {selectedClientIds.size > 0 && (
+                <SelectionBar
+                    selectedCount={selectedClientIds.size}
+                    providerName={defaultProvider?.name}
+                    isRunning={!!activeRun}
+                    onRefresh={handleRefreshSelected}
+                    onClearCache={handleClearCacheForSelected}
+                    onClearSelection={() => setSelectedClientIds(new Set())}
+                />
+            )}
             <ClientTable
-                clients={clients}
+                clients={visibleClients}
                 onCityChange={handleCityChange}
                 onFindCity={handleFindCity}
+                onAcceptResult={handleAcceptResult}
+                onPickCandidate={handlePickCandidate}
+                selectedIds={selectedClientIds}
+                onToggleSelected={handleToggleSelected}
+                onSelectClients={handleSelectClients}
+                now={now}
+                emptyMessage={clients.length === 0 ? undefined : hasTitleFilters ? 'No contacts match the seniority and function filters.' : clientFilter !== 'all' ? EMPTY_FILTER_MESSAGES[clientFilter] : undefined}
             />
           </>
         )}
       </main>
+      {isWriteBackOpen && (
+        <WriteBackDialog
+          sheetId={sheetId}
+          clients={clients}
+          mapping={loadSavedColumnMapping(sourceKey) || {}}
+          onWritten={handleCellsWritten}
+          onClose={() => setIsWriteBackOpen(false)}
+        />
+      )}
+      {isSettingsOpen && (
+        <SettingsDialog
+          providers={getEnrichmentProviders()}
+          providerSettings={providerSettings}
+          promptTemplates={promptTemplates}
+          modelPrices={modelPrices}
+          runBudget={runBudget}
+          maxRateLimitAttempts={maxRateLimitAttempts}
+          cacheTtlDays={cacheTtlDays}
+          cachedResultCount={Object.keys(resultCache).length}
+          onSave={handleSaveSettings}
+          onCancel={() => setIsSettingsOpen(false)}
+        />
+      )}
+      {pendingMapping && (
+        <ColumnMappingDialog
+          tables={sourceTables}
+          initialMapping={pendingMapping}
+          includePrefilled={includePrefilled}
+          error={mappingError}
+          onApply={handleApplyMapping}
+          onCancel={() => setPendingMapping(null)}
+        />
+      )}
     </div>
   );
 };
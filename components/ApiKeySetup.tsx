@@ -1,21 +1,35 @@
 import React, { useState } from 'react';
+import FileImport from './FileImport';
+import CorsProxySettingsFields from './CorsProxySettingsFields';
+import { CorsProxySettings } from '../types';
+import { DEFAULT_CORS_PROXY_SETTINGS } from '../services/corsProxy';
+import { AllProviderSettings, getEnrichmentProviders, hasConfiguredProvider } from '../services/providerRegistry';
 
 interface ApiKeySetupProps {
-  onSubmit: (data: { apiKey: string, sheetId: string, openAiApiKey: string }) => void;
+  onSubmit: (data: { providerSettings: AllProviderSettings, sheetId: string, sheetTabs: string, corsProxy: CorsProxySettings, file: File | null }) => void;
 }
 
 const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onSubmit }) => {
-  const [apiKey, setApiKey] = useState('');
+  const [providerSettings, setProviderSettings] = useState<AllProviderSettings>({});
   const [sheetId, setSheetId] = useState('');
-  const [openAiApiKey, setOpenAiApiKey] = useState('');
+  const [sheetTabs, setSheetTabs] = useState('');
+  const [corsProxy, setCorsProxy] = useState<CorsProxySettings>(DEFAULT_CORS_PROXY_SETTINGS);
+  const [file, setFile] = useState<File | null>(null);
+
+  const inputClass = "bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-brand-primary focus:border-brand-primary block w-full p-2.5 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white";
+  const canSubmit = hasConfiguredProvider(providerSettings) && (!!sheetId.trim() || !!file);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (apiKey.trim() && sheetId.trim()) {
-      onSubmit({ apiKey: apiKey.trim(), sheetId: sheetId.trim(), openAiApiKey: openAiApiKey.trim() });
+    if (canSubmit) {
+      onSubmit({ providerSettings, sheetId: sheetId.trim(), sheetTabs: sheetTabs.trim(), corsProxy, file });
     }
   };
 
+  const handleProviderSettingChange = (providerId: string, key: string, value: string) => {
+    setProviderSettings(prev => ({ ...prev, [providerId]: { ...prev[providerId], [key]: value } }));
+  };
+
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-dark font-sans flex flex-col justify-center items-center p-4">
       <div className="w-full max-w-lg">
@@ -27,21 +41,28 @@ const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onSubmit }) => {
             To get started, please provide your settings.
           </p>
           <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm font-medium text-gray-900 dark:text-white text-left">AI Providers (configure at least one)</p>
+            {getEnrichmentProviders().map(provider => (
+              <fieldset key={provider.id} className="border border-gray-200 dark:border-gray-600 rounded-lg p-3 space-y-2 text-left">
+                <legend className="px-1 text-sm font-bold text-gray-700 dark:text-gray-300">{provider.name}</legend>
+                {provider.settings.filter(field => !field.advanced).map(field => (
+                  <div key={field.key}>
+                    <label htmlFor={`${provider.id}-${field.key}`} className="block mb-1 text-sm font-medium text-gray-900 dark:text-white">{field.label}{field.required ? '' : ' (Optional)'}</label>
+                    <input
+                      id={`${provider.id}-${field.key}`}
+                      type={field.secret ? 'password' : 'text'}
+                      value={providerSettings[provider.id]?.[field.key] || ''}
+                      onChange={(e) => handleProviderSettingChange(provider.id, field.key, e.target.value)}
+                      placeholder={field.placeholder}
+                      className={inputClass}
+                      aria-label={field.label}
+                    />
+                  </div>
+                ))}
+              </fieldset>
+            ))}
             <div>
-              <label htmlFor="gemini-key" className="block mb-1 text-sm font-medium text-gray-900 dark:text-white text-left">Gemini API Key (Required)</label>
-              <input
-                id="gemini-key"
-                type="password"
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                placeholder="Enter your Gemini API key"
-                className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-brand-primary focus:border-brand-primary block w-full p-2.5 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white"
-                aria-label="Gemini API Key"
-                required
-              />
-            </div>
-            <div>
-              <label htmlFor="sheet-id" className="block mb-1 text-sm font-medium text-gray-900 dark:text-white text-left">Google Sheet ID (Required)</label>
+              <label htmlFor="sheet-id" className="block mb-1 text-sm font-medium text-gray-900 dark:text-white text-left">Google Sheet ID {file ? '(Optional)' : '(Required unless importing a file)'}</label>
               <input
                 id="sheet-id"
                 type="text"
@@ -50,32 +71,37 @@ const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onSubmit }) => {
                 placeholder="Enter your Google Sheet ID"
                 className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-brand-primary focus:border-brand-primary block w-full p-2.5 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white"
                 aria-label="Google Sheet ID"
-                required
+                required={!file}
               />
             </div>
             <div>
-              <label htmlFor="openai-key" className="block mb-1 text-sm font-medium text-gray-900 dark:text-white text-left">OpenAI API Key (Optional)</label>
+              <label htmlFor="sheet-tabs" className="block mb-1 text-sm font-medium text-gray-900 dark:text-white text-left">Sheet Tabs (Optional)</label>
               <input
-                id="openai-key"
-                type="password"
-                value={openAiApiKey}
-                onChange={(e) => setOpenAiApiKey(e.target.value)}
-                placeholder="For retrying failed searches"
+                id="sheet-tabs"
+                type="text"
+                value={sheetTabs}
+                onChange={(e) => setSheetTabs(e.target.value)}
+                placeholder="e.g. 0, 123456789, EMEA, North America"
                 className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-brand-primary focus:border-brand-primary block w-full p-2.5 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white"
-                aria-label="OpenAI API Key"
+                aria-label="Sheet Tabs"
               />
             </div>
+            <CorsProxySettingsFields value={corsProxy} onChange={setCorsProxy} />
+            <div>
+              <span className="block mb-1 text-sm font-medium text-gray-900 dark:text-white text-left">Or Import a CSV/XLSX File</span>
+              <FileImport onFileSelected={setFile} selectedFileName={file?.name} />
+            </div>
             <button
               type="submit"
               className="w-full bg-brand-primary hover:bg-brand-dark text-white font-bold py-2.5 px-4 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-secondary disabled:opacity-50"
-              disabled={!apiKey.trim() || !sheetId.trim()}
+              disabled={!canSubmit}
             >
               Save Settings & Start
             </button>
           </form>
           <div className="mt-6 text-sm text-left space-y-2">
             <p className="text-gray-500 dark:text-gray-400">
-              <strong className="text-gray-700 dark:text-gray-300">API Keys:</strong> Keys are stored in your browser and are required for the AI search.
+              <strong className="text-gray-700 dark:text-gray-300">API Keys:</strong> Keys are stored in your browser. At least one AI provider is needed for the search; Gemini searches the web, while a local model keeps all client data on your own network.
                <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-brand-secondary hover:underline font-medium ml-1">
                 Get Gemini Key &rarr;
               </a>
@@ -86,6 +112,18 @@ const ApiKeySetup: React.FC<ApiKeySetupProps> = ({ onSubmit }) => {
              <p className="text-gray-500 dark:text-gray-400">
               <strong className="text-gray-700 dark:text-gray-300">Sheet Permissions:</strong> Remember to set your sheet's sharing to "Anyone with the link" can "View".
             </p>
+             <p className="text-gray-500 dark:text-gray-400">
+              <strong className="text-gray-700 dark:text-gray-300">Sheet Tabs:</strong> Leave empty to load the first tab only. To load several tabs, list them separated by commas, either by gid (the number after `#gid=` in the URL) or by tab name. All tabs are merged into one list.
+            </p>
+             <p className="text-gray-500 dark:text-gray-400">
+              <strong className="text-gray-700 dark:text-gray-300">Local Model:</strong> Any server with an OpenAI-compatible API works, such as Ollama (`http://localhost:11434/v1`) or the llama.cpp server (`http://localhost:8080/v1`). The model must be able to answer in JSON. Browsers only allow the request if the server permits it, e.g. by starting Ollama with `OLLAMA_ORIGINS` set to this app's address.
+            </p>
+             <p className="text-gray-500 dark:text-gray-400">
+              <strong className="text-gray-700 dark:text-gray-300">CORS Proxy:</strong> Browsers cannot download a Google Sheet directly, so the export is fetched through a proxy. The default is the public corsproxy.io service; when running the app locally, the built-in proxy keeps your client list off third-party servers.
+            </p>
+             <p className="text-gray-500 dark:text-gray-400">
+              <strong className="text-gray-700 dark:text-gray-300">File Import:</strong> CSV and XLSX exports from any tool work; you can map their columns after loading. An imported file is used instead of the sheet and is not stored, so you will need to import it again after reloading the page.
+            </p>
           </div>
         </div>
       </div>
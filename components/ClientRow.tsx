@@ -1,36 +1,104 @@
 import React from 'react';
-import { Client } from '../types';
+import { Client, ConsensusCandidate, EnrichmentErrorCode } from '../types';
+import { getSourceLabel } from '../services/groundingSources';
+import { formatLocalTime, isWithinBusinessHours } from '../services/timeZones';
+import { JOB_FUNCTION_LABELS, SENIORITY_LABELS } from '../services/titleClassifier';
 import Loader from './Loader';
 
 interface ClientRowProps {
   client: Client;
   onCityChange: (id: number, city: string) => void;
   onFindCity: (id: number) => void;
+  onAcceptResult: (id: number) => void;
+  onPickCandidate: (id: number, candidate: ConsensusCandidate) => void;
+  isSelected: boolean;
+  onToggleSelected: (id: number) => void;
+  showTab: boolean;
   isEven: boolean;
+  // The current time, ticking every minute, for the contact's local time.
+  now: Date;
 }
 
-const ClientRow: React.FC<ClientRowProps> = ({ client, onCityChange, onFindCity, isEven }) => {
+const ERROR_LABELS: Record<EnrichmentErrorCode, string> = {
+  invalid_api_key: 'Invalid API key',
+  insufficient_quota: 'Quota exceeded',
+  rate_limited: 'Rate limited',
+  api_error: 'API error',
+  malformed_response: 'Malformed answer',
+  no_result: 'No answer',
+  not_processed: 'Not processed',
+};
+
+const ClientRow: React.FC<ClientRowProps> = ({ client, onCityChange, onFindCity, onAcceptResult, onPickCandidate, isSelected, onToggleSelected, showTab, isEven, now }) => {
 
   const isFinding = client.cityStatus === 'finding';
   const notFound = client.cityStatus === 'not_found';
   const isError = client.cityStatus === 'error';
+  const needsReview = client.cityStatus === 'needs_review';
+  const isDisputed = client.cityStatus === 'disputed';
   
   let cityInputClass = "bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-brand-primary focus:border-brand-primary block w-full p-2.5 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white";
   if (notFound) {
     cityInputClass += " border-amber-500 text-amber-700 dark:text-amber-400 dark:border-amber-500";
   }
+  if (needsReview || isDisputed) {
+    cityInputClass += " border-orange-500 dark:border-orange-500";
+  }
   if (isError) {
     cityInputClass += " border-red-500 text-red-700 dark:text-red-400 dark:border-red-500";
   }
 
+  const verificationBadges = {
+    confirmed: { label: 'Confirmed', className: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300' },
+    changed: { label: 'Changed', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300' },
+    unverifiable: { label: 'Unverifiable', className: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+  };
+  const verificationBadge = client.verification && verificationBadges[client.verification.status];
+
+  let confidenceClass = 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300';
+  if (needsReview) {
+    confidenceClass = 'bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300';
+  } else if (client.confidence !== undefined && client.confidence < 90) {
+    confidenceClass = 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300';
+  }
+  const showConfidence = client.confidence !== undefined && client.cityStatus !== 'finding';
+  const titleCategories = [
+    client.titleClassification?.seniority && SENIORITY_LABELS[client.titleClassification.seniority],
+    client.titleClassification?.jobFunction && JOB_FUNCTION_LABELS[client.titleClassification.jobFunction],
+  ].filter(Boolean);
+  const timeZone = client.location?.timeZone;
+  const inBusinessHours = !!timeZone && isWithinBusinessHours(timeZone, now);
+
 
   return (
     <tr className={`${isEven ? 'bg-white dark:bg-gray-medium' : 'bg-gray-50 dark:bg-gray-dark'} border-b dark:border-gray-700 hover:bg-brand-light/20 dark:hover:bg-gray-600`}>
+      <td className="pl-4 py-4">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => onToggleSelected(client.id)}
+          className="rounded border-gray-300 text-brand-primary focus:ring-brand-primary"
+          aria-label={`Select ${client.firstName} ${client.lastName}`}
+        />
+      </td>
       <td className="px-6 py-4 font-medium text-gray-900 dark:text-white whitespace-nowrap">
         {client.firstName} {client.lastName}
       </td>
-      <td className="px-6 py-4">{client.jobTitle || <span className="text-gray-400 italic">N/A</span>}</td>
+      <td className="px-6 py-4">
+        {client.jobTitle || <span className="text-gray-400 italic">N/A</span>}
+        {titleCategories.length > 0 && (
+          <div
+            className="mt-1 text-xs text-gray-500 dark:text-gray-400"
+            title={client.titleClassification!.source === 'ai' ? 'Partly classified by AI' : 'Classified from keywords in the title'}
+          >
+            {titleCategories.join(' · ')}
+          </div>
+        )}
+      </td>
       <td className="px-6 py-4">{client.company || <span className="text-gray-400 italic">N/A</span>}</td>
+      {showTab && (
+        <td className="px-6 py-4 whitespace-nowrap">{client.sourceTab || <span className="text-gray-400 italic">N/A</span>}</td>
+      )}
       <td className="px-6 py-4">
         <input
           type="text"
@@ -40,6 +108,126 @@ const ClientRow: React.FC<ClientRowProps> = ({ client, onCityChange, onFindCity,
           className={cityInputClass}
           aria-label={`City for ${client.firstName} ${client.lastName}`}
         />
+        {client.location && client.cityStatus !== 'finding' && (
+          <div
+            className="mt-1 text-xs text-gray-500 dark:text-gray-400"
+            title={`${client.location.latitude.toFixed(4)}, ${client.location.longitude.toFixed(4)}`}
+          >
+            {client.location.city}, {client.location.region}, {client.location.countryCode}
+          </div>
+        )}
+        {client.locationUnresolved && client.cityStatus !== 'finding' && (
+          <div className="mt-1 text-xs">
+            <span
+              className="px-2 py-0.5 rounded-full font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300 cursor-help"
+              title="This city is not in the offline gazetteer, so it has no region, country or coordinates. Check the spelling or add the country, e.g. 'Lyon, France'."
+            >
+              Unknown place
+            </span>
+          </div>
+        )}
+        {isError && client.error && (
+          <div className="mt-1 text-xs">
+            <span
+              className="px-2 py-0.5 rounded-full font-medium bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300 cursor-help"
+              title={`${client.error.providerName}${client.error.status ? ` (status ${client.error.status})` : ''}: ${client.error.message}${client.error.retryable ? ' Trying again may work.' : ''}`}
+            >
+              {ERROR_LABELS[client.error.code]} · {client.error.providerName}
+            </span>
+          </div>
+        )}
+        {verificationBadge ? (
+          <div className="mt-1 flex items-center space-x-2 text-xs">
+            <span className={`px-2 py-0.5 rounded-full font-medium ${verificationBadge.className}`}>{verificationBadge.label}</span>
+            {client.verification!.status === 'changed' && (
+              <span className="text-gray-500 dark:text-gray-400">was: <span className="line-through">{client.verification!.previousCity}</span></span>
+            )}
+          </div>
+        ) : client.cityStatus === 'prefilled' && (
+          <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">From sheet, not yet verified</div>
+        )}
+        {isDisputed && client.consensusCandidates && (
+          <div className="mt-2 text-xs">
+            <span className="px-2 py-0.5 rounded-full font-medium bg-orange-100 text-orange-800 dark:bg-orange-900/50 dark:text-orange-300">
+              {client.consensusCandidates.length > 1 ? 'Providers disagree' : 'Only one provider answered'}
+            </span>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {client.consensusCandidates.map(candidate => (
+                <button
+                  key={candidate.providerId}
+                  type="button"
+                  onClick={() => onPickCandidate(client.id, candidate)}
+                  className="text-left p-2 rounded-lg border border-gray-300 dark:border-gray-600 hover:border-brand-primary hover:bg-brand-light/20 dark:hover:bg-gray-700 min-w-[9rem]"
+                  title={candidate.rationale || `Use ${candidate.providerName}'s answer`}
+                >
+                  <span className="block font-semibold text-gray-700 dark:text-gray-200">{candidate.providerName}</span>
+                  <span className="block text-gray-900 dark:text-white">{candidate.city}</span>
+                  {candidate.jobTitle && <span className="block text-gray-500 dark:text-gray-400">{candidate.jobTitle}</span>}
+                  {candidate.confidence !== undefined && <span className="block text-gray-500 dark:text-gray-400">{candidate.confidence}% confident</span>}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {showConfidence && (
+          <div className="mt-1 flex items-center space-x-2 text-xs">
+            <span className={`px-2 py-0.5 rounded-full font-medium ${confidenceClass}`}>
+              {needsReview ? `Needs review · ${client.confidence}%` : `${client.confidence}% confident`}
+            </span>
+            {needsReview && (
+              <button
+                type="button"
+                onClick={() => onAcceptResult(client.id)}
+                className="font-medium text-brand-primary dark:text-brand-light hover:underline"
+                title="Mark this result as checked"
+              >
+                Accept
+              </button>
+            )}
+          </div>
+        )}
+        {client.cachedAt && client.cityStatus !== 'finding' && (
+          <div className="mt-1 text-xs">
+            <span
+              className="px-2 py-0.5 rounded-full font-medium bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300 cursor-help"
+              title={`Reused from the result cache; first looked up ${new Date(client.cachedAt).toLocaleString()}. Select the row to look it up again.`}
+            >
+              Cached
+            </span>
+          </div>
+        )}
+        {client.rationale && client.cityStatus !== 'finding' && (
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 italic">{client.rationale}</p>
+        )}
+        {client.sources && client.sources.length > 0 && (
+          <div className="mt-1 flex flex-wrap items-center gap-x-2 text-xs text-gray-500 dark:text-gray-400">
+            <span>Sources:</span>
+            {client.sources.map(source => (
+              <a
+                key={source.url}
+                href={source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={source.url}
+                className="max-w-[12rem] truncate text-brand-primary dark:text-brand-light hover:underline"
+              >
+                {getSourceLabel(source)}
+              </a>
+            ))}
+          </div>
+        )}
+      </td>
+      <td className="px-6 py-4 whitespace-nowrap">
+        {timeZone ? (
+          <span
+            className={inBusinessHours ? 'text-green-700 dark:text-green-400 font-medium' : ''}
+            title={`${timeZone}${inBusinessHours ? ' · in business hours' : ' · outside business hours'}`}
+          >
+            {formatLocalTime(timeZone, now)}
+          </span>
+        ) : (
+          <span className="text-gray-400 italic">N/A</span>
+        )}
       </td>
       <td className="px-6 py-4">
         <button
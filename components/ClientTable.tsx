@@ -1,15 +1,28 @@
 import React from 'react';
-import { Client } from '../types';
+import { Client, ConsensusCandidate } from '../types';
 import ClientRow from './ClientRow';
 
 interface ClientTableProps {
   clients: Client[];
   onCityChange: (id: number, city: string) => void;
   onFindCity: (id: number) => void;
+  onAcceptResult: (id: number) => void;
+  onPickCandidate: (id: number, candidate: ConsensusCandidate) => void;
+  selectedIds: Set<number>;
+  onToggleSelected: (id: number) => void;
+  onSelectClients: (ids: number[], selected: boolean) => void;
+  // The current time, for each contact's local time.
+  now: Date;
+  // Shown instead of the "no client data" hint when the rows are filtered.
+  emptyMessage?: string;
 }
 
-const ClientTable: React.FC<ClientTableProps> = ({ clients, onCityChange, onFindCity }) => {
-  const tableHeaders = ["Client Name", "Job Title", "Company", "Identified City", "Actions"];
+const ClientTable: React.FC<ClientTableProps> = ({ clients, onCityChange, onFindCity, onAcceptResult, onPickCandidate, selectedIds, onToggleSelected, onSelectClients, now, emptyMessage }) => {
+  // Only show the tab column when the list was merged from more than one tab.
+  const showTab = new Set(clients.map(c => c.sourceTab).filter(Boolean)).size > 1;
+  // The header checkbox selects or clears the rows shown, which may be filtered.
+  const allSelected = clients.length > 0 && clients.every(c => selectedIds.has(c.id));
+  const tableHeaders = ["Client Name", "Job Title", "Company", ...(showTab ? ["Tab"] : []), "Identified City", "Local Time", "Actions"];
 
   return (
     <div className="bg-white dark:bg-gray-medium rounded-lg shadow-xl overflow-hidden">
@@ -17,6 +30,16 @@ const ClientTable: React.FC<ClientTableProps> = ({ clients, onCityChange, onFind
         <table className="w-full text-sm text-left text-gray-500 dark:text-gray-400">
           <thead className="text-xs text-gray-700 uppercase bg-gray-50 dark:bg-gray-700 dark:text-gray-300">
             <tr>
+              <th scope="col" className="pl-4 py-3">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => onSelectClients(clients.map(c => c.id), !allSelected)}
+                  disabled={clients.length === 0}
+                  className="rounded border-gray-300 text-brand-primary focus:ring-brand-primary"
+                  aria-label="Select all rows shown"
+                />
+              </th>
               {tableHeaders.map((header) => (
                 <th key={header} scope="col" className="px-6 py-3">
                   {header}
@@ -31,16 +54,27 @@ const ClientTable: React.FC<ClientTableProps> = ({ clients, onCityChange, onFind
                 client={client}
                 onCityChange={onCityChange}
                 onFindCity={onFindCity}
+                onAcceptResult={onAcceptResult}
+                onPickCandidate={onPickCandidate}
+                isSelected={selectedIds.has(client.id)}
+                onToggleSelected={onToggleSelected}
+                showTab={showTab}
                 isEven={index % 2 === 0}
+                now={now}
               />
             ))}
           </tbody>
         </table>
       </div>
-       {clients.length === 0 && (
+       {clients.length === 0 && emptyMessage && (
+         <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+            <p className="text-lg">{emptyMessage}</p>
+         </div>
+       )}
+       {clients.length === 0 && !emptyMessage && (
          <div className="text-center py-12 text-gray-500 dark:text-gray-400">
             <p className="text-lg">No client data found.</p>
-            <p className="mt-2">Please check your Google Sheet or make sure it's accessible.</p>
+            <p className="mt-2">Please check your Google Sheet or make sure it's accessible, or import a CSV/XLSX file.</p>
          </div>
        )}
     </div>
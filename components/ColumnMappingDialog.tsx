@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnMapping, MappableClientField, SheetTable } from '../types';
+import { CLIENT_FIELD_DEFINITIONS, getMissingRequiredFields } from '../services/columnMapping';
+import { getCombinedHeaders } from '../services/googleSheetService';
+
+interface ColumnMappingDialogProps {
+  tables: SheetTable[];
+  initialMapping: ColumnMapping;
+  includePrefilled: boolean;
+  error?: string;
+  onApply: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ tables, initialMapping, includePrefilled, error, onApply, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const headers = useMemo(() => getCombinedHeaders(tables), [tables]);
+
+  // The first non-empty value of each column, to help recognise what a header contains.
+  const sampleValues = useMemo(() => {
+    const samples: Record<string, string> = {};
+    for (const table of tables) {
+      table.headers.forEach((header, index) => {
+        if (samples[header]) return;
+        const row = table.rows.find(r => r[index] && r[index].trim() !== '');
+        if (row) {
+          samples[header] = row[index];
+        }
+      });
+    }
+    return samples;
+  }, [tables]);
+
+  const missingRequiredFields = getMissingRequiredFields(mapping, headers);
+
+  const handleFieldChange = (field: MappableClientField, header: string) => {
+    setMapping(prev => ({ ...prev, [field]: header || undefined }));
+  };
+
+  const selectClass = "bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-brand-primary focus:border-brand-primary block w-full p-2 dark:bg-gray-700 dark:border-gray-600 dark:text-white";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="column-mapping-title">
+      <div className="bg-white dark:bg-gray-medium rounded-lg shadow-xl w-full max-w-2xl max-h-full overflow-y-auto p-6">
+        <h2 id="column-mapping-title" className="text-xl font-bold text-brand-primary dark:text-brand-light mb-1">
+          Map Your Columns
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Choose which column holds each client detail. Suggestions are based on the header names, and your choice is remembered for this source.
+        </p>
+
+        <div className="mb-4">
+          <h3 className="text-xs font-bold uppercase text-gray-700 dark:text-gray-300 mb-2">Detected Headers</h3>
+          <div className="flex flex-wrap gap-2">
+            {headers.map(header => (
+              <span key={header} className="text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded px-2 py-1">{header}</span>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {CLIENT_FIELD_DEFINITIONS.map(definition => {
+            const selectedHeader = mapping[definition.field] || '';
+            return (
+              <div key={definition.field} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+                <label htmlFor={`mapping-${definition.field}`} className="text-sm font-medium text-gray-900 dark:text-white">
+                  {definition.label} {definition.required ? <span className="text-red-500">*</span> : <span className="text-gray-400 font-normal">(optional)</span>}
+                </label>
+                <select
+                  id={`mapping-${definition.field}`}
+                  value={selectedHeader}
+                  onChange={(e) => handleFieldChange(definition.field, e.target.value)}
+                  className={selectClass}
+                >
+                  <option value="">Not mapped</option>
+                  {headers.map(header => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+                <span className="text-xs text-gray-500 dark:text-gray-400 truncate" title={sampleValues[selectedHeader]}>
+                  {selectedHeader && sampleValues[selectedHeader] ? `e.g. ${sampleValues[selectedHeader]}` : ''}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+
+        {mapping.city && (
+          <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+            {includePrefilled
+              ? 'Rows that already have a value in the city column are loaded as pre-filled, ready to be re-verified.'
+              : 'Rows that already have a value in the city column are skipped.'}
+          </p>
+        )}
+        {error && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+        )}
+
+        <div className="mt-6 flex justify-end space-x-3">
+          <button
+            onClick={onCancel}
+            className="text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 font-bold py-2 px-4 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(mapping)}
+            disabled={missingRequiredFields.length > 0}
+            className="bg-brand-primary hover:bg-brand-dark text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={missingRequiredFields.length > 0 ? `Map ${missingRequiredFields.map(f => f.label).join(' and ')} first` : undefined}
+          >
+            Apply Mapping
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { CorsProxyMode, CorsProxySettings } from '../types';
+import { CORS_PROXY_MODE_LABELS, DEFAULT_CORS_PROXY_SETTINGS } from '../services/corsProxy';
+
+interface CorsProxySettingsFieldsProps {
+  value: CorsProxySettings;
+  onChange: (settings: CorsProxySettings) => void;
+}
+
+const MODE_DESCRIPTIONS: Record<CorsProxyMode, string> = {
+  none: 'Requests go straight to Google. Browsers usually block this, so it only works with an extension or a host that allows it.',
+  custom: 'The sheet export is fetched through this URL. Use {url} where the encoded export URL goes; without it, the URL is appended.',
+  builtin: 'The Vite dev or preview server fetches the sheet itself, so your data does not pass through a third party. Only works with `npm run dev` or `npm run preview`.',
+};
+
+const CorsProxySettingsFields: React.FC<CorsProxySettingsFieldsProps> = ({ value, onChange }) => {
+  const inputClass = "bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-brand-primary focus:border-brand-primary block w-full p-2.5 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white";
+
+  return (
+    <div className="space-y-2 text-left">
+      <label htmlFor="cors-proxy-mode" className="block mb-1 text-sm font-medium text-gray-900 dark:text-white">CORS Proxy</label>
+      <select
+        id="cors-proxy-mode"
+        value={value.mode}
+        onChange={(e) => onChange({ ...value, mode: e.target.value as CorsProxyMode })}
+        className={inputClass}
+      >
+        {(Object.keys(CORS_PROXY_MODE_LABELS) as CorsProxyMode[]).map(mode => (
+          <option key={mode} value={mode}>{CORS_PROXY_MODE_LABELS[mode]}</option>
+        ))}
+      </select>
+      {value.mode === 'custom' && (
+        <input
+          type="text"
+          value={value.urlTemplate}
+          onChange={(e) => onChange({ ...value, urlTemplate: e.target.value })}
+          placeholder={DEFAULT_CORS_PROXY_SETTINGS.urlTemplate}
+          className={inputClass}
+          aria-label="CORS proxy URL template"
+        />
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400">{MODE_DESCRIPTIONS[value.mode]}</p>
+    </div>
+  );
+};
+
+export default CorsProxySettingsFields;
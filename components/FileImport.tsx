@@ -0,0 +1,81 @@
+import React, { useRef, useState } from 'react';
+import { SUPPORTED_FILE_EXTENSIONS, isSupportedFile } from '../services/fileImportService';
+
+interface FileImportProps {
+  onFileSelected: (file: File) => void;
+  selectedFileName?: string;
+  error?: string;
+  compact?: boolean;
+}
+
+const FileImport: React.FC<FileImportProps> = ({ onFileSelected, selectedFileName, error, compact = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [typeError, setTypeError] = useState('');
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    if (!isSupportedFile(file)) {
+      setTypeError(`"${file.name}" is not supported. Please choose a ${SUPPORTED_FILE_EXTENSIONS.join(' or ')} file.`);
+      return;
+    }
+    setTypeError('');
+    onFileSelected(file);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files[0]);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFile(e.target.files?.[0]);
+    // Reset the input so selecting the same file again still triggers a change event.
+    e.target.value = '';
+  };
+
+  const displayedError = typeError || error;
+
+  let dropZoneClass = `border-2 border-dashed rounded-lg text-center cursor-pointer transition-colors ${compact ? 'p-3' : 'p-6'}`;
+  if (isDragging) {
+    dropZoneClass += " border-brand-primary bg-brand-light/40 dark:bg-gray-700";
+  } else {
+    dropZoneClass += " border-gray-300 dark:border-gray-600 hover:border-brand-primary";
+  }
+
+  return (
+    <div>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') inputRef.current?.click(); }}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={dropZoneClass}
+        aria-label="Import a CSV or XLSX file"
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
+          onChange={handleInputChange}
+          className="hidden"
+        />
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="font-medium text-brand-primary dark:text-brand-light">Choose a file</span> or drag it here
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          {selectedFileName ? `Selected: ${selectedFileName}` : `Supported: ${SUPPORTED_FILE_EXTENSIONS.join(', ')}`}
+        </p>
+      </div>
+      {displayedError && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400 text-left" role="alert">{displayedError}</p>
+      )}
+    </div>
+  );
+};
+
+export default FileImport;
@@ -0,0 +1,45 @@
+import React from 'react';
+
+interface InterruptedRunBannerProps {
+  // What the run did, e.g. "Finding all".
+  label: string;
+  providerNames: string[];
+  remainingCount: number;
+  totalCount: number;
+  // False when one of the run's providers is no longer set up.
+  canResume: boolean;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+// Offers to continue a bulk run that was still going when the page was closed or reloaded.
+const InterruptedRunBanner: React.FC<InterruptedRunBannerProps> = ({ label, providerNames, remainingCount, totalCount, canResume, onResume, onDiscard }) => {
+  return (
+    <div className="mt-4 flex flex-col md:flex-row md:items-center md:justify-between gap-2 bg-blue-50 dark:bg-blue-900/40 border-l-4 border-blue-500 text-blue-800 dark:text-blue-200 p-3 rounded-md text-sm" role="alert">
+      <div>
+        <p className="font-bold">An unfinished run was found</p>
+        <p>
+          {label} with {providerNames.join(' and ')} stopped with {remainingCount} of {totalCount} clients left.
+          {!canResume && ' Set up all of its providers again to resume it.'}
+        </p>
+      </div>
+      <div className="flex space-x-2">
+        <button
+          onClick={onResume}
+          disabled={!canResume}
+          className="bg-brand-primary hover:bg-brand-dark text-white font-bold py-1 px-3 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Resume
+        </button>
+        <button
+          onClick={onDiscard}
+          className="text-blue-800 dark:text-blue-200 hover:bg-blue-100 dark:hover:bg-blue-800/50 font-bold py-1 px-3 rounded-lg transition-colors"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default InterruptedRunBanner;
@@ -0,0 +1,30 @@
+import React, { useEffect, useState } from 'react';
+import { RateLimitWait } from '../services/rateLimiter';
+
+interface RateLimitCountdownProps {
+  wait: RateLimitWait;
+}
+
+// Shows how long a rate-limited run waits before it sends the batch again.
+const RateLimitCountdown: React.FC<RateLimitCountdownProps> = ({ wait }) => {
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [wait]);
+
+  const secondsLeft = Math.max(0, Math.ceil((wait.resumeAt - now) / 1000));
+
+  return (
+    <div className="mt-4 text-center bg-amber-100 dark:bg-amber-900/50 border-l-4 border-amber-500 text-amber-700 dark:text-amber-300 p-3 rounded-md" role="status">
+      <p className="font-bold">{wait.providerName} rate limit reached</p>
+      <p>
+        {secondsLeft > 0 ? `Resuming automatically in ${secondsLeft}s` : 'Resuming now'} (attempt {wait.attempt + 1} of {wait.maxAttempts}).
+      </p>
+    </div>
+  );
+};
+
+export default RateLimitCountdown;
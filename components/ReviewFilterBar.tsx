@@ -0,0 +1,102 @@
+import React from 'react';
+import { JobFunction, Seniority } from '../types';
+import { JOB_FUNCTION_LABELS, SENIORITY_LABELS } from '../services/titleClassifier';
+
+// 'business_hours' shows the contacts it is currently a weekday between 9:00 and 17:00 for.
+export type ClientFilter = 'all' | 'needs_review' | 'disputed' | 'business_hours';
+
+// 'unknown' shows the contacts whose title does not say.
+export type SeniorityFilter = Seniority | 'all' | 'unknown';
+export type JobFunctionFilter = JobFunction | 'all' | 'unknown';
+
+interface ReviewFilterBarProps {
+  filter: ClientFilter;
+  onFilterChange: (filter: ClientFilter) => void;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  totalCount: number;
+  needsReviewCount: number;
+  disputedCount: number;
+  inBusinessHoursCount: number;
+  seniorityFilter: SeniorityFilter;
+  onSeniorityFilterChange: (filter: SeniorityFilter) => void;
+  jobFunctionFilter: JobFunctionFilter;
+  onJobFunctionFilterChange: (filter: JobFunctionFilter) => void;
+}
+
+const ReviewFilterBar: React.FC<ReviewFilterBarProps> = ({ filter, onFilterChange, threshold, onThresholdChange, totalCount, needsReviewCount, disputedCount, inBusinessHoursCount, seniorityFilter, onSeniorityFilterChange, jobFunctionFilter, onJobFunctionFilterChange }) => {
+  const filterButtonClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${active
+      ? 'bg-brand-primary text-white'
+      : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'}`;
+
+  const selectClass = 'bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-brand-primary focus:border-brand-primary p-1.5 dark:bg-gray-700 dark:border-gray-600 dark:text-white';
+
+  const handleThresholdInput = (raw: string) => {
+    const value = Number(raw);
+    if (raw !== '' && Number.isInteger(value) && value >= 0 && value <= 100) {
+      onThresholdChange(value);
+    }
+  };
+
+  return (
+    <div className="mb-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3 bg-white dark:bg-gray-medium p-3 rounded-lg shadow-md">
+      <div className="flex items-center space-x-2" role="group" aria-label="Filter clients">
+        <button type="button" onClick={() => onFilterChange('all')} className={filterButtonClass(filter === 'all')}>
+          All ({totalCount})
+        </button>
+        <button type="button" onClick={() => onFilterChange('needs_review')} className={filterButtonClass(filter === 'needs_review')}>
+          Needs review ({needsReviewCount})
+        </button>
+        <button type="button" onClick={() => onFilterChange('disputed')} className={filterButtonClass(filter === 'disputed')}>
+          Disputed ({disputedCount})
+        </button>
+        <button
+          type="button"
+          onClick={() => onFilterChange('business_hours')}
+          className={filterButtonClass(filter === 'business_hours')}
+          title="Contacts for whom it is a weekday between 9:00 and 17:00 right now"
+        >
+          In business hours now ({inBusinessHoursCount})
+        </button>
+      </div>
+      <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+        <select
+          value={seniorityFilter}
+          onChange={(e) => onSeniorityFilterChange(e.target.value as SeniorityFilter)}
+          className={selectClass}
+          aria-label="Filter by seniority"
+        >
+          <option value="all">Any seniority</option>
+          {Object.entries(SENIORITY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          <option value="unknown">Unknown seniority</option>
+        </select>
+        <select
+          value={jobFunctionFilter}
+          onChange={(e) => onJobFunctionFilterChange(e.target.value as JobFunctionFilter)}
+          className={selectClass}
+          aria-label="Filter by function"
+        >
+          <option value="all">Any function</option>
+          {Object.entries(JOB_FUNCTION_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          <option value="unknown">Unknown function</option>
+        </select>
+      </div>
+      <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+        Flag results for review below
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step={1}
+          value={threshold}
+          onChange={(e) => handleThresholdInput(e.target.value)}
+          className="mx-2 w-20 bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-brand-primary focus:border-brand-primary p-1.5 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+        />
+        % confidence
+      </label>
+    </div>
+  );
+};
+
+export default ReviewFilterBar;
@@ -0,0 +1,54 @@
+import React from 'react';
+import Loader from './Loader';
+
+interface RunProgressProps {
+  // What the run does, e.g. "Finding all".
+  label: string;
+  batchNumber: number;
+  batchCount: number;
+  isPaused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+// The batch a bulk run is on, with buttons to pause, resume or cancel it.
+const RunProgress: React.FC<RunProgressProps> = ({ label, batchNumber, batchCount, isPaused, onPause, onResume, onCancel }) => {
+  return (
+    <div className="mt-4 flex flex-col md:flex-row md:items-center md:justify-between gap-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 p-3 rounded-md text-sm text-gray-700 dark:text-gray-300" role="status">
+      <div className="flex items-center">
+        {!isPaused && <Loader size="sm" />}
+        <span className={isPaused ? '' : 'ml-2'}>
+          {label}: {isPaused ? 'paused at' : 'sending'} batch {batchNumber} of {batchCount}
+        </span>
+      </div>
+      <div className="flex space-x-2">
+        {isPaused ? (
+          <button
+            onClick={onResume}
+            className="bg-brand-primary hover:bg-brand-dark text-white font-bold py-1 px-3 rounded-lg transition-colors"
+          >
+            Resume
+          </button>
+        ) : (
+          <button
+            onClick={onPause}
+            className="bg-amber-500 hover:bg-amber-600 text-white font-bold py-1 px-3 rounded-lg transition-colors"
+            title="Stop the batch in flight; it is sent again when you resume"
+          >
+            Pause
+          </button>
+        )}
+        <button
+          onClick={onCancel}
+          className="text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 font-bold py-1 px-3 rounded-lg transition-colors"
+          title="Stop the run; rows not yet answered keep their previous status"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RunProgress;
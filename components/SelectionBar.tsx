@@ -0,0 +1,48 @@
+import React from 'react';
+
+interface SelectionBarProps {
+  selectedCount: number;
+  // Name of the provider that looks the rows up again, or undefined when none is set up.
+  providerName?: string;
+  // True while a run is active, so no other lookup can start.
+  isRunning: boolean;
+  onRefresh: () => void;
+  onClearCache: () => void;
+  onClearSelection: () => void;
+}
+
+// Actions for the rows ticked in the table.
+const SelectionBar: React.FC<SelectionBarProps> = ({ selectedCount, providerName, isRunning, onRefresh, onClearCache, onClearSelection }) => {
+  return (
+    <div className="mb-4 flex flex-col md:flex-row md:items-center md:justify-between gap-2 bg-brand-light/20 dark:bg-gray-800 border border-brand-light dark:border-gray-700 p-3 rounded-md text-sm text-gray-700 dark:text-gray-300">
+      <span>{selectedCount} {selectedCount === 1 ? 'row' : 'rows'} selected</span>
+      <div className="flex flex-wrap gap-2">
+        {providerName && (
+          <button
+            onClick={onRefresh}
+            disabled={isRunning}
+            className="bg-brand-primary hover:bg-brand-dark text-white font-bold py-1 px-3 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Ask again even if a cached answer exists, and cache the new answer"
+          >
+            Look Up Again ({providerName})
+          </button>
+        )}
+        <button
+          onClick={onClearCache}
+          className="text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 font-bold py-1 px-3 rounded-lg transition-colors"
+          title="Forget the cached answers of these people, so the next lookup asks the provider again"
+        >
+          Clear Cached Answers
+        </button>
+        <button
+          onClick={onClearSelection}
+          className="text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 font-bold py-1 px-3 rounded-lg transition-colors"
+        >
+          Clear Selection
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SelectionBar;
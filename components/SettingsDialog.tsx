@@ -0,0 +1,324 @@
+import React, { useState } from 'react';
+import { EnrichmentProvider } from '../services/enrichmentProvider';
+import { AllProviderSettings } from '../services/providerRegistry';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  DEFAULT_PROMPT_VERSION,
+  getPromptTemplateBody,
+  PROMPT_PLACEHOLDERS,
+  PromptTemplateStore,
+  savePromptTemplateVersion,
+  validatePromptTemplate,
+} from '../services/promptTemplates';
+import { DEFAULT_MODEL_PRICES, ModelPrice } from '../services/usageTracking';
+
+interface SettingsDialogProps {
+  providers: EnrichmentProvider[];
+  providerSettings: AllProviderSettings;
+  promptTemplates: PromptTemplateStore;
+  modelPrices: ModelPrice[];
+  runBudget: number | null;
+  maxRateLimitAttempts: number;
+  cacheTtlDays: number;
+  // How many answers the result cache holds now.
+  cachedResultCount: number;
+  onSave: (data: { modelSettings: AllProviderSettings; promptTemplates: PromptTemplateStore; modelPrices: ModelPrice[]; runBudget: number | null; maxRateLimitAttempts: number; cacheTtlDays: number }) => void;
+  onCancel: () => void;
+}
+
+// Prices are edited as text and only parsed on save.
+interface PriceRow {
+  model: string;
+  inputPerMillion: string;
+  outputPerMillion: string;
+}
+
+const toPriceRows = (prices: ModelPrice[]): PriceRow[] => prices.map(price => ({
+  model: price.model,
+  inputPerMillion: String(price.inputPerMillion),
+  outputPerMillion: String(price.outputPerMillion),
+}));
+
+const isPriceValue = (value: string) => value.trim() !== '' && Number.isFinite(Number(value)) && Number(value) >= 0;
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ providers, providerSettings, promptTemplates, modelPrices, runBudget, maxRateLimitAttempts, cacheTtlDays, cachedResultCount, onSave, onCancel }) => {
+  const modelFields = providers.flatMap(provider => provider.settings.filter(field => field.key === 'model').map(field => ({ provider, field })));
+  const [models, setModels] = useState<AllProviderSettings>(() => Object.fromEntries(
+    modelFields.map(({ provider, field }) => [provider.id, { [field.key]: providerSettings[provider.id]?.[field.key] || '' }])
+  ));
+  const [selectedVersion, setSelectedVersion] = useState<number>(promptTemplates.activeVersion);
+  const [body, setBody] = useState<string>(() => getPromptTemplateBody(promptTemplates, promptTemplates.activeVersion));
+  const [priceRows, setPriceRows] = useState<PriceRow[]>(() => toPriceRows(modelPrices));
+  const [budget, setBudget] = useState<string>(runBudget === null ? '' : String(runBudget));
+  const [attempts, setAttempts] = useState<string>(String(maxRateLimitAttempts));
+  const [ttlDays, setTtlDays] = useState<string>(String(cacheTtlDays));
+
+  const problems = validatePromptTemplate(body);
+  const isEdited = body !== getPromptTemplateBody(promptTemplates, selectedVersion);
+  const missingModels = modelFields.filter(({ provider, field }) => field.required && !models[provider.id]?.[field.key]?.trim());
+  const priceProblems = priceRows.some(row => !row.model.trim() || !isPriceValue(row.inputPerMillion) || !isPriceValue(row.outputPerMillion))
+    ? ['Every price needs a model name and prices of 0 or more.']
+    : [];
+  if (budget.trim() !== '' && !(Number(budget) > 0)) {
+    priceProblems.push('The budget must be a positive amount, or empty for no limit.');
+  }
+  const isAttemptsValid = Number.isInteger(Number(attempts)) && Number(attempts) >= 1;
+  const isTtlValid = ttlDays.trim() !== '' && Number.isInteger(Number(ttlDays)) && Number(ttlDays) >= 0;
+
+  const updatePriceRow = (index: number, changes: Partial<PriceRow>) => {
+    setPriceRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const handleVersionChange = (version: number) => {
+    setSelectedVersion(version);
+    setBody(getPromptTemplateBody(promptTemplates, version));
+  };
+
+  const handleResetToDefault = () => {
+    setSelectedVersion(DEFAULT_PROMPT_VERSION);
+    setBody(DEFAULT_PROMPT_TEMPLATE);
+  };
+
+  // An edited template is saved as a new version; otherwise the selected version becomes the active one.
+  const handleSave = () => {
+    const store = isEdited ? savePromptTemplateVersion(promptTemplates, body) : { ...promptTemplates, activeVersion: selectedVersion };
+    onSave({
+      modelSettings: models,
+      promptTemplates: store,
+      modelPrices: priceRows.map(row => ({ model: row.model.trim(), inputPerMillion: Number(row.inputPerMillion), outputPerMillion: Number(row.outputPerMillion) })),
+      runBudget: budget.trim() === '' ? null : Number(budget),
+      maxRateLimitAttempts: Number(attempts),
+      cacheTtlDays: Number(ttlDays),
+    });
+  };
+
+  const inputClass = "bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-brand-primary focus:border-brand-primary block w-full p-2 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="settings-title">
+      <div className="bg-white dark:bg-gray-medium rounded-lg shadow-xl w-full max-w-3xl max-h-full overflow-y-auto p-6">
+        <h2 id="settings-title" className="text-xl font-bold text-brand-primary dark:text-brand-light mb-1">
+          AI Settings
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Choose the model each provider uses, adjust the instructions sent with every batch and set what runs may cost. Settings are saved in this browser.
+        </p>
+
+        <h3 className="text-xs font-bold uppercase text-gray-700 dark:text-gray-300 mb-2">Models</h3>
+        <div className="space-y-3 mb-6">
+          {modelFields.map(({ provider, field }) => (
+            <div key={provider.id} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+              <label htmlFor={`settings-${provider.id}-${field.key}`} className="text-sm font-medium text-gray-900 dark:text-white">
+                {field.label} {field.required && <span className="text-red-500">*</span>}
+              </label>
+              <div className="md:col-span-2">
+                <input
+                  id={`settings-${provider.id}-${field.key}`}
+                  type="text"
+                  list={`settings-${provider.id}-${field.key}-suggestions`}
+                  value={models[provider.id]?.[field.key] || ''}
+                  onChange={(e) => setModels(prev => ({ ...prev, [provider.id]: { ...prev[provider.id], [field.key]: e.target.value } }))}
+                  placeholder={field.placeholder}
+                  className={inputClass}
+                />
+                {field.suggestions && (
+                  <datalist id={`settings-${provider.id}-${field.key}-suggestions`}>
+                    {field.suggestions.map(suggestion => <option key={suggestion} value={suggestion} />)}
+                  </datalist>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 mb-2">
+          <h3 className="text-xs font-bold uppercase text-gray-700 dark:text-gray-300">Prompt Template</h3>
+          <div className="flex items-center gap-2">
+            <select
+              value={selectedVersion}
+              onChange={(e) => handleVersionChange(Number(e.target.value))}
+              className={`${inputClass} md:w-72`}
+              aria-label="Prompt template version"
+            >
+              <option value={DEFAULT_PROMPT_VERSION}>
+                Default (built-in){promptTemplates.activeVersion === DEFAULT_PROMPT_VERSION ? ' - in use' : ''}
+              </option>
+              {[...promptTemplates.versions].reverse().map(version => (
+                <option key={version.version} value={version.version}>
+                  Version {version.version}, saved {new Date(version.savedAt).toLocaleString()}{promptTemplates.activeVersion === version.version ? ' - in use' : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleResetToDefault}
+              className="whitespace-nowrap text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 font-bold py-2 px-3 rounded-lg transition-colors"
+            >
+              Reset to default
+            </button>
+          </div>
+        </div>
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={14}
+          spellCheck={false}
+          className={`${inputClass} font-mono text-xs`}
+          aria-label="Prompt template"
+        />
+        <ul className="mt-2 text-xs text-gray-600 dark:text-gray-400 space-y-1">
+          {PROMPT_PLACEHOLDERS.map(placeholder => (
+            <li key={placeholder.name}>
+              <code className="bg-gray-100 dark:bg-gray-700 rounded px-1">{`{{${placeholder.name}}}`}</code>
+              {placeholder.required && <span className="text-red-500"> *</span>} {placeholder.description}
+            </li>
+          ))}
+        </ul>
+        {isEdited && problems.length === 0 && (
+          <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">Saving creates a new version from this text.</p>
+        )}
+        {problems.length > 0 && (
+          <div className="mt-3 bg-red-100 dark:bg-red-900/50 border-l-4 border-red-500 text-red-700 dark:text-red-300 p-3 rounded-md text-sm" role="alert">
+            {problems.map(problem => <p key={problem}>{problem}</p>)}
+          </div>
+        )}
+
+        <h3 className="mt-6 text-xs font-bold uppercase text-gray-700 dark:text-gray-300 mb-2">Costs</h3>
+        <div className="mb-3 flex items-center text-sm text-gray-900 dark:text-white">
+          <label htmlFor="settings-run-budget" className="mr-2">Budget per run (USD)</label>
+          <input
+            id="settings-run-budget"
+            type="number"
+            min={0}
+            step="0.01"
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+            placeholder="No limit"
+            className={`${inputClass} w-32`}
+          />
+        </div>
+        <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+          A run stops before a batch that would go over the budget, estimated from the batches already sent. Prices are USD per million tokens; models without a price are counted but not costed.
+        </p>
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-gray-700 dark:text-gray-300">
+            <tr>
+              <th className="font-medium pb-1">Model</th>
+              <th className="font-medium pb-1">Input / 1M</th>
+              <th className="font-medium pb-1">Output / 1M</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {priceRows.map((row, index) => (
+              <tr key={index}>
+                <td className="pr-2 pb-1">
+                  <input type="text" value={row.model} onChange={(e) => updatePriceRow(index, { model: e.target.value })} className={inputClass} aria-label="Model" />
+                </td>
+                <td className="pr-2 pb-1">
+                  <input type="number" min={0} step="0.01" value={row.inputPerMillion} onChange={(e) => updatePriceRow(index, { inputPerMillion: e.target.value })} className={inputClass} aria-label={`Input price for ${row.model}`} />
+                </td>
+                <td className="pr-2 pb-1">
+                  <input type="number" min={0} step="0.01" value={row.outputPerMillion} onChange={(e) => updatePriceRow(index, { outputPerMillion: e.target.value })} className={inputClass} aria-label={`Output price for ${row.model}`} />
+                </td>
+                <td className="pb-1">
+                  <button
+                    type="button"
+                    onClick={() => setPriceRows(prev => prev.filter((_, i) => i !== index))}
+                    className="text-gray-500 hover:text-red-600 px-2"
+                    aria-label={`Remove the price for ${row.model}`}
+                  >
+                    &times;
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="mt-2 flex space-x-2">
+          <button
+            type="button"
+            onClick={() => setPriceRows(prev => [...prev, { model: '', inputPerMillion: '0', outputPerMillion: '0' }])}
+            className="text-sm text-brand-primary dark:text-brand-light hover:underline"
+          >
+            Add model
+          </button>
+          <button
+            type="button"
+            onClick={() => setPriceRows(toPriceRows(DEFAULT_MODEL_PRICES))}
+            className="text-sm text-gray-600 dark:text-gray-300 hover:underline"
+          >
+            Reset prices
+          </button>
+        </div>
+        {priceProblems.length > 0 && (
+          <div className="mt-3 bg-red-100 dark:bg-red-900/50 border-l-4 border-red-500 text-red-700 dark:text-red-300 p-3 rounded-md text-sm" role="alert">
+            {priceProblems.map(problem => <p key={problem}>{problem}</p>)}
+          </div>
+        )}
+
+        <h3 className="mt-6 text-xs font-bold uppercase text-gray-700 dark:text-gray-300 mb-2">Rate Limits</h3>
+        <div className="mb-2 flex items-center text-sm text-gray-900 dark:text-white">
+          <label htmlFor="settings-rate-limit-attempts" className="mr-2">Attempts per batch</label>
+          <input
+            id="settings-rate-limit-attempts"
+            type="number"
+            min={1}
+            step={1}
+            value={attempts}
+            onChange={(e) => setAttempts(e.target.value)}
+            className={`${inputClass} w-24`}
+          />
+        </div>
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          A rate-limited batch waits as long as the provider asks, or backs off exponentially, and is sent again. The run only pauses once a batch has been rate limited this many times.
+        </p>
+        {!isAttemptsValid && (
+          <div className="mt-3 bg-red-100 dark:bg-red-900/50 border-l-4 border-red-500 text-red-700 dark:text-red-300 p-3 rounded-md text-sm" role="alert">
+            <p>Attempts per batch must be a whole number of at least 1.</p>
+          </div>
+        )}
+
+        <h3 className="mt-6 text-xs font-bold uppercase text-gray-700 dark:text-gray-300 mb-2">Result Cache</h3>
+        <div className="mb-2 flex items-center text-sm text-gray-900 dark:text-white">
+          <label htmlFor="settings-cache-ttl" className="mr-2">Reuse answers for (days)</label>
+          <input
+            id="settings-cache-ttl"
+            type="number"
+            min={0}
+            step={1}
+            value={ttlDays}
+            onChange={(e) => setTtlDays(e.target.value)}
+            className={`${inputClass} w-24`}
+          />
+        </div>
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          Found cities are cached per person, company, provider and prompt version, so the same lookup is not paid for twice. {cachedResultCount} {cachedResultCount === 1 ? 'answer is' : 'answers are'} cached. Set 0 to turn the cache off; older answers are dropped on save.
+        </p>
+        {!isTtlValid && (
+          <div className="mt-3 bg-red-100 dark:bg-red-900/50 border-l-4 border-red-500 text-red-700 dark:text-red-300 p-3 rounded-md text-sm" role="alert">
+            <p>The number of days must be a whole number of 0 or more.</p>
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end space-x-2">
+          <button
+            onClick={onCancel}
+            className="text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 font-bold py-2 px-4 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={problems.length > 0 || missingModels.length > 0 || priceProblems.length > 0 || !isAttemptsValid || !isTtlValid}
+            className="bg-brand-primary hover:bg-brand-dark text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Settings
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { addToUsageTotals, EMPTY_USAGE_TOTALS, formatCost, UsageRecord, UsageTotals } from '../services/usageTracking';
+
+interface UsageSummaryProps {
+  runUsage: UsageRecord[];
+  totals: UsageTotals;
+  runBudget: number | null;
+  isRunning: boolean;
+  onResetTotals: () => void;
+}
+
+const formatTokens = (totals: UsageTotals) => `${totals.inputTokens.toLocaleString()} in / ${totals.outputTokens.toLocaleString()} out`;
+
+// "$0.12", with a note when some calls used a model without a price.
+const formatTotalsCost = (totals: UsageTotals) => {
+  const unpriced = totals.unpricedCalls > 0 ? ` (${totals.unpricedCalls} ${totals.unpricedCalls === 1 ? 'call' : 'calls'} not priced)` : '';
+  return `${formatCost(totals.cost)}${unpriced}`;
+};
+
+const UsageSummary: React.FC<UsageSummaryProps> = ({ runUsage, totals, runBudget, isRunning, onResetTotals }) => {
+  if (totals.calls === 0 && runUsage.length === 0) {
+    return null;
+  }
+  const runTotals = addToUsageTotals(EMPTY_USAGE_TOTALS, runUsage);
+
+  return (
+    <div className="mb-4 bg-white dark:bg-gray-medium p-3 rounded-lg shadow-md text-sm text-gray-700 dark:text-gray-300">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        {runUsage.length > 0 ? (
+          <p>
+            <strong>{isRunning ? 'This run' : 'Last run'}:</strong> {formatTokens(runTotals)} tokens, est. {formatTotalsCost(runTotals)}
+            {runBudget !== null && <> of {formatCost(runBudget)} budget</>}
+          </p>
+        ) : (
+          <p>{runBudget !== null ? <>Each run is capped at an estimated {formatCost(runBudget)}.</> : 'No bulk run yet.'}</p>
+        )}
+        <p>
+          <strong>All time:</strong> {formatTokens(totals)} tokens, est. {formatTotalsCost(totals)}
+          <button
+            type="button"
+            onClick={onResetTotals}
+            disabled={isRunning}
+            className="ml-2 text-brand-primary dark:text-brand-light hover:underline disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </p>
+      </div>
+      {runUsage.length > 0 && (
+        <details className="mt-2">
+          <summary className="cursor-pointer text-xs">Usage per call</summary>
+          <table className="mt-2 w-full text-xs text-left">
+            <thead>
+              <tr className="text-gray-500 dark:text-gray-400">
+                <th className="pr-4 font-medium">Call</th>
+                <th className="pr-4 font-medium">Provider</th>
+                <th className="pr-4 font-medium">Model</th>
+                <th className="pr-4 font-medium">Clients</th>
+                <th className="pr-4 font-medium">Tokens</th>
+                <th className="font-medium">Est. cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runUsage.map((record, index) => (
+                <tr key={index}>
+                  <td className="pr-4">{index + 1}</td>
+                  <td className="pr-4">{record.providerName}</td>
+                  <td className="pr-4">{record.model}</td>
+                  <td className="pr-4">{record.clientIds.length}</td>
+                  <td className="pr-4">{record.inputTokens.toLocaleString()} / {record.outputTokens.toLocaleString()}</td>
+                  <td>{record.cost === null ? 'not priced' : formatCost(record.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default UsageSummary;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Client, ColumnMapping } from '../types';
+import { applyWriteBack, CellChange, planWriteBack, WriteBackPlan } from '../services/sheetsWriteBackService';
+import Loader from './Loader';
+
+interface WriteBackDialogProps {
+  sheetId: string;
+  clients: Client[];
+  mapping: ColumnMapping;
+  // Called with the cells that were written, so the loaded values can be brought up to date.
+  onWritten: (changes: CellChange[]) => void;
+  onClose: () => void;
+}
+
+const ChangeTable: React.FC<{ changes: CellChange[] }> = ({ changes }) => (
+  <table className="w-full text-xs text-left text-gray-600 dark:text-gray-300">
+    <thead className="uppercase text-gray-700 dark:text-gray-300">
+      <tr>
+        <th className="py-1 pr-2">Cell</th>
+        <th className="py-1 pr-2">Column</th>
+        <th className="py-1 pr-2">Current</th>
+        <th className="py-1">New</th>
+      </tr>
+    </thead>
+    <tbody>
+      {changes.map(change => (
+        <tr key={`${change.clientId}-${change.field}`} className="border-t dark:border-gray-700 align-top">
+          <td className="py-1 pr-2 whitespace-nowrap">{change.range}</td>
+          <td className="py-1 pr-2">{change.header}</td>
+          <td className="py-1 pr-2">{change.currentValue || <span className="italic text-gray-400">empty</span>}</td>
+          <td className="py-1">
+            {change.newValue}
+            {change.conflict && <div className="text-red-600 dark:text-red-400">{change.conflict}</div>}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const WriteBackDialog: React.FC<WriteBackDialogProps> = ({ sheetId, clients, mapping, onWritten, onClose }) => {
+  // The token is only kept for the lifetime of the dialog and is never stored.
+  const [accessToken, setAccessToken] = useState('');
+  const [plan, setPlan] = useState<WriteBackPlan | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [resultMessage, setResultMessage] = useState('');
+
+  const request = { sheetId, accessToken: accessToken.trim() };
+
+  const handlePreview = async () => {
+    setIsWorking(true);
+    setError('');
+    setResultMessage('');
+    try {
+      setPlan(await planWriteBack(request, clients, mapping));
+    } catch (err) {
+      console.error("Error planning sheet write-back:", err);
+      setError(err instanceof Error ? err.message : 'Could not read the sheet.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleWrite = async () => {
+    if (!plan) return;
+    setIsWorking(true);
+    setError('');
+    try {
+      const updatedCells = await applyWriteBack(request, plan.changes);
+      onWritten(plan.changes);
+      setResultMessage(`Updated ${updatedCells} ${updatedCells === 1 ? 'cell' : 'cells'} in the sheet.`);
+      setPlan(null);
+    } catch (err) {
+      console.error("Error writing to the sheet:", err);
+      setError(err instanceof Error ? err.message : 'Could not write to the sheet.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="write-back-title">
+      <div className="bg-white dark:bg-gray-medium rounded-lg shadow-xl w-full max-w-3xl max-h-full overflow-y-auto p-6">
+        <h2 id="write-back-title" className="text-xl font-bold text-brand-primary dark:text-brand-light mb-1">
+          Write Results to Google Sheet
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+          Updates the mapped city and job title cells of each client's original row. Nothing is written until you have reviewed the preview.
+        </p>
+
+        <label htmlFor="oauth-token" className="block mb-1 text-sm font-medium text-gray-900 dark:text-white">OAuth Access Token</label>
+        <input
+          id="oauth-token"
+          type="password"
+          value={accessToken}
+          onChange={(e) => { setAccessToken(e.target.value); setPlan(null); }}
+          placeholder="A token with the https://www.googleapis.com/auth/spreadsheets scope"
+          className="bg-gray-50 border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-brand-primary focus:border-brand-primary block w-full p-2.5 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400 dark:text-white"
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          The token is only used for this write-back and is not saved. You can create one with the Google OAuth 2.0 Playground.
+        </p>
+
+        {error && <p className="mt-4 text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>}
+        {resultMessage && <p className="mt-4 text-sm text-green-700 dark:text-green-400" role="status">{resultMessage}</p>}
+
+        {plan && (
+          <div className="mt-4 space-y-4">
+            {plan.warnings.map(warning => (
+              <p key={warning} className="text-sm text-amber-700 dark:text-amber-300">{warning}</p>
+            ))}
+            <div>
+              <h3 className="font-bold text-sm text-gray-900 dark:text-white mb-1">{plan.changes.length} {plan.changes.length === 1 ? 'cell' : 'cells'} will change</h3>
+              {plan.changes.length > 0 ? <ChangeTable changes={plan.changes} /> : <p className="text-sm text-gray-500 dark:text-gray-400">The sheet is already up to date.</p>}
+            </div>
+            {plan.conflicts.length > 0 && (
+              <div>
+                <h3 className="font-bold text-sm text-red-700 dark:text-red-400 mb-1">{plan.conflicts.length} {plan.conflicts.length === 1 ? 'conflict' : 'conflicts'} will be skipped</h3>
+                <ChangeTable changes={plan.conflicts} />
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-end items-center space-x-3">
+          {isWorking && <Loader size="sm" />}
+          <button
+            onClick={onClose}
+            className="text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 font-bold py-2 px-4 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handlePreview}
+            disabled={isWorking || !accessToken.trim()}
+            className="bg-gray-800 hover:bg-black text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {plan ? 'Refresh Preview' : 'Preview Changes'}
+          </button>
+          <button
+            onClick={handleWrite}
+            disabled={isWorking || !plan || plan.changes.length === 0}
+            className="bg-brand-primary hover:bg-brand-dark text-white font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Write {plan ? plan.changes.length : ''} Cells
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WriteBackDialog;
@@ -0,0 +1,11 @@
+// Normalizes free-text city answers for loose comparison and gazetteer lookups, ignoring case, accents and
+// punctuation other than commas.
+
+export const normalizeCityName = (city: string): string => {
+  return city
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9,]+/g, ' ')
+    .trim();
+};
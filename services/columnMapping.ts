@@ -0,0 +1,165 @@
+import { ColumnMapping, MappableClientField } from '../types';
+
+interface ClientFieldDefinition {
+  field: MappableClientField;
+  label: string;
+  required: boolean;
+  // Header names that identify the field, in normalized form. The first entry is the header this app has always used.
+  synonyms: string[];
+}
+
+export const CLIENT_FIELD_DEFINITIONS: ClientFieldDefinition[] = [
+  {
+    field: 'firstName',
+    label: 'First Name',
+    required: true,
+    synonyms: ['client first name', 'first name', 'firstname', 'given name', 'forename', 'first'],
+  },
+  {
+    field: 'lastName',
+    label: 'Last Name',
+    required: true,
+    synonyms: ['client second name', 'last name', 'lastname', 'surname', 'family name', 'second name', 'last'],
+  },
+  {
+    field: 'jobTitle',
+    label: 'Job Title',
+    required: false,
+    synonyms: ['job title', 'title', 'position', 'role', 'job role', 'designation', 'job'],
+  },
+  {
+    field: 'company',
+    label: 'Company',
+    required: false,
+    synonyms: ['company', 'company name', 'organisation', 'organization', 'organisation name', 'organization name', 'employer', 'account name', 'account', 'business'],
+  },
+  {
+    field: 'city',
+    label: 'City',
+    required: false,
+    synonyms: ['identified city', 'city', 'location', 'town', 'city name'],
+  },
+];
+
+// Scores below this are not confident enough to be suggested.
+const MIN_SUGGESTION_SCORE = 0.6;
+
+export const normalizeHeader = (header: string): string => {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+};
+
+const levenshteinDistance = (a: string, b: string): number => {
+  const previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previousRow[0];
+    previousRow[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previousRow[j];
+      previousRow[j] = Math.min(
+        previousRow[j] + 1,
+        previousRow[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previousRow[b.length];
+};
+
+// Rates how well a normalized header matches one synonym: exact matches beat headers that contain the synonym,
+// which beat near-misses such as typos.
+const scoreHeaderAgainstSynonym = (header: string, synonym: string): number => {
+  if (header === synonym) {
+    return 1;
+  }
+  if (` ${header} `.includes(` ${synonym} `)) {
+    // Prefer headers with fewer extra words, e.g. "Contact First Name" over "First Name Phonetic Spelling".
+    return 0.8 - (header.length - synonym.length) / (header.length * 10);
+  }
+  const similarity = 1 - levenshteinDistance(header, synonym) / Math.max(header.length, synonym.length);
+  return similarity >= 0.75 ? similarity * 0.8 : 0;
+};
+
+const scoreHeaderForField = (header: string, definition: ClientFieldDefinition): number => {
+  const normalized = normalizeHeader(header);
+  if (!normalized) {
+    return 0;
+  }
+  // Earlier synonyms are more specific, so they get a small bonus to break ties.
+  return Math.max(...definition.synonyms.map((synonym, index) =>
+    scoreHeaderAgainstSynonym(normalized, synonym) - index * 0.001
+  ));
+};
+
+// Suggests a header for every field it can match, using each header at most once.
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const candidates: { field: MappableClientField; header: string; score: number }[] = [];
+  for (const definition of CLIENT_FIELD_DEFINITIONS) {
+    for (const header of headers) {
+      const score = scoreHeaderForField(header, definition);
+      if (score >= MIN_SUGGESTION_SCORE) {
+        candidates.push({ field: definition.field, header, score });
+      }
+    }
+  }
+
+  // Greedily assign the best-scoring pairs first so a strong match is never taken by a weaker one.
+  candidates.sort((a, b) => b.score - a.score);
+  const mapping: ColumnMapping = {};
+  const usedHeaders = new Set<string>();
+  for (const { field, header } of candidates) {
+    if (mapping[field] === undefined && !usedHeaders.has(header)) {
+      mapping[field] = header;
+      usedHeaders.add(header);
+    }
+  }
+  return mapping;
+};
+
+export const getMissingRequiredFields = (mapping: ColumnMapping, headers: string[]): ClientFieldDefinition[] => {
+  return CLIENT_FIELD_DEFINITIONS.filter(definition =>
+    definition.required && (!mapping[definition.field] || !headers.includes(mapping[definition.field]!))
+  );
+};
+
+// A saved mapping can only be reused if every column it refers to still exists.
+export const isMappingApplicable = (mapping: ColumnMapping, headers: string[]): boolean => {
+  return getMissingRequiredFields(mapping, headers).length === 0 &&
+    Object.values(mapping).every(header => !header || headers.includes(header));
+};
+
+// Finds the header row instead of assuming it's the first line, so leading blank lines or export metadata are skipped.
+// The header row is the first row where both name columns can be recognised, falling back to the first non-empty row.
+export const findHeaderRowIndex = (rows: string[][]): number => {
+  const recognisedIndex = rows.findIndex(row => {
+    const suggestion = suggestColumnMapping(row);
+    return !!suggestion.firstName && !!suggestion.lastName;
+  });
+  if (recognisedIndex !== -1) {
+    return recognisedIndex;
+  }
+  return rows.findIndex(row => row.filter(cell => cell.trim() !== '').length >= 2);
+};
+
+const isColumnMapping = (value: unknown): value is ColumnMapping => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const fields = CLIENT_FIELD_DEFINITIONS.map(definition => definition.field as string);
+  return Object.entries(value).every(([field, header]) => fields.includes(field) && (header === undefined || typeof header === 'string'));
+};
+
+// Reads the saved mappings, keyed by source, ignoring anything malformed.
+export const parseSavedColumnMappings = (raw: string | null): Record<string, ColumnMapping> => {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('Unexpected column mappings format.');
+    }
+    return Object.fromEntries(Object.entries(parsed).filter(([, mapping]) => isColumnMapping(mapping)));
+  } catch (e) {
+    console.error('Could not read the saved column mappings:', e);
+    return {};
+  }
+};
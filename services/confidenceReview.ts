@@ -0,0 +1,29 @@
+import { Client } from '../types';
+
+// Results the AI is unsure of are marked 'needs_review' instead of 'found', so they can be checked before export.
+
+export const DEFAULT_REVIEW_THRESHOLD = 70;
+
+// Reads a stored threshold, falling back to the default for missing or out-of-range values.
+export const parseReviewThreshold = (raw: string | null): number => {
+  const value = Number(raw);
+  if (raw === null || raw.trim() === '' || !Number.isFinite(value) || value < 0 || value > 100) {
+    return DEFAULT_REVIEW_THRESHOLD;
+  }
+  return Math.round(value);
+};
+
+export const isBelowThreshold = (confidence: number | undefined, threshold: number): boolean => {
+  return confidence !== undefined && confidence < threshold;
+};
+
+// Re-evaluates found and flagged results after the threshold changed. Accepted and typed-in cities are left alone.
+export const applyReviewThreshold = (clients: Client[], threshold: number): Client[] => {
+  return clients.map(client => {
+    if ((client.cityStatus !== 'found' && client.cityStatus !== 'needs_review') || client.reviewed || client.confidence === undefined) {
+      return client;
+    }
+    const cityStatus = isBelowThreshold(client.confidence, threshold) ? 'needs_review' : 'found';
+    return cityStatus === client.cityStatus ? client : { ...client, cityStatus };
+  });
+};
@@ -0,0 +1,79 @@
+import { ConsensusCandidate, EnrichmentError } from '../types';
+import { createEnrichmentError, EnrichmentOutcome, EnrichmentProvider, EnrichmentResultMap } from './enrichmentProvider';
+import { EnrichmentResult } from './enrichmentSchema';
+import { isSameCity } from './gazetteer';
+import { mergeSourceLinks } from './groundingSources';
+
+// A consensus run sends the same batch to several providers and only accepts an answer they all agree on.
+// Disagreements are kept as candidates for the user to choose from.
+
+export type ConsensusOutcome =
+  | { status: 'agreed'; result: EnrichmentResult }
+  | { status: 'disputed'; candidates: ConsensusCandidate[] }
+  // No provider produced an answer; holds the first provider's error.
+  | { status: 'failed'; error: EnrichmentError };
+
+export const normalizeJobTitle = (title: string): string => {
+  return title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+// An empty title is "no opinion", so it does not contradict a provider that found one.
+export const isSameJobTitle = (a: string, b: string): boolean => {
+  return !a.trim() || !b.trim() || normalizeJobTitle(a) === normalizeJobTitle(b);
+};
+
+const isNotFound = (city: string) => city.trim().toLowerCase() === 'not found';
+
+const isSameAnswer = (a: ConsensusCandidate, b: ConsensusCandidate): boolean => {
+  const sameCity = isNotFound(a.city) ? isNotFound(b.city) : !isNotFound(b.city) && isSameCity(a.city, b.city);
+  return sameCity && isSameJobTitle(a.jobTitle, b.jobTitle);
+};
+
+// Compares the providers' answers for one client. Agreement needs at least two answers; a single answer is
+// offered as a candidate rather than accepted on its own.
+export const resolveConsensus = (answers: { provider: EnrichmentProvider; outcome: EnrichmentOutcome | undefined }[]): ConsensusOutcome => {
+  const candidates: ConsensusCandidate[] = answers.flatMap(({ provider, outcome }) =>
+    outcome?.kind === 'result' ? [{ providerId: provider.id, providerName: provider.name, ...outcome.result }] : []
+  );
+  if (candidates.length === 0) {
+    const failed = answers.find(({ outcome }) => outcome?.kind === 'error')?.outcome;
+    return { status: 'failed', error: failed?.kind === 'error' ? failed.error : createEnrichmentError('no_result', answers[0].provider) };
+  }
+  if (candidates.length < 2 || !candidates.every(candidate => isSameAnswer(candidates[0], candidate))) {
+    return { status: 'disputed', candidates };
+  }
+
+  const confidences = candidates.flatMap(candidate => candidate.confidence !== undefined ? [candidate.confidence] : []);
+  const sources = mergeSourceLinks(...candidates.map(candidate => candidate.sources));
+  return {
+    status: 'agreed',
+    result: {
+      city: candidates[0].city,
+      jobTitle: candidates.find(candidate => candidate.jobTitle)?.jobTitle || '',
+      ...(confidences.length > 0 ? { confidence: Math.max(...confidences) } : {}),
+      rationale: `${candidates.map(candidate => candidate.providerName).join(' and ')} gave the same answer.`,
+      ...(sources.length > 0 ? { sources } : {}),
+    },
+  };
+};
+
+// Combines the result maps the providers returned for the same batch, keyed by client id in batch order.
+export const combineConsensusResults = (providers: EnrichmentProvider[], resultMaps: EnrichmentResultMap[]): Map<number, ConsensusOutcome> => {
+  const ids = [...new Set(resultMaps.flatMap(resultMap => [...resultMap.keys()]))];
+  return new Map(ids.map(id => [
+    id,
+    resolveConsensus(providers.map((provider, index) => ({ provider, outcome: resultMaps[index].get(id) }))),
+  ]));
+};
+
+// A consensus batch can be no larger than its strictest provider allows. Each provider still paces its own
+// requests with its rate limiter.
+export const getConsensusBatchSize = (providers: EnrichmentProvider[]): number => {
+  return Math.min(...providers.map(provider => provider.rateLimits.batchSize));
+};
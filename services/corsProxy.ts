@@ -0,0 +1,71 @@
+import { CorsProxySettings } from '../types';
+
+// The path of the proxy route that `vite.config.ts` adds to the dev and preview servers.
+export const BUILTIN_PROXY_PATH = '/sheet-proxy';
+
+// Header the built-in proxy sets on every response, so the app can tell its own failures from Google's.
+// `upstream` means the body and status come from Google; `error` means the proxy itself failed.
+export const BUILTIN_PROXY_HEADER = 'X-Sheet-Proxy';
+
+// The only hosts the built-in proxy forwards to, so it cannot be used as an open proxy.
+export const BUILTIN_PROXY_ALLOWED_HOSTS = ['docs.google.com'];
+
+export const DEFAULT_CORS_PROXY_SETTINGS: CorsProxySettings = {
+  mode: 'custom',
+  urlTemplate: 'https://corsproxy.io/?{url}',
+};
+
+export const CORS_PROXY_MODE_LABELS: Record<CorsProxySettings['mode'], string> = {
+  none: 'No proxy (direct request)',
+  custom: 'Custom proxy URL',
+  builtin: 'Built-in proxy (dev / preview server)',
+};
+
+// Fills in the defaults for anything missing or malformed, e.g. a custom template that was left empty.
+export const normalizeCorsProxySettings = (settings: Partial<CorsProxySettings> | null | undefined): CorsProxySettings => {
+  const mode = settings?.mode && settings.mode in CORS_PROXY_MODE_LABELS ? settings.mode : DEFAULT_CORS_PROXY_SETTINGS.mode;
+  const urlTemplate = typeof settings?.urlTemplate === 'string' && settings.urlTemplate.trim() ? settings.urlTemplate.trim() : DEFAULT_CORS_PROXY_SETTINGS.urlTemplate;
+  return { mode, urlTemplate };
+};
+
+// Reads settings saved as JSON.
+export const parseCorsProxySettings = (raw: string | null): CorsProxySettings => {
+  if (!raw) {
+    return DEFAULT_CORS_PROXY_SETTINGS;
+  }
+  try {
+    return normalizeCorsProxySettings(JSON.parse(raw));
+  } catch (e) {
+    console.error("Could not read the saved CORS proxy settings.", e);
+    return DEFAULT_CORS_PROXY_SETTINGS;
+  }
+};
+
+// A template without a `{url}` placeholder gets the encoded URL appended, which suits proxies like `https://host/?`.
+export const buildProxiedUrl = (url: string, settings: CorsProxySettings): string => {
+  switch (settings.mode) {
+    case 'none':
+      return url;
+    case 'builtin':
+      return `${BUILTIN_PROXY_PATH}?url=${encodeURIComponent(url)}`;
+    case 'custom': {
+      const template = settings.urlTemplate.trim();
+      return template.includes('{url}') ? template.replace('{url}', encodeURIComponent(url)) : `${template}${encodeURIComponent(url)}`;
+    }
+  }
+};
+
+export const describeCorsProxy = (settings: CorsProxySettings): string => {
+  switch (settings.mode) {
+    case 'none':
+      return 'no proxy';
+    case 'builtin':
+      return 'the built-in proxy';
+    case 'custom':
+      try {
+        return new URL(settings.urlTemplate.replace('{url}', '')).host;
+      } catch (e) {
+        return 'the custom proxy';
+      }
+  }
+};
@@ -0,0 +1,274 @@
+// An RFC 4180 CSV tokenizer. It accepts input in chunks, so large exports can be parsed while they download,
+// and it is lenient: malformed input is reported with line numbers but never stops parsing.
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface CsvParseError {
+  // 1-based physical line in the input where the problem was found.
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  rows: string[][];
+  // The 1-based line each row starts on. Rows can span several lines when quoted fields contain line breaks.
+  rowLines: number[];
+  errors: CsvParseError[];
+  delimiter: CsvDelimiter;
+}
+
+export interface CsvTokenizer {
+  // Feeds the next chunk of text and returns the rows it completed.
+  write: (chunk: string) => string[][];
+  // Flushes the final row and returns it, if any.
+  end: () => string[][];
+  errors: CsvParseError[];
+  rowLines: number[];
+  getDelimiter: () => CsvDelimiter | undefined;
+}
+
+const CANDIDATE_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+// Delimiter detection waits for the first few lines, but gives up waiting after this many characters.
+const DETECTION_SAMPLE_LINES = 10;
+const MAX_DETECTION_SAMPLE = 64 * 1024;
+
+type TokenizerState =
+  | 'fieldStart'     // At the beginning of a field.
+  | 'unquoted'       // Inside a field that did not start with a quote.
+  | 'quoted'         // Inside a quoted field.
+  | 'quoteInQuoted'  // Just saw a quote inside a quoted field: either an escaped quote or the closing quote.
+  | 'afterQuoted';   // After the closing quote, skipping whitespace until the next delimiter or line break.
+
+// Picks the candidate delimiter that occurs most often outside quotes in the first line that has any of them.
+// Lines without delimiters, such as a title above the header, are skipped.
+export const detectDelimiter = (sample: string): CsvDelimiter => {
+  const counts = new Map<CsvDelimiter, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  const pickBest = (): CsvDelimiter => {
+    let best: CsvDelimiter = ',';
+    for (const delimiter of CANDIDATE_DELIMITERS) {
+      if (counts.get(delimiter)! > counts.get(best)!) {
+        best = delimiter;
+      }
+    }
+    return best;
+  };
+
+  let inQuotes = false;
+  for (const char of sample) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if ([...counts.values()].some(count => count > 0)) {
+        return pickBest();
+      }
+    } else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, counts.get(char as CsvDelimiter)! + 1);
+    }
+  }
+  return pickBest();
+};
+
+// Counts the line breaks outside quotes, to know when enough of the input has arrived for delimiter detection.
+const countCompleteLines = (sample: string): number => {
+  let inQuotes = false;
+  let lines = 0;
+  for (const char of sample) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === '\n') {
+      lines++;
+    }
+  }
+  return lines;
+};
+
+export const createCsvTokenizer = (options: { delimiter?: CsvDelimiter } = {}): CsvTokenizer => {
+  let delimiter = options.delimiter;
+  let detectionBuffer = '';
+  let isFirstChunk = true;
+
+  const errors: CsvParseError[] = [];
+  let state: TokenizerState = 'fieldStart';
+  let field = '';
+  let row: string[] = [];
+  const rowLines: number[] = [];
+  let line = 1;
+  let rowStartLine = 1;
+  let quotedFieldStartLine = 1;
+  // Whitespace after a closing quote, kept in case more text follows and the field turns out to be malformed.
+  let whitespaceAfterQuote = '';
+  // Set after a CR, so that the LF of a CRLF pair is not counted as a second line break.
+  let previousWasCR = false;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const endRow = (completed: string[][]) => {
+    endField();
+    completed.push(row);
+    rowLines.push(rowStartLine);
+    row = [];
+  };
+
+  const consume = (text: string): string[][] => {
+    const completed: string[][] = [];
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (previousWasCR) {
+        previousWasCR = false;
+        if (char === '\n') {
+          continue;
+        }
+      }
+      const isLineBreak = char === '\n' || char === '\r';
+
+      switch (state) {
+        case 'fieldStart':
+        case 'unquoted':
+          if (char === delimiter) {
+            endField();
+            state = 'fieldStart';
+          } else if (isLineBreak) {
+            endRow(completed);
+            state = 'fieldStart';
+          } else if (char === '"') {
+            if (field.trim() === '') {
+              // Whitespace before an opening quote is not part of the field.
+              field = '';
+              state = 'quoted';
+              quotedFieldStartLine = line;
+            } else {
+              errors.push({ line, message: 'Unexpected quote inside an unquoted field.' });
+              field += char;
+              state = 'unquoted';
+            }
+          } else {
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+
+        case 'quoted':
+          if (char === '"') {
+            state = 'quoteInQuoted';
+          } else {
+            // Line breaks inside quotes belong to the field. CRLF is normalized to LF.
+            field += char === '\r' ? '\n' : char;
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === '"') {
+            field += '"';
+            state = 'quoted';
+          } else if (char === delimiter) {
+            endField();
+            state = 'fieldStart';
+          } else if (isLineBreak) {
+            endRow(completed);
+            state = 'fieldStart';
+          } else if (char === ' ' || char === '\t') {
+            whitespaceAfterQuote = char;
+            state = 'afterQuoted';
+          } else {
+            errors.push({ line, message: 'Unexpected character after a closing quote.' });
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+
+        case 'afterQuoted':
+          if (char === delimiter) {
+            endField();
+            state = 'fieldStart';
+          } else if (isLineBreak) {
+            endRow(completed);
+            state = 'fieldStart';
+          } else if (char === ' ' || char === '\t') {
+            whitespaceAfterQuote += char;
+          } else {
+            errors.push({ line, message: 'Unexpected character after a closing quote.' });
+            field += whitespaceAfterQuote + char;
+            state = 'unquoted';
+          }
+          break;
+      }
+
+      if (isLineBreak) {
+        line++;
+        previousWasCR = char === '\r';
+        if (state === 'fieldStart' && row.length === 0) {
+          rowStartLine = line;
+        }
+      }
+    }
+    return completed;
+  };
+
+  const write = (chunk: string): string[][] => {
+    if (isFirstChunk && chunk.length > 0) {
+      isFirstChunk = false;
+      // BOM (Byte Order Mark) can be present in files and cause issues with parsing the first header.
+      if (chunk.charCodeAt(0) === 0xFEFF) {
+        chunk = chunk.substring(1);
+      }
+    }
+    if (delimiter) {
+      return consume(chunk);
+    }
+    detectionBuffer += chunk;
+    if (countCompleteLines(detectionBuffer) < DETECTION_SAMPLE_LINES && detectionBuffer.length < MAX_DETECTION_SAMPLE) {
+      return [];
+    }
+    delimiter = detectDelimiter(detectionBuffer);
+    const buffered = detectionBuffer;
+    detectionBuffer = '';
+    return consume(buffered);
+  };
+
+  const end = (): string[][] => {
+    const completed: string[][] = [];
+    if (!delimiter) {
+      delimiter = detectDelimiter(detectionBuffer);
+      completed.push(...consume(detectionBuffer));
+      detectionBuffer = '';
+    }
+    if (state === 'quoted') {
+      errors.push({ line: quotedFieldStartLine, message: 'Quoted field is never closed.' });
+    }
+    // Input that ends with a line break has no final row to flush.
+    if (state !== 'fieldStart' || field !== '' || row.length > 0) {
+      endRow(completed);
+    }
+    state = 'fieldStart';
+    return completed;
+  };
+
+  return { write, end, errors, rowLines, getDelimiter: () => delimiter };
+};
+
+export const parseCsvText = (text: string, options: { delimiter?: CsvDelimiter } = {}): CsvParseResult => {
+  const tokenizer = createCsvTokenizer(options);
+  const rows = [...tokenizer.write(text), ...tokenizer.end()];
+  return { rows, rowLines: tokenizer.rowLines, errors: tokenizer.errors, delimiter: tokenizer.getDelimiter() || ',' };
+};
+
+// Parses a byte stream, such as a fetch response body, as it arrives.
+export const parseCsvStream = async (stream: ReadableStream<Uint8Array>, options: { delimiter?: CsvDelimiter } = {}): Promise<CsvParseResult> => {
+  const tokenizer = createCsvTokenizer(options);
+  const decoder = new TextDecoder();
+  const reader = stream.getReader();
+  const rows: string[][] = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    rows.push(...tokenizer.write(decoder.decode(value, { stream: true })));
+  }
+  rows.push(...tokenizer.write(decoder.decode()));
+  rows.push(...tokenizer.end());
+  return { rows, rowLines: tokenizer.rowLines, errors: tokenizer.errors, delimiter: tokenizer.getDelimiter() || ',' };
+};
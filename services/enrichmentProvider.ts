@@ -0,0 +1,306 @@
+import { Client, EnrichmentError, EnrichmentErrorCode } from '../types';
+import { EnrichmentResult, extractJsonValue, SchemaIssue, validateEnrichmentResponse } from './enrichmentSchema';
+import { attributeGroundedSources, GroundedSegment, mergeSourceLinks } from './groundingSources';
+import { getActivePromptTemplate, renderPromptTemplate } from './promptTemplates';
+import { parseRetryDelayFromMessage } from './retryAfter';
+
+// The contract every AI service implements, so the app can run, retry and rate-limit lookups without knowing
+// which service it is talking to. Providers are listed in `providerRegistry.ts`.
+
+// What happened to one client of a batch.
+export type EnrichmentOutcome =
+  | { kind: 'result'; result: EnrichmentResult }
+  | { kind: 'error'; error: EnrichmentError };
+
+// The outcome for each client id, in batch order.
+export type EnrichmentResultMap = Map<number, EnrichmentOutcome>;
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export const NO_TOKEN_USAGE: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+// What one `enrichBatch` call produced and what it cost.
+export interface EnrichmentBatch {
+  results: EnrichmentResultMap;
+  // Tokens of every request made for the batch, including repair prompts. Zero when the API does not report usage.
+  usage: TokenUsage;
+  // The model that served the batch, to look up its price.
+  model: string;
+  // Set when the request for the batch failed, so no client got an answer. Every client has this error.
+  batchError?: EnrichmentError;
+  // How long the provider asked to wait before trying again, when the batch was rate limited and it said so.
+  retryAfterMs?: number;
+  // When each answer taken from the result cache was first looked up. Those clients were not sent.
+  cachedAt?: Map<number, string>;
+}
+
+// The provider an error or answer came from.
+export type ProviderIdentity = Pick<EnrichmentProvider, 'id' | 'name'>;
+
+const ERROR_DEFAULTS: Record<EnrichmentErrorCode, { message: string; retryable: boolean }> = {
+  invalid_api_key: { message: 'The API key was rejected.', retryable: false },
+  insufficient_quota: { message: 'The account has no quota left.', retryable: false },
+  rate_limited: { message: 'The rate limit was exceeded.', retryable: true },
+  api_error: { message: 'The API returned an error.', retryable: true },
+  malformed_response: { message: 'The answer did not follow the required format.', retryable: true },
+  no_result: { message: 'The answer had no result for this client.', retryable: true },
+  not_processed: { message: 'The run stopped before this client was sent.', retryable: true },
+};
+
+export const createEnrichmentError = (
+  code: EnrichmentErrorCode,
+  provider: ProviderIdentity,
+  details: { message?: string; status?: number; retryable?: boolean } = {},
+): EnrichmentError => ({
+  code,
+  message: details.message || ERROR_DEFAULTS[code].message,
+  retryable: details.retryable ?? ERROR_DEFAULTS[code].retryable,
+  providerId: provider.id,
+  providerName: provider.name,
+  ...(details.status !== undefined ? { status: details.status } : {}),
+});
+
+// A value the user enters on the setup screen. Each field is stored in the browser under its own key.
+export interface ProviderSettingField {
+  key: string;
+  label: string;
+  storageKey: string;
+  placeholder?: string;
+  // Secrets such as API keys are shown as password inputs.
+  secret?: boolean;
+  // The provider cannot be used until this field has a value.
+  required?: boolean;
+  // Offered as choices while still allowing any value, e.g. known model names.
+  suggestions?: string[];
+  // Only shown on the settings screen, not during setup. Advanced fields are never required.
+  advanced?: boolean;
+}
+
+// Setting values of one provider, keyed by `ProviderSettingField.key`.
+export type ProviderSettingValues = Record<string, string>;
+
+export interface ProviderCapabilities {
+  // Searches the web while answering, rather than relying on what the model already knows.
+  webSearch: boolean;
+  // Offered as a "Find All" button for every client without a city.
+  findAll: boolean;
+  // Offered as a "Retry Failed" button for clients other providers could not resolve.
+  retryFailed: boolean;
+}
+
+export interface ProviderRateLimits {
+  batchSize: number;
+  // Batches sent per minute at most, spaced out evenly. `null` for providers without a request quota.
+  requestsPerMinute: number | null;
+}
+
+export interface EnrichmentProvider {
+  id: string;
+  name: string;
+  settings: ProviderSettingField[];
+  capabilities: ProviderCapabilities;
+  rateLimits: ProviderRateLimits;
+  // Throws if a required setting is missing.
+  init: (settings: ProviderSettingValues) => void;
+  // Never rejects for API failures; those are reported per client in the result map. Rejects with the signal's
+  // reason when the signal is aborted.
+  enrichBatch: (clients: Client[], signal?: AbortSignal) => Promise<EnrichmentBatch>;
+  // Answers a prompt other than a lookup, such as classifying job titles, without searching the web. Throws on
+  // API failures and when the signal is aborted. Left out by providers that cannot.
+  complete?: (prompt: string, signal?: AbortSignal) => Promise<ModelCompletion>;
+}
+
+// The client details sent to the model. The id is echoed back to match results to clients.
+const buildClientPromptData = (clients: Client[]) => {
+  return clients.map(client => {
+    const { id, firstName, lastName, jobTitle, company } = client;
+    const personIdentifier = [firstName, lastName].filter(Boolean).join(' ');
+    let professionalContext = '';
+    if (jobTitle && company) {
+      professionalContext = `${jobTitle} at ${company}`;
+    } else if (jobTitle || company) {
+      professionalContext = jobTitle || company;
+    }
+    return { id, person: personIdentifier, context: professionalContext };
+  });
+};
+
+interface PromptOptions {
+  webSearch: boolean;
+  // Ask for a `sources` array per person. Not needed when search grounding reports the sources.
+  citeSources: boolean;
+}
+
+// The fields each result must have and the JSON format, filled into the template's `{{outputRules}}`.
+const buildOutputRules = (citeSources: boolean): string => {
+  return `FIELD RULES:
+- The 'city' value should be a string like "San Francisco, CA" or "London, UK". If no city can be reliably found, it MUST be the exact string "Not Found".
+- The 'jobTitle' value should be the most current job title found. If no job title can be reliably found, it MUST be an empty string "".
+- The 'confidence' value must be a whole number from 0 to 100 saying how sure you are of the city and job title: 90 or more only when a current, reliable source states them, below 50 when you are guessing from indirect evidence.
+- The 'rationale' value must be one short sentence explaining why you chose this city and job title, e.g. which source states them.${citeSources ? `
+- The 'sources' value must list the web pages that show the city and job title, as objects with a 'url' and a 'title'. Only list pages you actually used; if there are none, it MUST be an empty array [].` : ''}
+
+CRITICAL OUTPUT RULES:
+- Your entire response MUST BE ONLY a single JSON object with one key: "results". The value of "results" must be a JSON array.
+- The array must contain an object for every person from the input.
+- Each object must have the original 'id' (number), the found 'city' (string), the found 'jobTitle' (string), the 'confidence' (number)${citeSources ? `, the 'rationale' (string) and 'sources' (array)` : ` and the 'rationale' (string)`}.
+- DO NOT write any introduction, explanation, or apologies.
+- DO NOT wrap the JSON in markdown backticks or any other formatting.`;
+};
+
+// Fills the prompt template (the active one unless given) for a batch.
+export const buildEnrichmentPrompt = (clients: Client[], { webSearch, citeSources }: PromptOptions, template: string = getActivePromptTemplate().body): string => {
+  const searchInstructions = webSearch
+    ? `1. For each person, use Google Search to find their current professional details. Your primary sources should be professional social media profiles (like LinkedIn) or official company websites.
+2. If an initial, precise search fails (e.g., "John Doe, CEO at ACME Inc"), you MUST try broader searches (e.g., "John Doe ACME Inc LinkedIn"). Be resourceful.`
+    : `1. Use your internal knowledge and search capabilities to find the most likely details for each person. Primary sources should be professional social media profiles or official company websites.
+2. Be resourceful. If a precise search fails, try broader searches.`;
+
+  return renderPromptTemplate(template, {
+    searchInstructions,
+    inputJson: JSON.stringify(buildClientPromptData(clients), null, 2),
+    outputRules: buildOutputRules(citeSources),
+  });
+};
+
+// Asks again for the people whose results were invalid, quoting what was wrong with the previous answer.
+export const buildRepairPrompt = (clients: Client[], issues: SchemaIssue[], options: PromptOptions): string => {
+  return `
+    Your previous answer could not be used because it did not follow the required JSON format:
+    ${issues.map(issue => `- ${issue.message}`).join('\n    ')}
+
+    Answer again for the people below only, following the output rules exactly.
+    ${buildEnrichmentPrompt(clients, options)}
+  `;
+};
+
+// How many times a batch is re-prompted for the ids whose results failed validation.
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface Completion {
+  // The raw answer text.
+  text: string;
+  // Parts of the text and the search results that support them, for providers with search grounding.
+  groundedSegments?: GroundedSegment[];
+  // Tokens the request used, when the API reports them.
+  usage?: TokenUsage;
+}
+
+// The answer to a prompt sent with `EnrichmentProvider.complete`, with the model that served it, to look up its price.
+export interface ModelCompletion {
+  text: string;
+  usage: TokenUsage;
+  model: string;
+}
+
+// Sends a prompt to the provider and returns its answer. Throws on API failures and when the signal is aborted.
+export type CompletionRequest = (prompt: string, signal?: AbortSignal) => Promise<Completion>;
+
+// An HTTP error from a provider's API, with the status and error code it reported, and the wait it asked
+// for when it was rate limited.
+export class ProviderApiError extends Error {
+  status: number;
+  code?: string;
+  retryAfterMs?: number;
+
+  constructor(status: number, message: string, code?: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderApiError';
+    this.status = status;
+    this.code = code;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Runs one batch through `complete`, validates the answer against the shared schema and re-prompts for the
+// failing ids only. API failures are reported for every client still waiting for a result; an aborted signal
+// rejects instead, since the batch was not answered.
+export const runValidatedBatch = async (clients: Client[], complete: CompletionRequest, options: PromptOptions, provider: ProviderIdentity, signal?: AbortSignal): Promise<Omit<EnrichmentBatch, 'model'>> => {
+  const found: EnrichmentResultMap = new Map();
+  const usage: TokenUsage = { ...NO_TOKEN_USAGE };
+  let batchError: EnrichmentError | undefined;
+  let retryAfterMs: number | undefined;
+  let pending = clients;
+  let prompt = buildEnrichmentPrompt(clients, options);
+
+  for (let attempt = 0; pending.length > 0; attempt++) {
+    let completion: Completion;
+    try {
+      completion = await complete(prompt, signal);
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      console.error(`Error calling ${provider.name} API:`, error);
+      const message = error instanceof Error ? error.message : JSON.stringify(error);
+      const apiError = describeProviderError({
+        status: error instanceof ProviderApiError ? error.status : undefined,
+        code: error instanceof ProviderApiError ? error.code : undefined,
+        message,
+      }, provider);
+      pending.forEach(client => found.set(client.id, { kind: 'error', error: apiError }));
+      // Only a failure of the first request leaves the whole batch without answers.
+      if (attempt === 0) {
+        batchError = apiError;
+      }
+      if (apiError.code === 'rate_limited') {
+        retryAfterMs = error instanceof ProviderApiError && error.retryAfterMs !== undefined
+          ? error.retryAfterMs
+          : parseRetryDelayFromMessage(message);
+      }
+      break;
+    }
+
+    usage.inputTokens += completion.usage?.inputTokens || 0;
+    usage.outputTokens += completion.usage?.outputTokens || 0;
+
+    const pendingIds = pending.map(client => client.id);
+    const validation = validateEnrichmentResponse(extractJsonValue(completion.text), pendingIds);
+    const groundedSources = attributeGroundedSources(completion.text, pendingIds, completion.groundedSegments || []);
+    validation.results.forEach((result, id) => {
+      const { sources: citedSources, ...details } = result;
+      const sources = mergeSourceLinks(citedSources, groundedSources.get(id));
+      found.set(id, { kind: 'result', result: { ...details, ...(sources.length > 0 ? { sources } : {}) } });
+    });
+    pending = pending.filter(client => validation.failingIds.includes(client.id));
+    if (pending.length === 0) break;
+
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      console.error(`${provider.name} response still failed validation after ${MAX_REPAIR_ATTEMPTS} repair attempts:`, validation.issues, completion.text);
+      pending.forEach(client => found.set(client.id, {
+        kind: 'error',
+        error: createEnrichmentError(validation.missingIds.includes(client.id) ? 'no_result' : 'malformed_response', provider),
+      }));
+      break;
+    }
+    console.warn(`${provider.name} response failed validation; asking again for ids ${pending.map(client => client.id).join(', ')}.`, validation.issues);
+    prompt = buildRepairPrompt(pending, validation.issues, options);
+  }
+
+  const results: EnrichmentResultMap = new Map(clients.map(client => [
+    client.id,
+    found.get(client.id) ?? { kind: 'error', error: createEnrichmentError('no_result', provider) },
+  ]));
+  return {
+    results,
+    usage,
+    ...(batchError ? { batchError } : {}),
+    ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+  };
+};
+
+// Classifies a failed API call. Other client errors (4xx) will fail the same way again, so only server and
+// network errors count as retryable.
+export const describeProviderError = ({ status, code, message }: { status?: number; code?: string; message: string }, provider: ProviderIdentity): EnrichmentError => {
+  if (code === 'insufficient_quota') {
+    return createEnrichmentError('insufficient_quota', provider, { message, status });
+  }
+  if (status === 401 || /API key not valid|permission_denied|invalid_api_key/i.test(message)) {
+    return createEnrichmentError('invalid_api_key', provider, { message, status });
+  }
+  if (status === 429 || message.includes('429') || message.includes('RESOURCE_EXHAUSTED')) {
+    return createEnrichmentError('rate_limited', provider, { message, status });
+  }
+  return createEnrichmentError('api_error', provider, { message, status, retryable: status === undefined || status >= 500 });
+};
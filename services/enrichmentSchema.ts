@@ -0,0 +1,183 @@
+import { SourceLink } from '../types';
+
+// The response contract shared by all providers:
+// `{"results": [{"id": 1, "city": "...", "jobTitle": "...", "confidence": 80, "rationale": "...", "sources": [...]}]}`.
+// `sources` is only asked of providers that cite pages in their answer rather than through search grounding.
+// Providers with native structured output get `ENRICHMENT_RESPONSE_SCHEMA`; every answer is checked with
+// `validateEnrichmentResponse` regardless, since models without it only follow the prompt.
+
+// JSON Schema in the subset OpenAI's strict `json_schema` mode accepts.
+export const ENRICHMENT_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'The id of the person from the input.' },
+          city: { type: 'string', description: 'Current city, e.g. "London, UK", or "Not Found".' },
+          jobTitle: { type: 'string', description: 'Current job title, or an empty string.' },
+          confidence: { type: 'integer', description: 'How sure the answer is, from 0 (a guess) to 100 (certain).' },
+          rationale: { type: 'string', description: 'One sentence on why this city and job title were chosen.' },
+          sources: {
+            type: 'array',
+            description: 'The pages the city and job title were found on.',
+            items: {
+              type: 'object',
+              properties: {
+                url: { type: 'string' },
+                title: { type: 'string' },
+              },
+              required: ['url', 'title'],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ['id', 'city', 'jobTitle', 'confidence', 'rationale', 'sources'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['results'],
+  additionalProperties: false,
+};
+
+export interface SchemaIssue {
+  // The client the issue belongs to, when the offending item has a usable id.
+  id?: number;
+  message: string;
+}
+
+// A validated result for one person.
+export interface EnrichmentResult {
+  city: string;
+  jobTitle: string;
+  // 0-100, as reported by the model. Answers without one are never flagged for review.
+  confidence?: number;
+  rationale?: string;
+  sources?: SourceLink[];
+}
+
+export interface EnrichmentValidation {
+  results: Map<number, EnrichmentResult>;
+  issues: SchemaIssue[];
+  // Requested ids without a valid result. `missingIds` is the subset the response did not mention at all.
+  failingIds: number[];
+  missingIds: number[];
+}
+
+const stripCodeFence = (text: string): string => {
+  const fenced = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : text;
+};
+
+// Finds the JSON in a model's answer: the whole text, a fenced block, "JSON Lines" (one object per line), or the
+// outermost object or array inside surrounding prose. Returns undefined if none of these parse.
+export const extractJsonValue = (responseText: string): unknown => {
+  const text = stripCodeFence(responseText.trim());
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    // Not a single JSON document; try the looser shapes below.
+  }
+
+  const lines = text.split('\n').filter(line => line.trim() !== '');
+  if (lines.length > 1 && lines.every(line => line.trim().startsWith('{'))) {
+    try {
+      return lines.map(line => JSON.parse(line.trim()));
+    } catch (e) {
+      // One of the lines is not an object on its own, e.g. a pretty-printed object.
+    }
+  }
+
+  // Try whichever of an object or an array starts first, so an array of objects is not cut down to its first object.
+  const shapes = [['{', '}'], ['[', ']']].sort(([openA], [openB]) => {
+    const indexA = text.indexOf(openA);
+    const indexB = text.indexOf(openB);
+    return (indexA === -1 ? Infinity : indexA) - (indexB === -1 ? Infinity : indexB);
+  });
+  for (const [open, close] of shapes) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(text.substring(start, end + 1));
+      } catch (e) {
+        // Try the next shape.
+      }
+    }
+  }
+  return undefined;
+};
+
+// Keeps the usable web links of a `sources` array. A bad link is dropped rather than failing the whole result.
+const toSourceLinks = (sources: unknown[]): SourceLink[] => {
+  return sources.flatMap(source => {
+    const { url, title } = (source || {}) as Record<string, unknown>;
+    if (typeof url !== 'string' || !/^https?:\/\//i.test(url.trim())) {
+      return [];
+    }
+    return [{ url: url.trim(), ...(typeof title === 'string' && title.trim() ? { title: title.trim() } : {}) }];
+  });
+};
+
+// Checks a parsed response against the schema for the ids that were asked for. A bare array is accepted as the
+// `results` array, since models without structured output often drop the wrapper.
+export const validateEnrichmentResponse = (value: unknown, expectedIds: number[]): EnrichmentValidation => {
+  const results = new Map<number, EnrichmentResult>();
+  const issues: SchemaIssue[] = [];
+  const mentionedIds = new Set<number>();
+
+  const items = Array.isArray(value) ? value : (value as { results?: unknown } | null)?.results;
+  if (!Array.isArray(items)) {
+    issues.push({ message: value === undefined ? 'The response is not valid JSON.' : 'The response must be a JSON object with a "results" array.' });
+    return { results, issues, failingIds: [...expectedIds], missingIds: [...expectedIds] };
+  }
+
+  items.forEach((item, index) => {
+    const path = `results[${index}]`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      issues.push({ message: `${path} must be an object.` });
+      return;
+    }
+    const { id, city, jobTitle, confidence, rationale, sources } = item as Record<string, unknown>;
+    if (typeof id !== 'number' || !Number.isInteger(id)) {
+      issues.push({ message: `${path}.id must be an integer, got ${JSON.stringify(id)}.` });
+      return;
+    }
+    if (!expectedIds.includes(id)) {
+      issues.push({ message: `${path}.id ${id} was not in the input.` });
+      return;
+    }
+    mentionedIds.add(id);
+    if (results.has(id)) {
+      issues.push({ id, message: `id ${id} appears more than once.` });
+      return;
+    }
+    const fieldIssues: string[] = [];
+    if (typeof city !== 'string') fieldIssues.push(`"city" must be a string, got ${JSON.stringify(city)}`);
+    if (typeof jobTitle !== 'string') fieldIssues.push(`"jobTitle" must be a string, got ${JSON.stringify(jobTitle)}`);
+    if (confidence !== undefined && (typeof confidence !== 'number' || confidence < 0 || confidence > 100)) fieldIssues.push(`"confidence" must be a number from 0 to 100, got ${JSON.stringify(confidence)}`);
+    if (rationale !== undefined && typeof rationale !== 'string') fieldIssues.push(`"rationale" must be a string, got ${JSON.stringify(rationale)}`);
+    if (sources !== undefined && !Array.isArray(sources)) fieldIssues.push(`"sources" must be an array, got ${JSON.stringify(sources)}`);
+    if (fieldIssues.length > 0) {
+      issues.push({ id, message: `id ${id}: ${fieldIssues.join('; ')}.` });
+      return;
+    }
+    results.set(id, {
+      city: (city as string).trim() || 'Not Found',
+      jobTitle: (jobTitle as string).trim(),
+      ...(typeof confidence === 'number' ? { confidence: Math.round(confidence) } : {}),
+      ...(typeof rationale === 'string' && rationale.trim() ? { rationale: rationale.trim() } : {}),
+      ...(Array.isArray(sources) ? { sources: toSourceLinks(sources) } : {}),
+    });
+  });
+
+  const missingIds = expectedIds.filter(id => !mentionedIds.has(id));
+  missingIds.forEach(id => issues.push({ id, message: `id ${id} has no result.` }));
+
+  // An id that was answered once validly and once invalidly keeps its valid answer.
+  const failingIds = expectedIds.filter(id => !results.has(id));
+  return { results, issues: issues.filter(issue => issue.id === undefined || failingIds.includes(issue.id)), failingIds, missingIds };
+};
@@ -0,0 +1,172 @@
+import { Client } from '../types';
+import { JOB_FUNCTION_LABELS, SENIORITY_LABELS } from './titleClassifier';
+
+const formatCsvField = (field: string) => {
+  const str = String(field || '');
+  if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+};
+
+// Columns used for clients that do not carry their original row.
+const BASE_SOURCE_HEADERS = ["Client first name", "Client second name", "Job Title", "Company"];
+
+interface ExportColumn {
+  header: string;
+  getValue: (client: Client) => string;
+  // Optional columns are only written when at least one client has a value for them.
+  optional?: boolean;
+}
+
+// Columns added by this app, written after the source columns.
+const ENRICHED_COLUMNS: ExportColumn[] = [
+  { header: "Identified City", getValue: client => client.city },
+  { header: "Identified Job Title", getValue: client => client.jobTitle },
+  { header: "Seniority", getValue: client => client.titleClassification?.seniority ? SENIORITY_LABELS[client.titleClassification.seniority] : '', optional: true },
+  { header: "Job Function", getValue: client => client.titleClassification?.jobFunction ? JOB_FUNCTION_LABELS[client.titleClassification.jobFunction] : '', optional: true },
+  { header: "City (Normalized)", getValue: client => client.location?.city || '', optional: true },
+  { header: "Region", getValue: client => client.location?.region || '', optional: true },
+  { header: "Country Code", getValue: client => client.location?.countryCode || '', optional: true },
+  { header: "Latitude", getValue: client => client.location ? String(client.location.latitude) : '', optional: true },
+  { header: "Longitude", getValue: client => client.location ? String(client.location.longitude) : '', optional: true },
+  { header: "Time Zone", getValue: client => client.location?.timeZone || '', optional: true },
+  { header: "Location Unresolved", getValue: client => client.locationUnresolved ? 'Yes' : '', optional: true },
+  { header: "Sheet Tab", getValue: client => client.sourceTab || '', optional: true },
+  { header: "City Verification", getValue: client => client.verification?.status || '', optional: true },
+  { header: "Previous City", getValue: client => client.verification?.status === 'changed' ? client.verification.previousCity : '', optional: true },
+  { header: "Confidence", getValue: client => client.confidence !== undefined ? String(client.confidence) : '', optional: true },
+  { header: "Needs Review", getValue: client => client.cityStatus === 'needs_review' ? 'Yes' : '', optional: true },
+  {
+    header: "Disputed Candidates",
+    getValue: client => client.cityStatus === 'disputed' ? (client.consensusCandidates || []).map(c => `${c.providerName}: ${c.city}`).join('; ') : '',
+    optional: true,
+  },
+  // Errors are kept out of the city column, so it only ever holds a city.
+  { header: "Lookup Error", getValue: client => client.cityStatus === 'error' && client.error ? `${client.error.providerName}: ${client.error.message}` : '', optional: true },
+  { header: "Rationale", getValue: client => client.rationale || '', optional: true },
+  { header: "Sources", getValue: client => (client.sources || []).map(source => source.url).join(' '), optional: true },
+];
+
+const getSourceRow = (client: Client): { headers: string[]; values: string[] } => {
+  return client.sourceRow || {
+    headers: BASE_SOURCE_HEADERS,
+    values: [client.firstName, client.lastName, client.jobTitle, client.company],
+  };
+};
+
+// A source column is identified by its header and which occurrence of that header it is,
+// so sheets with repeated headers keep every column.
+interface SourceColumn {
+  header: string;
+  occurrence: number;
+}
+
+const findColumnIndex = (headers: string[], column: SourceColumn): number => {
+  let seen = 0;
+  for (let i = 0; i < headers.length; i++) {
+    if (headers[i] === column.header && seen++ === column.occurrence) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Collects the source columns of all clients in their original order. Tables with different layouts are merged
+// by header name, with columns that only some tables have appended in order of first appearance.
+const getSourceColumns = (clients: Client[]): SourceColumn[] => {
+  const columns: SourceColumn[] = [];
+  const seenHeaderArrays = new Set<string[]>();
+  for (const client of clients) {
+    const { headers } = getSourceRow(client);
+    if (seenHeaderArrays.has(headers)) continue;
+    seenHeaderArrays.add(headers);
+
+    const occurrences = new Map<string, number>();
+    for (const header of headers) {
+      const occurrence = occurrences.get(header) || 0;
+      occurrences.set(header, occurrence + 1);
+      if (!columns.some(c => c.header === header && c.occurrence === occurrence)) {
+        columns.push({ header, occurrence });
+      }
+    }
+  }
+  return columns;
+};
+
+// Writes every source column with its original value, followed by the enriched columns. When the source already
+// has a column with an enriched column's name (e.g. "Identified City"), the enriched value is written there instead
+// of adding a duplicate column.
+export const buildClientsCsv = (clients: Client[]): string => {
+  const sourceColumns = getSourceColumns(clients);
+  const enrichedColumns = ENRICHED_COLUMNS.filter(column =>
+    !column.optional || clients.some(client => column.getValue(client))
+  );
+
+  const normalize = (header: string) => header.trim().toLowerCase();
+  const enrichedBySourceHeader = new Map<SourceColumn, ExportColumn>();
+  const appendedColumns: ExportColumn[] = [];
+  for (const enrichedColumn of enrichedColumns) {
+    const matchingSourceColumn = sourceColumns.find(c => c.occurrence === 0 && normalize(c.header) === normalize(enrichedColumn.header));
+    if (matchingSourceColumn) {
+      enrichedBySourceHeader.set(matchingSourceColumn, enrichedColumn);
+    } else {
+      appendedColumns.push(enrichedColumn);
+    }
+  }
+
+  const headers = [...sourceColumns.map(c => c.header), ...appendedColumns.map(c => c.header)];
+
+  const csvRows = [
+    headers.map(formatCsvField).join(','),
+    ...clients.map(client => {
+      const sourceRow = getSourceRow(client);
+      const sourceValues = sourceColumns.map(column => {
+        const enrichedColumn = enrichedBySourceHeader.get(column);
+        if (enrichedColumn) {
+          return enrichedColumn.getValue(client);
+        }
+        const index = findColumnIndex(sourceRow.headers, column);
+        return index === -1 ? '' : sourceRow.values[index] || '';
+      });
+      const appendedValues = appendedColumns.map(column => column.getValue(client));
+      return [...sourceValues, ...appendedValues].map(formatCsvField).join(',');
+    })
+  ];
+
+  return csvRows.join('\n');
+};
+
+// Groups clients by the tab they came from, keeping the order in which tabs first appear.
+export const groupClientsByTab = (clients: Client[]): Map<string, Client[]> => {
+  const groups = new Map<string, Client[]>();
+  for (const client of clients) {
+    const tab = client.sourceTab || '';
+    const group = groups.get(tab);
+    if (group) {
+      group.push(client);
+    } else {
+      groups.set(tab, [client]);
+    }
+  }
+  return groups;
+};
+
+// Turns a tab label into something safe to use in a file name.
+export const toFileNameSegment = (label: string): string => {
+  return label.trim().replace(/[^a-z0-9-_]+/gi, '_').replace(/^_+|_+$/g, '') || 'untitled';
+};
+
+export const downloadCsv = (csvString: string, fileName: string) => {
+  const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+};
@@ -0,0 +1,44 @@
+import * as XLSX from 'xlsx';
+import { SheetTable } from '../types';
+import { parseCSV } from './googleSheetService';
+
+export const SUPPORTED_FILE_EXTENSIONS = ['.csv', '.xlsx'];
+
+const getFileExtension = (fileName: string): string => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex === -1 ? '' : fileName.substring(dotIndex).toLowerCase();
+};
+
+export const isSupportedFile = (file: File): boolean => {
+  return SUPPORTED_FILE_EXTENSIONS.includes(getFileExtension(file.name));
+};
+
+// Converts the first worksheet of an XLSX workbook to CSV so it can go through the same parser as the Google Sheet export.
+const convertXlsxToCsv = (buffer: ArrayBuffer): string => {
+  const workbook = XLSX.read(buffer, { type: 'array' });
+  const firstSheetName = workbook.SheetNames[0];
+  if (!firstSheetName) {
+    throw new Error('The workbook does not contain any sheets.');
+  }
+  return XLSX.utils.sheet_to_csv(workbook.Sheets[firstSheetName], { blankrows: false });
+};
+
+// Reads a local file into a raw table. Use `mapTablesToClients` to turn it into clients.
+export const parseClientFile = async (file: File): Promise<SheetTable> => {
+  const extension = getFileExtension(file.name);
+
+  let csvText: string;
+  if (extension === '.csv') {
+    csvText = await file.text();
+  } else if (extension === '.xlsx') {
+    csvText = convertXlsxToCsv(await file.arrayBuffer());
+  } else {
+    throw new Error(`Unsupported file type "${extension || file.name}". Please use a ${SUPPORTED_FILE_EXTENSIONS.join(' or ')} file.`);
+  }
+
+  if (!csvText || csvText.trim().length === 0) {
+    throw new Error(`The file "${file.name}" is empty.`);
+  }
+
+  return parseCSV(csvText);
+};
@@ -0,0 +1,149 @@
+import { Client, CityLocation } from '../types';
+import { normalizeCityName } from './cityMatching';
+import { GAZETTEER_CITIES, GAZETTEER_COUNTRIES, GAZETTEER_REGIONS, GazetteerCity } from './gazetteerData';
+import { getTimeZone } from './timeZones';
+
+// Resolves the free-text city an AI returns, such as "SF", "Austin TX" or "Greater London Area", against the
+// bundled gazetteer, so every found city can be exported as the same structured place.
+
+// Words around a city name that describe its surroundings rather than name another place.
+const AREA_PREFIXES = /^(greater|city of|metro|metropolitan) /;
+const AREA_SUFFIXES = / (metropolitan area|metropolitan region|metro area|area|metro|region)$/;
+
+interface GazetteerIndex {
+  citiesByName: Map<string, GazetteerCity[]>;
+  // Every name and code a qualifier may use for a country, keyed by country code.
+  countryNames: Map<string, Set<string>>;
+  // Every name and code a qualifier may use for a region, keyed by `<country code>|<region>` as the cities list it.
+  regionNames: Map<string, Set<string>>;
+  regionDisplayNames: Map<string, string>;
+  // All country and region names, so qualifiers that name no known place can be ignored.
+  knownQualifiers: Set<string>;
+}
+
+let index: GazetteerIndex | undefined;
+
+// Built on first use, since most sessions never resolve a city.
+const getIndex = (): GazetteerIndex => {
+  if (index) return index;
+  const built: GazetteerIndex = {
+    citiesByName: new Map(),
+    countryNames: new Map(),
+    regionNames: new Map(),
+    regionDisplayNames: new Map(),
+    knownQualifiers: new Set(),
+  };
+  const addNames = (names: Map<string, Set<string>>, key: string, values: string[]) => {
+    const normalized = values.map(normalizeCityName);
+    names.set(key, new Set([...(names.get(key) || []), ...normalized]));
+    normalized.forEach(name => built.knownQualifiers.add(name));
+  };
+
+  for (const [code, name, aliases] of GAZETTEER_COUNTRIES) {
+    addNames(built.countryNames, code, [code, name, ...aliases]);
+  }
+  for (const [countryCode, regions] of Object.entries(GAZETTEER_REGIONS)) {
+    for (const [code, name, aliases] of regions) {
+      addNames(built.regionNames, `${countryCode}|${code}`, [code, name, ...aliases]);
+      built.regionDisplayNames.set(`${countryCode}|${code}`, name);
+    }
+  }
+  for (const city of GAZETTEER_CITIES) {
+    const [name, alternates, region, countryCode] = city;
+    const regionKey = `${countryCode}|${region}`;
+    if (!built.regionNames.has(regionKey)) {
+      addNames(built.regionNames, regionKey, [region]);
+      built.regionDisplayNames.set(regionKey, region);
+    }
+    for (const cityName of new Set([name, ...alternates].map(normalizeCityName))) {
+      built.citiesByName.set(cityName, [...(built.citiesByName.get(cityName) || []), city]);
+    }
+  }
+  index = built;
+  return built;
+};
+
+const matchesQualifier = (city: GazetteerCity, qualifier: string, gazetteer: GazetteerIndex): boolean => {
+  const [, , region, countryCode] = city;
+  return !!gazetteer.countryNames.get(countryCode)?.has(qualifier) || !!gazetteer.regionNames.get(`${countryCode}|${region}`)?.has(qualifier);
+};
+
+// Picks the city a name refers to. Qualifiers naming a known country or region must all fit; when the name
+// still fits several cities, the largest is the one meant, the way "Paris" means the one in France.
+const findCity = (name: string, qualifiers: string[], gazetteer: GazetteerIndex): GazetteerCity | undefined => {
+  const names = [name, name.replace(AREA_PREFIXES, '').replace(AREA_SUFFIXES, '')];
+  const candidates = names.flatMap(candidate => gazetteer.citiesByName.get(candidate) || []);
+  const knownQualifiers = qualifiers.filter(qualifier => gazetteer.knownQualifiers.has(qualifier));
+  const matching = candidates.filter(city => knownQualifiers.every(qualifier => matchesQualifier(city, qualifier, gazetteer)));
+  return matching.reduce<GazetteerCity | undefined>((largest, city) => (!largest || city[6] > largest[6] ? city : largest), undefined);
+};
+
+// Returns undefined when the value names no city in the gazetteer, or a country or region the city is not in.
+export const resolveCity = (value: string): CityLocation | undefined => {
+  const gazetteer = getIndex();
+  // Postal codes are dropped, since the gazetteer has none.
+  const parts = value.split(',')
+    .map(part => normalizeCityName(part).split(' ').filter(word => !/\d/.test(word)).join(' '))
+    .filter(part => part !== '');
+  if (parts.length === 0) return undefined;
+
+  let city = findCity(parts[0], parts.slice(1), gazetteer);
+  // Without commas, the region or country may trail the city name, as in "Austin TX" or "Paris France". Only a
+  // known trailing place counts, so "New York Mills" does not become New York.
+  const words = parts[0].split(' ');
+  for (let split = 1; !city && parts.length === 1 && split <= 2 && split < words.length; split++) {
+    const qualifier = words.slice(-split).join(' ');
+    if (gazetteer.knownQualifiers.has(qualifier)) {
+      city = findCity(words.slice(0, -split).join(' '), [qualifier], gazetteer);
+    }
+  }
+  if (!city) return undefined;
+
+  const [name, , region, countryCode, latitude, longitude] = city;
+  const regionName = gazetteer.regionDisplayNames.get(`${countryCode}|${region}`) || region;
+  return { city: name, region: regionName, countryCode, latitude, longitude, timeZone: getTimeZone(countryCode, regionName) };
+};
+
+// The countries and regions the qualifiers after a city name can refer to, as country codes and
+// `<country code>|<region>` keys. Either is undefined when no qualifier narrows it down. A qualifier that can also
+// name a country, such as "CA", does not narrow down the region.
+const getQualifiedPlaces = (qualifiers: string[], gazetteer: GazetteerIndex): { countries?: Set<string>; regions?: Set<string> } => {
+  let countries: Set<string> | undefined;
+  let regions: Set<string> | undefined;
+  for (const qualifier of qualifiers) {
+    const countryCodes = [...gazetteer.countryNames].filter(([, names]) => names.has(qualifier)).map(([code]) => code);
+    const regionKeys = [...gazetteer.regionNames].filter(([, names]) => names.has(qualifier)).map(([key]) => key);
+    const named = new Set([...countryCodes, ...regionKeys.map(key => key.split('|')[0])]);
+    if (named.size === 0) continue;
+    countries = countries ? new Set([...countries].filter(code => named.has(code))) : named;
+    if (countryCodes.length === 0) {
+      regions = regions ? new Set(regionKeys.filter(key => regions!.has(key))) : new Set(regionKeys);
+    }
+  }
+  return { countries, regions };
+};
+
+const overlaps = (a: Set<string> | undefined, b: Set<string> | undefined): boolean =>
+  !a || !b || [...a].some(value => b.has(value));
+
+// Loose comparison of free-text city answers, so that "San Francisco, CA" and "san francisco, California"
+// count as the same place while "San Jose, CA" and "Portland, ME" next to "Portland, OR" do not. The region and
+// country only count when both answers name one, since they are often left out.
+export const isSameCity = (a: string, b: string): boolean => {
+  const [leftCity, ...leftQualifiers] = normalizeCityName(a).split(',').map(part => part.trim());
+  const [rightCity, ...rightQualifiers] = normalizeCityName(b).split(',').map(part => part.trim());
+  if (leftCity === '' || leftCity !== rightCity) return false;
+  const gazetteer = getIndex();
+  const left = getQualifiedPlaces(leftQualifiers, gazetteer);
+  const right = getQualifiedPlaces(rightQualifiers, gazetteer);
+  return overlaps(left.countries, right.countries) && overlaps(left.regions, right.regions);
+};
+
+// Recomputes the structured location of a client's city. Rows with a city the gazetteer does not know are
+// flagged, so they can be checked by hand; rows without a city are not.
+export const withResolvedLocation = (client: Client): Client => {
+  const city = client.city.trim();
+  const hasCity = city !== '' && city.toLowerCase() !== 'not found';
+  const location = hasCity ? resolveCity(city) : undefined;
+  return { ...client, location, locationUnresolved: hasCity && !location ? true : undefined };
+};
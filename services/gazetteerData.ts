@@ -0,0 +1,364 @@
+// The offline gazetteer behind city normalization: major business cities in the fields of the GeoNames cities
+// files (https://www.geonames.org). Add a row to make another city resolvable.
+
+// [ISO 3166-1 alpha-2 code, name, other names]
+export type GazetteerCountry = [string, string, string[]];
+
+// Regions are only listed for countries whose answers usually name them by code, e.g. "Austin, TX".
+// [code, name, other names]
+export type GazetteerRegion = [string, string, string[]];
+
+// [name, other names, region code or name, country code, latitude, longitude, population]
+export type GazetteerCity = [string, string[], string, string, number, number, number];
+
+export const GAZETTEER_COUNTRIES: GazetteerCountry[] = [
+  ['US', 'United States', ['USA', 'U.S.', 'U.S.A.', 'United States of America', 'America']],
+  ['CA', 'Canada', []],
+  ['MX', 'Mexico', ['México']],
+  ['BR', 'Brazil', ['Brasil']],
+  ['AR', 'Argentina', []],
+  ['CL', 'Chile', []],
+  ['CO', 'Colombia', []],
+  ['PE', 'Peru', ['Perú']],
+  ['GB', 'United Kingdom', ['UK', 'U.K.', 'Great Britain', 'Britain']],
+  ['IE', 'Ireland', ['Republic of Ireland']],
+  ['FR', 'France', []],
+  ['DE', 'Germany', ['Deutschland']],
+  ['NL', 'Netherlands', ['The Netherlands', 'Holland']],
+  ['BE', 'Belgium', ['Belgique', 'België']],
+  ['LU', 'Luxembourg', []],
+  ['CH', 'Switzerland', ['Schweiz', 'Suisse']],
+  ['AT', 'Austria', ['Österreich']],
+  ['ES', 'Spain', ['España']],
+  ['PT', 'Portugal', []],
+  ['IT', 'Italy', ['Italia']],
+  ['DK', 'Denmark', ['Danmark']],
+  ['SE', 'Sweden', ['Sverige']],
+  ['NO', 'Norway', ['Norge']],
+  ['FI', 'Finland', ['Suomi']],
+  ['PL', 'Poland', ['Polska']],
+  ['CZ', 'Czechia', ['Czech Republic']],
+  ['HU', 'Hungary', []],
+  ['RO', 'Romania', []],
+  ['GR', 'Greece', []],
+  ['TR', 'Turkey', ['Türkiye', 'Turkiye']],
+  ['IL', 'Israel', []],
+  ['AE', 'United Arab Emirates', ['UAE', 'U.A.E.']],
+  ['SA', 'Saudi Arabia', ['KSA']],
+  ['QA', 'Qatar', []],
+  ['EG', 'Egypt', []],
+  ['ZA', 'South Africa', []],
+  ['NG', 'Nigeria', []],
+  ['KE', 'Kenya', []],
+  ['MA', 'Morocco', []],
+  ['IN', 'India', []],
+  ['PK', 'Pakistan', []],
+  ['BD', 'Bangladesh', []],
+  ['SG', 'Singapore', []],
+  ['MY', 'Malaysia', []],
+  ['TH', 'Thailand', []],
+  ['VN', 'Vietnam', ['Viet Nam']],
+  ['ID', 'Indonesia', []],
+  ['PH', 'Philippines', []],
+  ['CN', 'China', ["People's Republic of China", 'PRC']],
+  ['HK', 'Hong Kong', ['Hong Kong SAR']],
+  ['TW', 'Taiwan', []],
+  ['JP', 'Japan', []],
+  ['KR', 'South Korea', ['Korea', 'Republic of Korea']],
+  ['AU', 'Australia', []],
+  ['NZ', 'New Zealand', []],
+  ['RU', 'Russia', ['Russian Federation']],
+  ['UA', 'Ukraine', []],
+  ['EE', 'Estonia', []],
+  ['LV', 'Latvia', []],
+  ['LT', 'Lithuania', []],
+];
+
+export const GAZETTEER_REGIONS: Record<string, GazetteerRegion[]> = {
+  US: [
+    ['AL', 'Alabama', []], ['AK', 'Alaska', []], ['AZ', 'Arizona', []], ['AR', 'Arkansas', []], ['CA', 'California', ['Calif']],
+    ['CO', 'Colorado', []], ['CT', 'Connecticut', []], ['DE', 'Delaware', []], ['DC', 'District of Columbia', ['D.C.']],
+    ['FL', 'Florida', []], ['GA', 'Georgia', []], ['HI', 'Hawaii', []], ['ID', 'Idaho', []], ['IL', 'Illinois', []],
+    ['IN', 'Indiana', []], ['IA', 'Iowa', []], ['KS', 'Kansas', []], ['KY', 'Kentucky', []], ['LA', 'Louisiana', []],
+    ['ME', 'Maine', []], ['MD', 'Maryland', []], ['MA', 'Massachusetts', ['Mass']], ['MI', 'Michigan', []],
+    ['MN', 'Minnesota', []], ['MS', 'Mississippi', []], ['MO', 'Missouri', []], ['MT', 'Montana', []],
+    ['NE', 'Nebraska', []], ['NV', 'Nevada', []], ['NH', 'New Hampshire', []], ['NJ', 'New Jersey', []],
+    ['NM', 'New Mexico', []], ['NY', 'New York', []], ['NC', 'North Carolina', []], ['ND', 'North Dakota', []],
+    ['OH', 'Ohio', []], ['OK', 'Oklahoma', []], ['OR', 'Oregon', []], ['PA', 'Pennsylvania', []],
+    ['RI', 'Rhode Island', []], ['SC', 'South Carolina', []], ['SD', 'South Dakota', []], ['TN', 'Tennessee', []],
+    ['TX', 'Texas', []], ['UT', 'Utah', []], ['VT', 'Vermont', []], ['VA', 'Virginia', []], ['WA', 'Washington', []],
+    ['WV', 'West Virginia', []], ['WI', 'Wisconsin', []], ['WY', 'Wyoming', []],
+  ],
+  CA: [
+    ['AB', 'Alberta', []], ['BC', 'British Columbia', []], ['MB', 'Manitoba', []], ['NB', 'New Brunswick', []],
+    ['NL', 'Newfoundland and Labrador', []], ['NS', 'Nova Scotia', []], ['ON', 'Ontario', []],
+    ['PE', 'Prince Edward Island', []], ['QC', 'Quebec', ['Québec']], ['SK', 'Saskatchewan', []],
+  ],
+  AU: [
+    ['NSW', 'New South Wales', []], ['VIC', 'Victoria', []], ['QLD', 'Queensland', []], ['WA', 'Western Australia', []],
+    ['SA', 'South Australia', []], ['TAS', 'Tasmania', []], ['ACT', 'Australian Capital Territory', []], ['NT', 'Northern Territory', []],
+  ],
+  GB: [
+    ['ENG', 'England', []], ['SCT', 'Scotland', []], ['WLS', 'Wales', []], ['NIR', 'Northern Ireland', []],
+  ],
+  IN: [
+    ['MH', 'Maharashtra', []], ['DL', 'Delhi', ['NCR']], ['KA', 'Karnataka', []], ['TG', 'Telangana', []],
+    ['TN', 'Tamil Nadu', []], ['WB', 'West Bengal', []], ['HR', 'Haryana', []], ['UP', 'Uttar Pradesh', []], ['GJ', 'Gujarat', []],
+  ],
+  DE: [
+    ['BE', 'Berlin', []], ['HH', 'Hamburg', []], ['BY', 'Bavaria', ['Bayern']], ['NW', 'North Rhine-Westphalia', ['Nordrhein-Westfalen', 'NRW']],
+    ['HE', 'Hesse', ['Hessen']], ['BW', 'Baden-Württemberg', []], ['SN', 'Saxony', ['Sachsen']],
+  ],
+};
+
+export const GAZETTEER_CITIES: GazetteerCity[] = [
+  // United States
+  ['New York', ['New York City', 'NYC', 'Manhattan', 'Brooklyn', 'Queens', 'The Bronx'], 'NY', 'US', 40.7128, -74.006, 8336817],
+  ['Los Angeles', ['LA', 'L.A.'], 'CA', 'US', 34.0522, -118.2437, 3898747],
+  ['Chicago', ['Chicagoland'], 'IL', 'US', 41.8781, -87.6298, 2746388],
+  ['Houston', [], 'TX', 'US', 29.7604, -95.3698, 2304580],
+  ['Phoenix', [], 'AZ', 'US', 33.4484, -112.074, 1608139],
+  ['Philadelphia', ['Philly'], 'PA', 'US', 39.9526, -75.1652, 1603797],
+  ['San Antonio', [], 'TX', 'US', 29.4241, -98.4936, 1434625],
+  ['San Diego', [], 'CA', 'US', 32.7157, -117.1611, 1386932],
+  ['Dallas', ['Dallas-Fort Worth', 'DFW'], 'TX', 'US', 32.7767, -96.797, 1304379],
+  ['San Jose', ['San José'], 'CA', 'US', 37.3382, -121.8863, 1013240],
+  ['Austin', [], 'TX', 'US', 30.2672, -97.7431, 961855],
+  ['Jacksonville', [], 'FL', 'US', 30.3322, -81.6557, 949611],
+  ['Fort Worth', [], 'TX', 'US', 32.7555, -97.3308, 918915],
+  ['Columbus', [], 'OH', 'US', 39.9612, -82.9988, 905748],
+  ['Indianapolis', [], 'IN', 'US', 39.7684, -86.1581, 887642],
+  ['Charlotte', [], 'NC', 'US', 35.2271, -80.8431, 874579],
+  ['San Francisco', ['SF', 'San Francisco Bay Area', 'SF Bay Area', 'Bay Area'], 'CA', 'US', 37.7749, -122.4194, 873965],
+  ['Seattle', [], 'WA', 'US', 47.6062, -122.3321, 737015],
+  ['Denver', [], 'CO', 'US', 39.7392, -104.9903, 715522],
+  ['Washington', ['Washington DC', 'Washington D.C.', 'DC', 'D.C.'], 'DC', 'US', 38.9072, -77.0369, 689545],
+  ['Nashville', [], 'TN', 'US', 36.1627, -86.7816, 689447],
+  ['Oklahoma City', [], 'OK', 'US', 35.4676, -97.5164, 681054],
+  ['Boston', [], 'MA', 'US', 42.3601, -71.0589, 675647],
+  ['Portland', [], 'OR', 'US', 45.5152, -122.6784, 652503],
+  ['Las Vegas', [], 'NV', 'US', 36.1699, -115.1398, 641903],
+  ['Detroit', [], 'MI', 'US', 42.3314, -83.0458, 639111],
+  ['Memphis', [], 'TN', 'US', 35.1495, -90.049, 633104],
+  ['Louisville', [], 'KY', 'US', 38.2527, -85.7585, 617638],
+  ['Baltimore', [], 'MD', 'US', 39.2904, -76.6122, 585708],
+  ['Milwaukee', [], 'WI', 'US', 43.0389, -87.9065, 577222],
+  ['Albuquerque', [], 'NM', 'US', 35.0844, -106.6504, 564559],
+  ['Tucson', [], 'AZ', 'US', 32.2226, -110.9747, 542629],
+  ['Sacramento', [], 'CA', 'US', 38.5816, -121.4944, 524943],
+  ['Kansas City', [], 'MO', 'US', 39.0997, -94.5786, 508090],
+  ['Atlanta', [], 'GA', 'US', 33.749, -84.388, 498715],
+  ['Omaha', [], 'NE', 'US', 41.2565, -95.9345, 486051],
+  ['Raleigh', [], 'NC', 'US', 35.7796, -78.6382, 467665],
+  ['Miami', [], 'FL', 'US', 25.7617, -80.1918, 442241],
+  ['Oakland', [], 'CA', 'US', 37.8044, -122.2712, 440646],
+  ['Minneapolis', [], 'MN', 'US', 44.9778, -93.265, 429954],
+  ['Tampa', [], 'FL', 'US', 27.9506, -82.4572, 384959],
+  ['New Orleans', ['NOLA'], 'LA', 'US', 29.9511, -90.0715, 383997],
+  ['Cleveland', [], 'OH', 'US', 41.4993, -81.6944, 372624],
+  ['Honolulu', [], 'HI', 'US', 21.3069, -157.8583, 350964],
+  ['Newark', [], 'NJ', 'US', 40.7357, -74.1724, 311549],
+  ['Cincinnati', [], 'OH', 'US', 39.1031, -84.512, 309317],
+  ['Irvine', [], 'CA', 'US', 33.6846, -117.8265, 307670],
+  ['Orlando', [], 'FL', 'US', 28.5383, -81.3792, 307573],
+  ['Pittsburgh', [], 'PA', 'US', 40.4406, -79.9959, 302971],
+  ['St. Louis', ['Saint Louis'], 'MO', 'US', 38.627, -90.1994, 301578],
+  ['Jersey City', [], 'NJ', 'US', 40.7178, -74.0431, 292449],
+  ['Anchorage', [], 'AK', 'US', 61.2181, -149.9003, 291247],
+  ['Plano', [], 'TX', 'US', 33.0198, -96.6989, 285494],
+  ['Durham', [], 'NC', 'US', 35.994, -78.8986, 283506],
+  ['Buffalo', [], 'NY', 'US', 42.8864, -78.8784, 278349],
+  ['Madison', [], 'WI', 'US', 43.0731, -89.4012, 269840],
+  ['Scottsdale', [], 'AZ', 'US', 33.4942, -111.9261, 241361],
+  ['Arlington', [], 'VA', 'US', 38.8816, -77.091, 238643],
+  ['Richmond', [], 'VA', 'US', 37.5407, -77.436, 226610],
+  ['Salt Lake City', ['SLC'], 'UT', 'US', 40.7608, -111.891, 199723],
+  ['Providence', [], 'RI', 'US', 41.824, -71.4128, 190934],
+  ['Sunnyvale', [], 'CA', 'US', 37.3688, -122.0363, 155805],
+  ['Bellevue', [], 'WA', 'US', 47.6101, -122.2015, 151854],
+  ['Stamford', [], 'CT', 'US', 41.0534, -73.5387, 135470],
+  ['Santa Clara', [], 'CA', 'US', 37.3541, -121.9552, 127647],
+  ['Hartford', [], 'CT', 'US', 41.7658, -72.6734, 121054],
+  ['Cambridge', [], 'MA', 'US', 42.3736, -71.1097, 118403],
+  ['Boulder', [], 'CO', 'US', 40.015, -105.2705, 108250],
+  ['Mountain View', [], 'CA', 'US', 37.3861, -122.0839, 82376],
+  ['Redmond', [], 'WA', 'US', 47.674, -122.1215, 73256],
+  ['Palo Alto', [], 'CA', 'US', 37.4419, -122.143, 68572],
+  ['Greenwich', [], 'CT', 'US', 41.0262, -73.6282, 63518],
+  ['Cupertino', [], 'CA', 'US', 37.323, -122.0322, 60381],
+  ['Menlo Park', [], 'CA', 'US', 37.453, -122.1817, 33780],
+  // Canada
+  ['Toronto', ['GTA', 'Greater Toronto Area'], 'ON', 'CA', 43.6532, -79.3832, 2794356],
+  ['Montreal', ['Montréal'], 'QC', 'CA', 45.5017, -73.5673, 1762949],
+  ['Calgary', [], 'AB', 'CA', 51.0447, -114.0719, 1306784],
+  ['Ottawa', [], 'ON', 'CA', 45.4215, -75.6972, 1017449],
+  ['Edmonton', [], 'AB', 'CA', 53.5461, -113.4938, 1010899],
+  ['Winnipeg', [], 'MB', 'CA', 49.8951, -97.1384, 749607],
+  ['Vancouver', [], 'BC', 'CA', 49.2827, -123.1207, 662248],
+  ['Quebec City', ['Québec City', 'Quebec', 'Québec'], 'QC', 'CA', 46.8139, -71.208, 549459],
+  ['Halifax', [], 'NS', 'CA', 44.6488, -63.5752, 439819],
+  ['Waterloo', ['Kitchener-Waterloo'], 'ON', 'CA', 43.4643, -80.5204, 121436],
+  // Latin America
+  ['Mexico City', ['Ciudad de México', 'CDMX', 'Mexico D.F.'], 'Mexico City', 'MX', 19.4326, -99.1332, 9209944],
+  ['Guadalajara', [], 'Jalisco', 'MX', 20.6597, -103.3496, 1385629],
+  ['Monterrey', [], 'Nuevo León', 'MX', 25.6866, -100.3161, 1142994],
+  ['São Paulo', ['Sao Paulo', 'Sampa'], 'São Paulo', 'BR', -23.5505, -46.6333, 12325232],
+  ['Rio de Janeiro', ['Rio'], 'Rio de Janeiro', 'BR', -22.9068, -43.1729, 6747815],
+  ['Brasília', ['Brasilia'], 'Federal District', 'BR', -15.7939, -47.8828, 3055149],
+  ['Belo Horizonte', [], 'Minas Gerais', 'BR', -19.9167, -43.9345, 2521564],
+  ['Curitiba', [], 'Paraná', 'BR', -25.4284, -49.2733, 1948626],
+  ['Porto Alegre', [], 'Rio Grande do Sul', 'BR', -30.0346, -51.2177, 1488252],
+  ['Buenos Aires', ['CABA'], 'Buenos Aires', 'AR', -34.6037, -58.3816, 3075646],
+  ['Santiago', ['Santiago de Chile'], 'Santiago Metropolitan', 'CL', -33.4489, -70.6693, 5614000],
+  ['Bogotá', ['Bogota'], 'Bogotá D.C.', 'CO', 4.711, -74.0721, 7412566],
+  ['Medellín', ['Medellin'], 'Antioquia', 'CO', 6.2442, -75.5812, 2529403],
+  ['Lima', [], 'Lima', 'PE', -12.0464, -77.0428, 9751717],
+  // United Kingdom and Ireland
+  ['London', ['Greater London', 'City of London', 'Central London'], 'ENG', 'GB', 51.5074, -0.1278, 8961989],
+  ['Birmingham', [], 'ENG', 'GB', 52.4862, -1.8904, 1144900],
+  ['Leeds', [], 'ENG', 'GB', 53.8008, -1.5491, 793139],
+  ['Glasgow', [], 'SCT', 'GB', 55.8642, -4.2518, 635640],
+  ['Sheffield', [], 'ENG', 'GB', 53.3811, -1.4701, 584853],
+  ['Manchester', ['Greater Manchester'], 'ENG', 'GB', 53.4808, -2.2426, 552858],
+  ['Edinburgh', [], 'SCT', 'GB', 55.9533, -3.1883, 527620],
+  ['Liverpool', [], 'ENG', 'GB', 53.4084, -2.9916, 498042],
+  ['Bristol', [], 'ENG', 'GB', 51.4545, -2.5879, 467099],
+  ['Cardiff', [], 'WLS', 'GB', 51.4816, -3.1791, 362756],
+  ['Belfast', [], 'NIR', 'GB', 54.5973, -5.9301, 345418],
+  ['Nottingham', [], 'ENG', 'GB', 52.9548, -1.1581, 323632],
+  ['Newcastle upon Tyne', ['Newcastle'], 'ENG', 'GB', 54.9783, -1.6178, 300196],
+  ['Reading', [], 'ENG', 'GB', 51.4543, -0.9781, 174224],
+  ['Oxford', [], 'ENG', 'GB', 51.752, -1.2577, 152450],
+  ['Cambridge', [], 'ENG', 'GB', 52.2053, 0.1218, 145818],
+  ['Dublin', [], 'Leinster', 'IE', 53.3498, -6.2603, 1173179],
+  ['Cork', [], 'Munster', 'IE', 51.8985, -8.4756, 210000],
+  // Continental Europe
+  ['Paris', [], 'Île-de-France', 'FR', 48.8566, 2.3522, 2148000],
+  ['Marseille', ['Marseilles'], "Provence-Alpes-Côte d'Azur", 'FR', 43.2965, 5.3698, 870731],
+  ['Lyon', ['Lyons'], 'Auvergne-Rhône-Alpes', 'FR', 45.764, 4.8357, 516092],
+  ['Toulouse', [], 'Occitanie', 'FR', 43.6047, 1.4442, 479553],
+  ['Nice', [], "Provence-Alpes-Côte d'Azur", 'FR', 43.7102, 7.262, 342669],
+  ['Nantes', [], 'Pays de la Loire', 'FR', 47.2184, -1.5536, 309346],
+  ['Bordeaux', [], 'Nouvelle-Aquitaine', 'FR', 44.8378, -0.5792, 257068],
+  ['Lille', [], 'Hauts-de-France', 'FR', 50.6292, 3.0573, 232787],
+  ['Berlin', [], 'BE', 'DE', 52.52, 13.405, 3669491],
+  ['Hamburg', [], 'HH', 'DE', 53.5511, 9.9937, 1841179],
+  ['Munich', ['München', 'Muenchen'], 'BY', 'DE', 48.1351, 11.582, 1471508],
+  ['Cologne', ['Köln', 'Koeln'], 'NW', 'DE', 50.9375, 6.9603, 1085664],
+  ['Frankfurt', ['Frankfurt am Main', 'Frankfurt/Main'], 'HE', 'DE', 50.1109, 8.6821, 753056],
+  ['Stuttgart', [], 'BW', 'DE', 48.7758, 9.1829, 635911],
+  ['Düsseldorf', ['Dusseldorf', 'Duesseldorf'], 'NW', 'DE', 51.2277, 6.7735, 619294],
+  ['Leipzig', [], 'SN', 'DE', 51.3397, 12.3731, 587857],
+  ['Dresden', [], 'SN', 'DE', 51.0504, 13.7373, 556780],
+  ['Amsterdam', [], 'North Holland', 'NL', 52.3676, 4.9041, 872680],
+  ['Rotterdam', [], 'South Holland', 'NL', 51.9244, 4.4777, 651446],
+  ['The Hague', ['Den Haag', "'s-Gravenhage"], 'South Holland', 'NL', 52.0705, 4.3007, 545838],
+  ['Utrecht', [], 'Utrecht', 'NL', 52.0907, 5.1214, 357179],
+  ['Eindhoven', [], 'North Brabant', 'NL', 51.4416, 5.4697, 234235],
+  ['Brussels', ['Bruxelles', 'Brussel'], 'Brussels-Capital', 'BE', 50.8503, 4.3517, 1208542],
+  ['Antwerp', ['Antwerpen', 'Anvers'], 'Flanders', 'BE', 51.2194, 4.4025, 529247],
+  ['Luxembourg', ['Luxembourg City'], 'Luxembourg', 'LU', 49.6116, 6.1319, 124509],
+  ['Zurich', ['Zürich'], 'Zurich', 'CH', 47.3769, 8.5417, 415367],
+  ['Geneva', ['Genève', 'Geneve', 'Genf'], 'Geneva', 'CH', 46.2044, 6.1432, 203856],
+  ['Basel', ['Bâle'], 'Basel-Stadt', 'CH', 47.5596, 7.5886, 177654],
+  ['Lausanne', [], 'Vaud', 'CH', 46.5197, 6.6323, 139111],
+  ['Bern', ['Berne'], 'Bern', 'CH', 46.948, 7.4474, 133883],
+  ['Vienna', ['Wien'], 'Vienna', 'AT', 48.2082, 16.3738, 1911191],
+  ['Madrid', [], 'Community of Madrid', 'ES', 40.4168, -3.7038, 3223334],
+  ['Barcelona', [], 'Catalonia', 'ES', 41.3851, 2.1734, 1620343],
+  ['Valencia', ['València'], 'Valencian Community', 'ES', 39.4699, -0.3763, 791413],
+  ['Seville', ['Sevilla'], 'Andalusia', 'ES', 37.3891, -5.9845, 688711],
+  ['Málaga', ['Malaga'], 'Andalusia', 'ES', 36.7213, -4.4214, 578460],
+  ['Bilbao', [], 'Basque Country', 'ES', 43.263, -2.935, 345821],
+  ['Lisbon', ['Lisboa'], 'Lisbon', 'PT', 38.7223, -9.1393, 544851],
+  ['Porto', ['Oporto'], 'Porto', 'PT', 41.1579, -8.6291, 237591],
+  ['Rome', ['Roma'], 'Lazio', 'IT', 41.9028, 12.4964, 2872800],
+  ['Milan', ['Milano'], 'Lombardy', 'IT', 45.4642, 9.19, 1352000],
+  ['Naples', ['Napoli'], 'Campania', 'IT', 40.8518, 14.2681, 959470],
+  ['Turin', ['Torino'], 'Piedmont', 'IT', 45.0703, 7.6869, 870952],
+  ['Bologna', [], 'Emilia-Romagna', 'IT', 44.4949, 11.3426, 390636],
+  ['Florence', ['Firenze'], 'Tuscany', 'IT', 43.7696, 11.2558, 382258],
+  ['Copenhagen', ['København', 'Kobenhavn'], 'Capital Region', 'DK', 55.6761, 12.5683, 602481],
+  ['Aarhus', ['Århus'], 'Central Denmark', 'DK', 56.1629, 10.2039, 285273],
+  ['Stockholm', [], 'Stockholm', 'SE', 59.3293, 18.0686, 975551],
+  ['Gothenburg', ['Göteborg', 'Goteborg'], 'Västra Götaland', 'SE', 57.7089, 11.9746, 579281],
+  ['Malmö', ['Malmo'], 'Skåne', 'SE', 55.605, 13.0038, 344166],
+  ['Oslo', [], 'Oslo', 'NO', 59.9139, 10.7522, 697010],
+  ['Bergen', [], 'Vestland', 'NO', 60.3913, 5.3221, 285911],
+  ['Helsinki', [], 'Uusimaa', 'FI', 60.1699, 24.9384, 656229],
+  ['Espoo', [], 'Uusimaa', 'FI', 60.2055, 24.6559, 292796],
+  ['Warsaw', ['Warszawa'], 'Masovia', 'PL', 52.2297, 21.0122, 1790658],
+  ['Kraków', ['Krakow', 'Cracow'], 'Lesser Poland', 'PL', 50.0647, 19.945, 779115],
+  ['Wrocław', ['Wroclaw'], 'Lower Silesia', 'PL', 51.1079, 17.0385, 643782],
+  ['Prague', ['Praha'], 'Prague', 'CZ', 50.0755, 14.4378, 1324277],
+  ['Brno', [], 'South Moravia', 'CZ', 49.1951, 16.6068, 381346],
+  ['Budapest', [], 'Budapest', 'HU', 47.4979, 19.0402, 1752286],
+  ['Bucharest', ['București', 'Bucuresti'], 'Bucharest', 'RO', 44.4268, 26.1025, 1883425],
+  ['Athens', ['Athina'], 'Attica', 'GR', 37.9838, 23.7275, 664046],
+  ['Istanbul', ['İstanbul'], 'Istanbul', 'TR', 41.0082, 28.9784, 15462452],
+  ['Ankara', [], 'Ankara', 'TR', 39.9334, 32.8597, 5663322],
+  ['Moscow', ['Moskva'], 'Moscow', 'RU', 55.7558, 37.6173, 12506468],
+  ['Saint Petersburg', ['St. Petersburg'], 'Saint Petersburg', 'RU', 59.9311, 30.3609, 5384342],
+  ['Kyiv', ['Kiev'], 'Kyiv', 'UA', 50.4501, 30.5234, 2962180],
+  ['Tallinn', [], 'Harju', 'EE', 59.437, 24.7536, 437619],
+  ['Riga', [], 'Riga', 'LV', 56.9496, 24.1052, 614618],
+  ['Vilnius', [], 'Vilnius', 'LT', 54.6872, 25.2797, 588412],
+  // Middle East and Africa
+  ['Tel Aviv', ['Tel Aviv-Yafo', 'Tel Aviv-Jaffa'], 'Tel Aviv', 'IL', 32.0853, 34.7818, 460613],
+  ['Jerusalem', [], 'Jerusalem', 'IL', 31.7683, 35.2137, 936425],
+  ['Dubai', [], 'Dubai', 'AE', 25.2048, 55.2708, 3331420],
+  ['Abu Dhabi', [], 'Abu Dhabi', 'AE', 24.4539, 54.3773, 1483000],
+  ['Riyadh', [], 'Riyadh', 'SA', 24.7136, 46.6753, 7676654],
+  ['Jeddah', ['Jiddah'], 'Makkah', 'SA', 21.4858, 39.1925, 3976000],
+  ['Doha', [], 'Doha', 'QA', 25.2854, 51.531, 956460],
+  ['Cairo', [], 'Cairo', 'EG', 30.0444, 31.2357, 9539673],
+  ['Johannesburg', ['Joburg', 'Jozi'], 'Gauteng', 'ZA', -26.2041, 28.0473, 5635127],
+  ['Cape Town', [], 'Western Cape', 'ZA', -33.9249, 18.4241, 4618000],
+  ['Durban', [], 'KwaZulu-Natal', 'ZA', -29.8587, 31.0218, 3720953],
+  ['Pretoria', ['Tshwane'], 'Gauteng', 'ZA', -25.7479, 28.2293, 2473000],
+  ['Lagos', [], 'Lagos', 'NG', 6.5244, 3.3792, 14368000],
+  ['Nairobi', [], 'Nairobi', 'KE', -1.2921, 36.8219, 4397073],
+  ['Casablanca', [], 'Casablanca-Settat', 'MA', 33.5731, -7.5898, 3359818],
+  // Asia and Oceania
+  ['Mumbai', ['Bombay'], 'MH', 'IN', 19.076, 72.8777, 12442373],
+  ['Delhi', ['New Delhi', 'Delhi NCR'], 'DL', 'IN', 28.7041, 77.1025, 11034555],
+  ['Bengaluru', ['Bangalore'], 'KA', 'IN', 12.9716, 77.5946, 8443675],
+  ['Hyderabad', [], 'TG', 'IN', 17.385, 78.4867, 6809970],
+  ['Ahmedabad', [], 'GJ', 'IN', 23.0225, 72.5714, 5570585],
+  ['Chennai', ['Madras'], 'TN', 'IN', 13.0827, 80.2707, 4646732],
+  ['Kolkata', ['Calcutta'], 'WB', 'IN', 22.5726, 88.3639, 4496694],
+  ['Pune', ['Poona'], 'MH', 'IN', 18.5204, 73.8567, 3124458],
+  ['Gurugram', ['Gurgaon'], 'HR', 'IN', 28.4595, 77.0266, 876969],
+  ['Noida', [], 'UP', 'IN', 28.5355, 77.391, 642381],
+  ['Karachi', [], 'Sindh', 'PK', 24.8607, 67.0011, 14910352],
+  ['Lahore', [], 'Punjab', 'PK', 31.5204, 74.3587, 11126285],
+  ['Dhaka', ['Dacca'], 'Dhaka', 'BD', 23.8103, 90.4125, 8906039],
+  ['Singapore', [], 'Singapore', 'SG', 1.3521, 103.8198, 5685807],
+  ['Kuala Lumpur', ['KL'], 'Kuala Lumpur', 'MY', 3.139, 101.6869, 1782500],
+  ['Bangkok', ['Krung Thep'], 'Bangkok', 'TH', 13.7563, 100.5018, 10539000],
+  ['Ho Chi Minh City', ['Saigon', 'HCMC'], 'Ho Chi Minh City', 'VN', 10.8231, 106.6297, 8993082],
+  ['Hanoi', ['Ha Noi'], 'Hanoi', 'VN', 21.0278, 105.8342, 8053663],
+  ['Jakarta', [], 'Jakarta', 'ID', -6.2088, 106.8456, 10562088],
+  ['Manila', ['Metro Manila'], 'Metro Manila', 'PH', 14.5995, 120.9842, 1780148],
+  ['Makati', ['Makati City'], 'Metro Manila', 'PH', 14.5547, 121.0244, 629616],
+  ['Shanghai', [], 'Shanghai', 'CN', 31.2304, 121.4737, 24870895],
+  ['Beijing', ['Peking'], 'Beijing', 'CN', 39.9042, 116.4074, 21893095],
+  ['Guangzhou', ['Canton'], 'Guangdong', 'CN', 23.1291, 113.2644, 18676605],
+  ['Shenzhen', [], 'Guangdong', 'CN', 22.5431, 114.0579, 17494398],
+  ['Hong Kong', ['HK'], 'Hong Kong', 'HK', 22.3193, 114.1694, 7481800],
+  ['Taipei', [], 'Taipei', 'TW', 25.033, 121.5654, 2646204],
+  ['Tokyo', [], 'Tokyo', 'JP', 35.6762, 139.6503, 13960000],
+  ['Yokohama', [], 'Kanagawa', 'JP', 35.4437, 139.638, 3777491],
+  ['Osaka', ['Ōsaka'], 'Osaka', 'JP', 34.6937, 135.5023, 2753862],
+  ['Kyoto', [], 'Kyoto', 'JP', 35.0116, 135.7681, 1463723],
+  ['Seoul', [], 'Seoul', 'KR', 37.5665, 126.978, 9776000],
+  ['Busan', ['Pusan'], 'Busan', 'KR', 35.1796, 129.0756, 3429000],
+  ['Sydney', [], 'NSW', 'AU', -33.8688, 151.2093, 5312163],
+  ['Melbourne', [], 'VIC', 'AU', -37.8136, 144.9631, 5078193],
+  ['Brisbane', [], 'QLD', 'AU', -27.4698, 153.0251, 2560720],
+  ['Perth', [], 'WA', 'AU', -31.9505, 115.8605, 2085973],
+  ['Adelaide', [], 'SA', 'AU', -34.9285, 138.6007, 1376601],
+  ['Canberra', [], 'ACT', 'AU', -35.2809, 149.13, 453558],
+  ['Auckland', [], 'Auckland', 'NZ', -36.8485, 174.7633, 1657200],
+  ['Wellington', [], 'Wellington', 'NZ', -41.2865, 174.7762, 215400],
+];
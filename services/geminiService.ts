@@ -1,139 +1,99 @@
-import { GoogleGenAI } from "@google/genai";
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
 import { Client } from '../types';
+import { EnrichmentBatch, EnrichmentProvider, ModelCompletion, NO_TOKEN_USAGE, ProviderSettingValues, runValidatedBatch, TokenUsage } from './enrichmentProvider';
+import { GroundedSegment } from './groundingSources';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
 
 let ai: GoogleGenAI | null = null;
+let geminiModel = DEFAULT_GEMINI_MODEL;
 
-export const initializeGemini = (apiKey: string) => {
+const initializeGemini = ({ apiKey, model }: ProviderSettingValues) => {
   if (!apiKey) {
     throw new Error("A valid API Key is required to initialize the Gemini service.");
   }
   ai = new GoogleGenAI({ apiKey });
+  geminiModel = model || DEFAULT_GEMINI_MODEL;
+};
+
+// Reads the Google Search results that support each part of the answer from the grounding metadata.
+const getGroundedSegments = (response: GenerateContentResponse): GroundedSegment[] => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const chunks = metadata?.groundingChunks || [];
+  return (metadata?.groundingSupports || []).map(support => ({
+    startIndex: support.segment?.startIndex,
+    endIndex: support.segment?.endIndex,
+    text: support.segment?.text,
+    sources: (support.groundingChunkIndices || []).flatMap(index => {
+      const web = chunks[index]?.web;
+      return web?.uri ? [{ url: web.uri, ...(web.title ? { title: web.title } : {}) }] : [];
+    }),
+  }));
 };
 
-export const findClientCitiesBatch = async (clients: Client[]): Promise<Map<number, { city: string; jobTitle: string } | string>> => {
+// Thinking tokens are billed as output, so they are counted with the answer.
+const getTokenUsage = (response: GenerateContentResponse): TokenUsage => {
+  const metadata = response.usageMetadata;
+  return {
+    inputTokens: metadata?.promptTokenCount || 0,
+    outputTokens: (metadata?.candidatesTokenCount || 0) + (metadata?.thoughtsTokenCount || 0),
+  };
+};
+
+const findClientCitiesBatch = async (clients: Client[], signal?: AbortSignal): Promise<EnrichmentBatch> => {
   if (!ai) {
     throw new Error("Gemini service has not been initialized. Please configure the API key.");
   }
+  const gemini = ai;
+  const model = geminiModel;
   if (clients.length === 0) {
-    return new Map();
+    return { results: new Map(), usage: NO_TOKEN_USAGE, model };
   }
 
-  const clientDataForPrompt = clients.map(client => {
-    const { id, firstName, lastName, jobTitle, company } = client;
-    const personIdentifier = [firstName, lastName].filter(Boolean).join(' ');
-    let professionalContext = '';
-    if (jobTitle && company) {
-      professionalContext = `${jobTitle} at ${company}`;
-    } else if (jobTitle || company) {
-      professionalContext = jobTitle || company;
-    }
-    return { id, person: personIdentifier, context: professionalContext };
-  });
-
-  const prompt = `
-    You are an expert researcher. Your goal is to find the current city and job title for each professional in the provided JSON array.
-
-    Use the following process:
-    1. For each person, use Google Search to find their current professional details. Your primary sources should be professional social media profiles (like LinkedIn) or official company websites.
-    2. If an initial, precise search fails (e.g., "John Doe, CEO at ACME Inc"), you MUST try broader searches (e.g., "John Doe ACME Inc LinkedIn"). Be resourceful.
-    3. Analyze the search results to determine the most likely current city and job title.
-    4. The 'city' value should be a string like "San Francisco, CA" or "London, UK". If no city can be reliably found, it MUST be the exact string "Not Found".
-    5. The 'jobTitle' value should be the most current job title found. If no job title can be reliably found, it MUST be an empty string "".
-
-    INPUT JSON:
-    ${JSON.stringify(clientDataForPrompt, null, 2)}
-
-    CRITICAL OUTPUT RULES:
-    - Your entire response MUST BE ONLY a single, raw JSON array, starting with '[' and ending with ']'.
-    - The array must contain an object for every person from the input.
-    - Each object must have the original 'id' (number), the found 'city' (string), and the found 'jobTitle' (string).
-    - DO NOT write any introduction, explanation, or apologies.
-    - DO NOT wrap the JSON in markdown backticks or any other formatting.
-  `;
-  
-  const resultMap = new Map<number, { city: string; jobTitle: string } | string>();
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+  // Gemini cannot combine Google Search grounding with a response schema, so the format is only requested in
+  // the prompt and enforced by the shared validation.
+  const batch = await runValidatedBatch(clients, async (prompt, requestSignal) => {
+    const response = await gemini.models.generateContent({
+      model,
       contents: prompt,
       config: {
         tools: [{ googleSearch: {} }],
+        abortSignal: requestSignal,
       },
     });
-    
-    const responseText = response.text.trim();
-
-    // This logic handles both a valid JSON array and the "JSON Lines" format (multiple objects on new lines).
-    const lines = responseText.split('\n').filter(line => line.trim() !== '');
-    if (lines.length > 1 && lines.every(line => line.trim().startsWith('{'))) {
-        // Handle JSON Lines format
-        for (const line of lines) {
-            try {
-                const item = JSON.parse(line.trim());
-                if (typeof item.id === 'number' && typeof item.city === 'string' && typeof item.jobTitle === 'string') {
-                    resultMap.set(item.id, {
-                      city: item.city.trim() || "Not Found",
-                      jobTitle: item.jobTitle.trim()
-                    });
-                }
-            } catch (e) {
-                console.error(`Failed to parse JSON line: "${line}"`, e);
-            }
-        }
-    } else {
-        // Handle standard single JSON array format
-        const jsonStartIndex = responseText.indexOf('[');
-        const jsonEndIndex = responseText.lastIndexOf(']');
-        
-        if (jsonStartIndex === -1 || jsonEndIndex === -1) {
-            console.error("Could not find a valid JSON array in the API response. Response text:", responseText);
-            clients.forEach(client => resultMap.set(client.id, "Error: Malformed Response"));
-            return resultMap;
-        }
-
-        const jsonString = responseText.substring(jsonStartIndex, jsonEndIndex + 1);
-        try {
-            const jsonResponse = JSON.parse(jsonString);
-            if (Array.isArray(jsonResponse)) {
-              for (const item of jsonResponse) {
-                if (typeof item.id === 'number' && typeof item.city === 'string' && typeof item.jobTitle === 'string') {
-                  resultMap.set(item.id, {
-                    city: item.city.trim() || "Not Found",
-                    jobTitle: item.jobTitle.trim()
-                  });
-                }
-              }
-            }
-        } catch(e) {
-             console.error("Failed to parse what was expected to be a JSON array. Response text:", responseText);
-             clients.forEach(client => resultMap.set(client.id, "Error: Malformed Response"));
-             return resultMap;
-        }
-    }
-    
-    // Ensure every client from the input batch has a result.
-    for(const client of clients) {
-        if (!resultMap.has(client.id)) {
-            resultMap.set(client.id, "Error: No result from AI");
-        }
-    }
-
-    return resultMap;
-
-  } catch (error) {
-    console.error("Error calling Gemini API with Google Search:", error);
-    const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-
-    let errorType = "API Error";
+    return { text: response.text ?? '', groundedSegments: getGroundedSegments(response), usage: getTokenUsage(response) };
+  }, { webSearch: true, citeSources: false }, geminiProvider, signal);
+  return { ...batch, model };
+};
 
-    if (errorMessage.includes('API key not valid') || errorMessage.includes('permission_denied')) {
-      errorType = "Invalid API Key";
-    } else if (errorMessage.includes('429') || errorMessage.includes('RESOURCE_EXHAUSTED')) {
-      errorType = "Rate Limit Exceeded";
-    }
-    
-    clients.forEach(c => resultMap.set(c.id, errorType));
-    return resultMap;
+// Without search grounding, a JSON response can be required directly.
+const completeGemini = async (prompt: string, signal?: AbortSignal): Promise<ModelCompletion> => {
+  if (!ai) {
+    throw new Error("Gemini service has not been initialized. Please configure the API key.");
   }
+  const model = geminiModel;
+  const response = await ai.models.generateContent({
+    model,
+    contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      abortSignal: signal,
+    },
+  });
+  return { text: response.text ?? '', usage: getTokenUsage(response), model };
+};
+
+export const geminiProvider: EnrichmentProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  settings: [
+    { key: 'apiKey', label: 'Gemini API Key', storageKey: 'gemini-api-key', placeholder: 'Enter your Gemini API key', secret: true, required: true },
+    { key: 'model', label: 'Gemini Model', storageKey: 'gemini-model', placeholder: DEFAULT_GEMINI_MODEL, suggestions: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'], advanced: true },
+  ],
+  capabilities: { webSearch: true, findAll: true, retryFailed: false },
+  // One batch every 10 seconds keeps a safe margin under the free tier's 10 requests per minute.
+  rateLimits: { batchSize: 5, requestsPerMinute: 6 },
+  init: initializeGemini,
+  enrichBatch: findClientCitiesBatch,
+  complete: completeGemini,
 };
@@ -1,58 +1,106 @@
-import { Client } from '../types';
-
-// A more robust CSV parser that handles quoted fields and finds the header row dynamically.
-const parseCSV = (csvText: string): Client[] => {
-  // BOM (Byte Order Mark) can be present in files and cause issues with parsing the first header.
-  if (csvText.charCodeAt(0) === 0xFEFF) {
-    csvText = csvText.substring(1);
+import { Client, ColumnMapping, CorsProxySettings, MappableClientField, SheetTab, SheetTable } from '../types';
+import { findHeaderRowIndex } from './columnMapping';
+import { BUILTIN_PROXY_HEADER, buildProxiedUrl, DEFAULT_CORS_PROXY_SETTINGS, describeCorsProxy } from './corsProxy';
+import { CsvParseResult, parseCsvStream, parseCsvText } from './csvParser';
+
+// Why a sheet could not be loaded, so the UI can give instructions that match the cause.
+// `proxy`: the CORS proxy could not be reached or failed itself. `permission`: Google refused access to the sheet.
+// `not_found`: the sheet or tab does not exist or is empty. `network`: the request failed without a proxy involved.
+export type SheetFetchErrorKind = 'proxy' | 'permission' | 'not_found' | 'network';
+
+export class SheetFetchError extends Error {
+  kind: SheetFetchErrorKind;
+
+  constructor(kind: SheetFetchErrorKind, message: string) {
+    super(message);
+    this.name = 'SheetFetchError';
+    this.kind = kind;
   }
+}
 
-  const lines = csvText.trim().split(/\r?\n/);
+const buildSheetTable = ({ rows, rowLines, errors }: CsvParseResult): SheetTable => {
+  const cells = rows.map(row => row.map(cell => cell.trim()));
 
   // Dynamically find the header row instead of assuming it's the first line.
   // This makes the parser resilient to empty leading lines or metadata from the export.
-  const headerRowIndex = lines.findIndex(line =>
-    line.toLowerCase().includes('client first name') &&
-    line.toLowerCase().includes('client second name')
-  );
+  const headerRowIndex = findHeaderRowIndex(cells);
 
   if (headerRowIndex === -1) {
     // This is a more informative error. It suggests the content received is not the expected CSV.
-    throw new Error('CSV headers are missing or incorrect. Expected at least "Client first name" and "Client second name".');
+    throw new Error('CSV headers are missing. Could not find a header row with at least two columns.');
   }
 
-  // Helper to parse a single line, handling quoted commas.
-  const parseLine = (line: string): string[] => {
-    // Regex to split by comma but ignore commas inside double quotes
-    const values = line.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/g);
-    // Clean up values: remove surrounding quotes and trim whitespace
-    return values.map(val => val.trim().replace(/^"|"$/g, '').trim());
+  const headers = cells[headerRowIndex];
+  const parseErrors = [...errors];
+  cells.forEach((row, index) => {
+    // Values beyond the last header cannot be mapped to a column, so they would be silently lost.
+    if (index > headerRowIndex && row.slice(headers.length).some(cell => cell !== '')) {
+      parseErrors.push({
+        line: rowLines[index],
+        message: `Row has ${row.length} fields but the header has ${headers.length}. Extra values are ignored.`,
+      });
+    }
+  });
+  parseErrors.sort((a, b) => a.line - b.line);
+
+  return {
+    // Each CSV record is one sheet row, even when a quoted value spans several lines.
+    headerRowNumber: headerRowIndex + 1,
+    headers,
+    rows: cells.slice(headerRowIndex + 1),
+    parseErrors,
   };
+};
+
+// Parses CSV text with the RFC 4180 tokenizer and finds the header row dynamically.
+// Columns are not interpreted here; see `mapTablesToClients` for turning rows into clients.
+export const parseCSV = (csvText: string): SheetTable => {
+  return buildSheetTable(parseCsvText(csvText));
+};
 
-  const headers = parseLine(lines[headerRowIndex]).map(h => h.trim().toLowerCase());
-  const firstNameIndex = headers.indexOf('client first name');
-  const lastNameIndex = headers.indexOf('client second name');
-  const jobTitleIndex = headers.indexOf('job title');
-  const companyIndex = headers.indexOf('company');
-  const cityHeaderOptions = ['identified city', 'city'];
-  const cityIndex = headers.findIndex(h => cityHeaderOptions.includes(h));
+// Returns every header that appears in any of the tables, in order of first appearance.
+export const getCombinedHeaders = (tables: SheetTable[]): string[] => {
+  const headers: string[] = [];
+  for (const table of tables) {
+    for (const header of table.headers) {
+      if (header && !headers.includes(header)) {
+        headers.push(header);
+      }
+    }
+  }
+  return headers;
+};
 
+export interface MappingOptions {
+  // Load rows whose city column is already filled as 'prefilled' instead of skipping them.
+  includePrefilled?: boolean;
+}
+
+const mapTableToClients = (table: SheetTable, mapping: ColumnMapping, options: MappingOptions): Client[] => {
+  const indexOf = (field: MappableClientField) => {
+    const header = mapping[field];
+    return header ? table.headers.indexOf(header) : -1;
+  };
+  const firstNameIndex = indexOf('firstName');
+  const lastNameIndex = indexOf('lastName');
+  const jobTitleIndex = indexOf('jobTitle');
+  const companyIndex = indexOf('company');
+  const cityIndex = indexOf('city');
 
   if (firstNameIndex === -1 || lastNameIndex === -1) {
-    throw new Error(`Could not map all required CSV columns. Found headers: [${headers.join(', ')}]`);
+    const tabContext = table.tab ? ` in tab "${table.tab}"` : '';
+    throw new Error(`Could not find the mapped name columns${tabContext}. Found headers: [${table.headers.join(', ')}]`);
   }
 
-  const dataLines = lines.slice(headerRowIndex + 1);
-
-  return dataLines.map((line, index): Client | null => {
+  return table.rows.map((values, index): Client | null => {
     // Skip any empty lines in the CSV
-    if (!line.trim()) {
+    if (values.every(value => !value.trim())) {
       return null;
     }
-    const values = parseLine(line);
 
-    // If a city column exists and has data, skip this row from being processed.
-    if (cityIndex > -1 && values[cityIndex] && values[cityIndex].trim() !== '') {
+    // If a city column exists and has data, the row is either skipped or loaded for re-verification.
+    const existingCity = cityIndex > -1 ? (values[cityIndex] || '').trim() : '';
+    if (existingCity && !options.includePrefilled) {
       return null;
     }
     
@@ -62,35 +110,108 @@ const parseCSV = (csvText: string): Client[] => {
       lastName: values[lastNameIndex] || '',
       jobTitle: jobTitleIndex > -1 ? values[jobTitleIndex] || '' : '',
       company: companyIndex > -1 ? values[companyIndex] || '' : '',
-      city: '',
-      cityStatus: 'idle',
+      city: existingCity,
+      sourceTab: table.tab,
+      sourceRow: { headers: table.headers, values },
+      rowNumber: table.headerRowNumber + 1 + index,
+      sheetTab: table.sheetTab,
+      ...(existingCity ? { prefilledCity: existingCity, cityStatus: 'prefilled' } : { cityStatus: 'idle' }),
     };
   }).filter((client): client is Client => client !== null); // Filter out null entries from empty or skipped lines
 };
 
-export const fetchClients = async (sheetId: string): Promise<Client[]> => {
-  // Use the direct CSV export URL. This is more reliable than trying to guess a "published" URL.
-  const directExportUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv&gid=0`;
-  
-  // This direct link requires a CORS proxy to be fetched from a browser.
-  // `corsproxy.io` is a modern and reliable option.
-  const proxiedUrl = `https://corsproxy.io/?${encodeURIComponent(directExportUrl)}`;
+// Applies a column mapping to every loaded table and merges the results into one client list.
+export const mapTablesToClients = (tables: SheetTable[], mapping: ColumnMapping, options: MappingOptions = {}): Client[] => {
+  // Row-based ids are only unique within a table, so they are reassigned across the merged list.
+  let nextId = 0;
+  return tables.flatMap(table => mapTableToClients(table, mapping, options).map(client => ({ ...client, id: nextId++ })));
+};
+
+// Parses a comma-separated list of tabs. Numeric entries are treated as gids, anything else as a tab name.
+export const parseSheetTabs = (input: string): SheetTab[] => {
+  return input
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry): SheetTab => (/^\d+$/.test(entry) ? { gid: entry } : { name: entry }));
+};
 
+export const getSheetTabLabel = (tab: SheetTab): string => {
+  return 'gid' in tab ? `gid ${tab.gid}` : tab.name;
+};
+
+const buildTabExportUrl = (sheetId: string, tab: SheetTab): string => {
+  if ('gid' in tab) {
+    // Use the direct CSV export URL. This is more reliable than trying to guess a "published" URL.
+    return `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv&gid=${encodeURIComponent(tab.gid)}`;
+  }
+  // The export endpoint only accepts gids, so tabs given by name go through the visualization endpoint.
+  // `headers=0` stops it from merging rows into a guessed header, leaving header detection to `parseCSV`.
+  return `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq?tqx=out:csv&headers=0&sheet=${encodeURIComponent(tab.name)}`;
+};
+
+const fetchTabTable = async (sheetId: string, tab: SheetTab, proxy: CorsProxySettings): Promise<SheetTable> => {
+  const directExportUrl = buildTabExportUrl(sheetId, tab);
+  const tabLabel = getSheetTabLabel(tab);
+  const usesProxy = proxy.mode !== 'none';
+  const proxyName = describeCorsProxy(proxy);
+
+  let response: Response;
   try {
-    const response = await fetch(proxiedUrl);
+    response = await fetch(buildProxiedUrl(directExportUrl, proxy));
+  } catch (error) {
+    // fetch only rejects when no response arrived: the proxy is down, or the browser blocked a direct request.
+    throw usesProxy
+      ? new SheetFetchError('proxy', `Could not reach ${proxyName} to load tab "${tabLabel}". The proxy may be down or the URL template may be wrong.`)
+      : new SheetFetchError('network', `The browser blocked or could not complete the request for tab "${tabLabel}". Google Sheets exports do not allow cross-origin requests, so choose a CORS proxy.`);
+  }
 
-    if (!response.ok) {
-      // If it fails, it is now most likely a permissions issue on the sheet.
-      throw new Error(`Failed to fetch sheet via proxy. Status: ${response.status}. Ensure the sheet's sharing is set to 'Anyone with the link'.`);
+  const builtinProxyStatus = response.headers.get(BUILTIN_PROXY_HEADER);
+  if (proxy.mode === 'builtin' && builtinProxyStatus !== 'upstream') {
+    // Without the header the route is not served at all, e.g. on a static host where only the built app is deployed.
+    const detail = builtinProxyStatus === 'error' ? await response.text() : 'The route is only available when the app runs with `npm run dev` or `npm run preview`.';
+    throw new SheetFetchError('proxy', `The built-in proxy could not load tab "${tabLabel}". ${detail}`);
+  }
+
+  if (!response.ok) {
+    if (response.status === 401 || response.status === 403) {
+      throw new SheetFetchError('permission', `Google refused access to tab "${tabLabel}" (status ${response.status}). Ensure the sheet's sharing is set to 'Anyone with the link'.`);
+    }
+    if (response.status === 400 || response.status === 404) {
+      throw new SheetFetchError('not_found', `Tab "${tabLabel}" was not found (status ${response.status}). Check the Sheet ID and the tab gid or name.`);
     }
+    throw usesProxy
+      ? new SheetFetchError('proxy', `${proxyName} returned status ${response.status} for tab "${tabLabel}". The proxy may be rate limiting or unavailable.`)
+      : new SheetFetchError('network', `Loading tab "${tabLabel}" failed with status ${response.status}.`);
+  }
+
+  // Restricted sheets redirect to the Google sign-in page, which proxies follow and return as a successful HTML page.
+  if ((response.headers.get('Content-Type') || '').includes('text/html')) {
+    throw new SheetFetchError('permission', `Google asked for a sign-in instead of returning tab "${tabLabel}". Ensure the sheet's sharing is set to 'Anyone with the link'.`);
+  }
 
-    const csvText = await response.text();
+  // Parse the export while it downloads rather than buffering the whole text first.
+  const parseResult = response.body ? await parseCsvStream(response.body) : parseCsvText(await response.text());
 
-    if (!csvText || typeof csvText !== 'string' || csvText.trim().length === 0) {
-        throw new Error('Received empty data from the sheet. The sheet might be empty or inaccessible.');
-    }
-    
-    return parseCSV(csvText);
+  if (parseResult.rows.every(row => row.every(cell => cell.trim() === ''))) {
+      throw new SheetFetchError('not_found', `Received empty data from tab "${tabLabel}". The tab might be empty or inaccessible.`);
+  }
+  
+  return buildSheetTable(parseResult);
+};
+
+// Loads the raw tables of the requested tabs. Use `mapTablesToClients` to turn them into clients.
+export const fetchSheetTables = async (sheetId: string, tabs: SheetTab[] = [], proxy: CorsProxySettings = DEFAULT_CORS_PROXY_SETTINGS): Promise<SheetTable[]> => {
+  const tabsToLoad = tabs.length > 0 ? tabs : [{ gid: '0' }];
+
+  try {
+    const tables = await Promise.all(tabsToLoad.map(tab => fetchTabTable(sheetId, tab, proxy)));
+    // Tabs are only labelled when the user picked them, so a default single-tab load stays unlabelled.
+    return tables.map((table, index) => ({
+      ...table,
+      tab: tabs.length > 0 ? getSheetTabLabel(tabsToLoad[index]) : undefined,
+      sheetTab: tabsToLoad[index],
+    }));
   } catch (error) {
      console.error("Error fetching or parsing Google Sheet data:", error);
      // Re-throw the error to be handled by the UI component, which will show instructions.
@@ -0,0 +1,92 @@
+import { SourceLink } from '../types';
+
+// Search grounding reports its sources per segment of the answer text rather than per person, so each segment
+// is mapped back to the result object it falls inside.
+
+// A piece of the answer text and the sources that support it. Offsets are UTF-8 byte offsets, as the Gemini API
+// reports them; `text` is used to find the segment when the offsets do not line up.
+export interface GroundedSegment {
+  startIndex?: number;
+  endIndex?: number;
+  text?: string;
+  sources: SourceLink[];
+}
+
+// Combines source lists, keeping the first occurrence of each URL.
+export const mergeSourceLinks = (...lists: (SourceLink[] | undefined)[]): SourceLink[] => {
+  const merged = new Map<string, SourceLink>();
+  for (const link of lists.flat()) {
+    if (link && !merged.has(link.url)) {
+      merged.set(link.url, link);
+    }
+  }
+  return [...merged.values()];
+};
+
+// A short label for a link: its title, or the host name of the URL.
+export const getSourceLabel = (link: SourceLink): string => {
+  if (link.title) {
+    return link.title;
+  }
+  try {
+    return new URL(link.url).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return link.url;
+  }
+};
+
+const byteOffsetToCharOffset = (text: string, byteOffset: number): number => {
+  const bytes = new TextEncoder().encode(text);
+  return new TextDecoder().decode(bytes.slice(0, byteOffset)).length;
+};
+
+const locateSegment = (text: string, segment: GroundedSegment): { start: number; end: number } | null => {
+  if (segment.endIndex !== undefined) {
+    const start = byteOffsetToCharOffset(text, segment.startIndex ?? 0);
+    const end = byteOffsetToCharOffset(text, segment.endIndex);
+    if (!segment.text || text.substring(start, end) === segment.text) {
+      return { start, end };
+    }
+  }
+  if (segment.text) {
+    const start = text.indexOf(segment.text);
+    if (start !== -1) {
+      return { start, end: start + segment.text.length };
+    }
+  }
+  return null;
+};
+
+// Assigns the sources of each segment to the result objects it overlaps. A result object is taken to run from
+// its `"id": N` to the next one. With a single id, all sources belong to that person even if no segment could
+// be located.
+export const attributeGroundedSources = (text: string, ids: number[], segments: GroundedSegment[]): Map<number, SourceLink[]> => {
+  const attributed = new Map<number, SourceLink[]>();
+  if (segments.length === 0) {
+    return attributed;
+  }
+  if (ids.length === 1) {
+    attributed.set(ids[0], mergeSourceLinks(...segments.map(segment => segment.sources)));
+    return attributed;
+  }
+
+  const idPositions = [...text.matchAll(/"id"\s*:\s*(\d+)/g)]
+    .map(match => ({ id: Number(match[1]), start: match.index! }))
+    .filter(position => ids.includes(position.id));
+  const spans = idPositions.map((position, index) => ({
+    id: position.id,
+    start: index === 0 ? 0 : position.start,
+    end: index + 1 < idPositions.length ? idPositions[index + 1].start : text.length,
+  }));
+
+  for (const segment of segments) {
+    const location = locateSegment(text, segment);
+    if (!location) continue;
+    for (const span of spans) {
+      if (location.start < span.end && location.end > span.start) {
+        attributed.set(span.id, mergeSourceLinks(attributed.get(span.id), segment.sources));
+      }
+    }
+  }
+  return attributed;
+};
@@ -0,0 +1,116 @@
+import { Client } from '../types';
+import { EnrichmentOutcome } from './enrichmentProvider';
+
+// The work of a bulk run, saved in the browser as it progresses so a run interrupted by closing or reloading the
+// tab can be resumed where it stopped. Clients are identified by their unique key, since ids change on reload.
+
+// 'refresh' looks up rows the user selected again and 'verify' re-checks loaded cities; neither uses cached answers.
+export type EnrichmentMode = 'findAll' | 'retryFailed' | 'verify' | 'consensus' | 'refresh';
+
+const ENRICHMENT_MODES: EnrichmentMode[] = ['findAll', 'retryFailed', 'verify', 'consensus', 'refresh'];
+
+export type JobState = 'pending' | 'in_flight' | 'done';
+
+// One client's lookup with one provider.
+export interface JobEntry {
+  clientKey: string;
+  providerId: string;
+  state: JobState;
+  // The provider's answer, kept from when it arrives until the client's batch is processed, so a batch sent again
+  // after a pause or reload does not ask this provider twice.
+  outcome?: EnrichmentOutcome;
+}
+
+export interface EnrichmentJobQueue {
+  mode: EnrichmentMode;
+  providerIds: string[];
+  // The status each client had before the run, given back when the run is discarded.
+  previousStatuses: Record<string, Client['cityStatus']>;
+  // In the order the clients are sent.
+  entries: JobEntry[];
+  startedAt: string;
+}
+
+export const createJobQueue = (mode: EnrichmentMode, providerIds: string[], clients: { key: string; status: Client['cityStatus'] }[]): EnrichmentJobQueue => ({
+  mode,
+  providerIds,
+  previousStatuses: Object.fromEntries(clients.map(client => [client.key, client.status])),
+  entries: clients.flatMap(client => providerIds.map((providerId): JobEntry => ({ clientKey: client.key, providerId, state: 'pending' }))),
+  startedAt: new Date().toISOString(),
+});
+
+// Moves the given clients' entries for one provider, or for all providers when none is given, to a new state.
+// Any answer kept with them is dropped.
+export const setJobState = (queue: EnrichmentJobQueue, clientKeys: string[], state: JobState, providerId?: string): EnrichmentJobQueue => ({
+  ...queue,
+  entries: queue.entries.map(entry =>
+    clientKeys.includes(entry.clientKey) && (providerId === undefined || entry.providerId === providerId)
+      ? { clientKey: entry.clientKey, providerId: entry.providerId, state }
+      : entry
+  ),
+});
+
+// Marks the clients one provider answered as done and keeps the answers, keyed by client key.
+export const saveJobOutcomes = (queue: EnrichmentJobQueue, providerId: string, outcomes: Map<string, EnrichmentOutcome>): EnrichmentJobQueue => ({
+  ...queue,
+  entries: queue.entries.map(entry => {
+    const outcome = entry.providerId === providerId ? outcomes.get(entry.clientKey) : undefined;
+    return outcome ? { ...entry, state: 'done', outcome } : entry;
+  }),
+});
+
+// The answers one provider already gave in this run, keyed by client key.
+export const getJobOutcomes = (queue: EnrichmentJobQueue, providerId: string): Map<string, EnrichmentOutcome> => new Map(
+  queue.entries
+    .filter(entry => entry.providerId === providerId && entry.outcome)
+    .map(entry => [entry.clientKey, entry.outcome!])
+);
+
+// Requests in flight that will not return, because they were aborted or the page closed, are pending again.
+export const requeueInFlightJobs = (queue: EnrichmentJobQueue): EnrichmentJobQueue => ({
+  ...queue,
+  entries: queue.entries.map(entry => (entry.state === 'in_flight' ? { ...entry, state: 'pending' } : entry)),
+});
+
+// Clients still waiting for an answer from any provider, in queue order. Providers that already answered such a
+// client have their answer kept and are not asked again.
+export const getUnfinishedClientKeys = (queue: EnrichmentJobQueue): string[] => {
+  const keys = queue.entries.filter(entry => entry.state !== 'done').map(entry => entry.clientKey);
+  return [...new Set(keys)];
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isEnrichmentOutcome = (value: unknown): value is EnrichmentOutcome => {
+  if (!isRecord(value)) return false;
+  if (value.kind === 'result') return isRecord(value.result) && typeof value.result.city === 'string' && typeof value.result.jobTitle === 'string';
+  return value.kind === 'error' && isRecord(value.error) && typeof value.error.message === 'string';
+};
+
+const isJobEntry = (value: unknown): value is JobEntry => {
+  if (!isRecord(value)) return false;
+  const { clientKey, providerId, state, outcome } = value;
+  return typeof clientKey === 'string' && typeof providerId === 'string' && typeof state === 'string' && ['pending', 'in_flight', 'done'].includes(state)
+    && (outcome === undefined || isEnrichmentOutcome(outcome));
+};
+
+// Reads a saved queue. Requests that were in flight when the page closed never returned, so they are pending again.
+export const parseJobQueue = (value: string | null): EnrichmentJobQueue | null => {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    if (!ENRICHMENT_MODES.includes(parsed?.mode) || !Array.isArray(parsed.providerIds) || !Array.isArray(parsed.entries) || !parsed.entries.every(isJobEntry)) {
+      throw new Error('Unexpected job queue format.');
+    }
+    return requeueInFlightJobs({
+      mode: parsed.mode,
+      providerIds: parsed.providerIds.filter((id: unknown): id is string => typeof id === 'string'),
+      previousStatuses: typeof parsed.previousStatuses === 'object' && parsed.previousStatuses !== null ? parsed.previousStatuses : {},
+      entries: parsed.entries,
+      startedAt: typeof parsed.startedAt === 'string' ? parsed.startedAt : '',
+    });
+  } catch (error) {
+    console.error('Could not read the saved enrichment run:', error);
+    return null;
+  }
+};
@@ -0,0 +1,47 @@
+import { Client } from '../types';
+import { EnrichmentBatch, EnrichmentProvider, ModelCompletion, ProviderSettingValues } from './enrichmentProvider';
+import { ChatCompletionsEndpoint, requestChatCompletion, requestChatCompletionsBatch } from './openaiService';
+
+// Runs lookups on a self-hosted model behind an OpenAI-compatible API, such as Ollama or the llama.cpp server,
+// so client data never leaves the network. The model has no web access and answers from what it already knows.
+
+let endpoint: ChatCompletionsEndpoint | null = null;
+
+const initializeLocalModel = ({ baseUrl, model, apiKey }: ProviderSettingValues) => {
+  if (!baseUrl || !model) {
+    throw new Error("A base URL and a model name are required to initialize the local model service.");
+  }
+  // Not every local server supports `json_schema`, so only JSON mode is requested and the shared validation does the rest.
+  // Without web access the model could only make up its sources, so none are asked for.
+  endpoint = { baseUrl: baseUrl.replace(/\/+$/, ''), model, apiKey: apiKey || undefined, provider: localModelProvider, responseFormat: 'json_object', citeSources: false };
+};
+
+const findClientCitiesBatchLocal = async (clients: Client[], signal?: AbortSignal): Promise<EnrichmentBatch> => {
+  if (!endpoint) {
+    throw new Error("The local model service has not been initialized. Please configure its base URL and model.");
+  }
+  return requestChatCompletionsBatch(endpoint, clients, signal);
+};
+
+const completeLocal = async (prompt: string, signal?: AbortSignal): Promise<ModelCompletion> => {
+  if (!endpoint) {
+    throw new Error("The local model service has not been initialized. Please configure its base URL and model.");
+  }
+  return requestChatCompletion(endpoint, prompt, signal);
+};
+
+export const localModelProvider: EnrichmentProvider = {
+  id: 'local',
+  name: 'Local Model',
+  settings: [
+    { key: 'baseUrl', label: 'Local Model Base URL', storageKey: 'local-model-base-url', placeholder: 'e.g. http://localhost:11434/v1 for Ollama', required: true },
+    { key: 'model', label: 'Local Model Name', storageKey: 'local-model-name', placeholder: 'e.g. llama3.1', suggestions: ['llama3.1', 'qwen2.5', 'mistral'], required: true },
+    { key: 'apiKey', label: 'Local Model API Key', storageKey: 'local-model-api-key', placeholder: 'Only if your server requires one', secret: true },
+  ],
+  capabilities: { webSearch: false, findAll: true, retryFailed: true },
+  // A local server has no request quota; batches only wait for the previous one to finish.
+  rateLimits: { batchSize: 5, requestsPerMinute: null },
+  init: initializeLocalModel,
+  enrichBatch: findClientCitiesBatchLocal,
+  complete: completeLocal,
+};
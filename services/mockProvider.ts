@@ -0,0 +1,99 @@
+import { Client } from '../types';
+import { EnrichmentBatch, EnrichmentProvider, ModelCompletion, NO_TOKEN_USAGE, ProviderApiError, ProviderRateLimits, runValidatedBatch, TokenUsage } from './enrichmentProvider';
+
+// A provider that answers from recorded responses instead of calling an API, so the enrichment flow can run
+// offline and give the same answers every time. Each request replays the next recording through the same
+// validation, repair prompts and error handling the real providers use. Other prompts, sent with `complete`, take
+// the next recording as well.
+
+// One recorded answer: the raw text a model returned, or the failure an API reported. An error without a status
+// is thrown as a plain `Error`, the way the Gemini SDK reports failures, so only its message is read.
+export type RecordedResponse =
+  | { text: string; usage?: TokenUsage }
+  | { error: { message: string; status?: number; code?: string; retryAfterMs?: number } };
+
+export interface MockProviderOptions {
+  id?: string;
+  name?: string;
+  model?: string;
+  // No request quota by default, so replays are not slowed down.
+  rateLimits?: ProviderRateLimits;
+  // Whether the prompt asks the model to search the web.
+  webSearch?: boolean;
+}
+
+export interface MockProvider extends EnrichmentProvider {
+  // Every prompt sent so far, in order, including repair prompts.
+  getPrompts: () => string[];
+  // Recordings not replayed yet.
+  getRemainingCount: () => number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isRecordedResponse = (value: unknown): value is RecordedResponse => {
+  if (!isRecord(value)) return false;
+  const { text, usage, error } = value;
+  return (typeof text === 'string' && (usage === undefined || (isRecord(usage) && Number.isFinite(usage.inputTokens) && Number.isFinite(usage.outputTokens))))
+    || (isRecord(error) && typeof error.message === 'string' && (error.status === undefined || Number.isInteger(error.status)));
+};
+
+// Reads a fixture file holding a JSON array of recordings. Throws if it is not one.
+export const parseRecordedResponses = (json: string): RecordedResponse[] => {
+  const parsed = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Recorded responses must be a JSON array.');
+  }
+  const invalidIndex = parsed.findIndex(value => !isRecordedResponse(value));
+  if (invalidIndex !== -1) {
+    throw new Error(`Recorded response ${invalidIndex + 1} needs a "text" string or an "error" with a "message".`);
+  }
+  return parsed;
+};
+
+export const createMockProvider = (responses: RecordedResponse[], options: MockProviderOptions = {}): MockProvider => {
+  const remaining = [...responses];
+  const prompts: string[] = [];
+  const model = options.model ?? 'mock-model';
+
+  const replayNext = async (prompt: string, signal?: AbortSignal) => {
+    if (signal?.aborted) throw signal.reason;
+    prompts.push(prompt);
+    const response = remaining.shift();
+    if (!response) {
+      throw new Error(`${provider.name} has no recorded response left for request ${prompts.length}.`);
+    }
+    if ('error' in response) {
+      const { message, status, code, retryAfterMs } = response.error;
+      throw status === undefined ? new Error(message) : new ProviderApiError(status, message, code, retryAfterMs);
+    }
+    return { text: response.text, usage: response.usage };
+  };
+
+  const enrichBatch = async (clients: Client[], signal?: AbortSignal): Promise<EnrichmentBatch> => {
+    if (clients.length === 0) {
+      return { results: new Map(), usage: NO_TOKEN_USAGE, model };
+    }
+    const batch = await runValidatedBatch(clients, replayNext, { webSearch: options.webSearch ?? false, citeSources: false }, provider, signal);
+    return { ...batch, model };
+  };
+
+  const complete = async (prompt: string, signal?: AbortSignal): Promise<ModelCompletion> => {
+    const { text, usage } = await replayNext(prompt, signal);
+    return { text, usage: usage ?? NO_TOKEN_USAGE, model };
+  };
+
+  const provider: MockProvider = {
+    id: options.id ?? 'mock',
+    name: options.name ?? 'Mock',
+    settings: [],
+    capabilities: { webSearch: options.webSearch ?? false, findAll: true, retryFailed: true },
+    rateLimits: options.rateLimits ?? { batchSize: 5, requestsPerMinute: null },
+    init: () => {},
+    enrichBatch,
+    complete,
+    getPrompts: () => [...prompts],
+    getRemainingCount: () => remaining.length,
+  };
+  return provider;
+};
@@ -1,130 +1,137 @@
 import { Client } from '../types';
+import { Completion, EnrichmentBatch, EnrichmentProvider, ModelCompletion, NO_TOKEN_USAGE, ProviderApiError, ProviderIdentity, ProviderSettingValues, runValidatedBatch } from './enrichmentProvider';
+import { ENRICHMENT_RESPONSE_SCHEMA } from './enrichmentSchema';
+import { parseRetryAfterHeaders } from './retryAfter';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o';
 
 let openAiApiKey: string | null = null;
+let openAiModel = DEFAULT_OPENAI_MODEL;
 
-export const initializeOpenAI = (apiKey: string) => {
-  if (!apiKey) {
-    throw new Error("A valid OpenAI API Key is required to initialize the service.");
-  }
-  openAiApiKey = apiKey;
-};
+// Any server that implements the OpenAI chat completions API, e.g. OpenAI itself, Ollama or llama.cpp.
+export interface ChatCompletionsEndpoint {
+  // The API root without a trailing slash, e.g. `https://api.openai.com/v1`.
+  baseUrl: string;
+  // Sent as a Bearer token when set. Local servers usually do not need one.
+  apiKey?: string;
+  model: string;
+  // Named in log messages and errors.
+  provider: ProviderIdentity;
+  // `json_schema` enforces the shared response schema on the server; `json_object` only guarantees valid JSON,
+  // for servers that do not support schemas.
+  responseFormat: 'json_schema' | 'json_object';
+  // Ask the model to list the pages behind each answer. Only useful for models that can browse or cite reliably.
+  citeSources: boolean;
+}
 
-export const findClientCitiesBatchOpenAI = async (clients: Client[]): Promise<Map<number, { city: string; jobTitle: string } | string>> => {
-  if (!openAiApiKey) {
-    throw new Error("OpenAI service has not been initialized. Please configure the API key.");
-  }
-  if (clients.length === 0) {
-    return new Map();
+const buildResponseFormat = (format: ChatCompletionsEndpoint['responseFormat']) => {
+  if (format === 'json_object') {
+    return { type: "json_object" };
   }
+  return { type: "json_schema", json_schema: { name: "client_enrichment", strict: true, schema: ENRICHMENT_RESPONSE_SCHEMA } };
+};
 
-  const clientDataForPrompt = clients.map(client => {
-    const { id, firstName, lastName, jobTitle, company } = client;
-    const personIdentifier = [firstName, lastName].filter(Boolean).join(' ');
-    let professionalContext = '';
-    if (jobTitle && company) {
-      professionalContext = `${jobTitle} at ${company}`;
-    } else if (jobTitle || company) {
-      professionalContext = jobTitle || company;
-    }
-    return { id, person: personIdentifier, context: professionalContext };
+// Sends one prompt to a chat completions endpoint. Throws a `ProviderApiError` when the API rejects it.
+const sendChatCompletion = async (endpoint: ChatCompletionsEndpoint, prompt: string, responseFormat: ChatCompletionsEndpoint['responseFormat'], signal?: AbortSignal): Promise<Completion> => {
+  const response = await fetch(`${endpoint.baseUrl}/chat/completions`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: endpoint.model,
+      messages: [
+        {
+          role: "user",
+          content: prompt,
+        },
+      ],
+      response_format: buildResponseFormat(responseFormat),
+    }),
   });
 
-  const prompt = `
-    Your function is to find the current city and job title for each professional in the INPUT_DATA array.
-    Use your internal knowledge and search capabilities to find the most likely details for each person.
-
-    RULES:
-    1. Primary sources should be professional social media profiles or official company websites.
-    2. Be resourceful. If a precise search fails, try broader searches.
-    3. The 'city' should be a string (e.g., "San Francisco, CA", "London, UK"). If no city is found, it MUST be "Not Found".
-    4. The 'jobTitle' should be the most current job title found. If no job title is found, it MUST be an empty string "".
-
-    CRITICAL OUTPUT FORMAT:
-    Your entire response must be a single JSON object. This object must contain one key: "results". The value of "results" must be a JSON array. Each object in the array must correspond to a person from the input and contain their original 'id' (number), the found 'city' (string), and the found 'jobTitle' (string).
+  if (!response.ok) {
+      const errorText = await response.text();
+      const retryAfterMs = parseRetryAfterHeaders(response.headers);
+      let errorData;
+      try {
+          errorData = JSON.parse(errorText);
+      } catch (e) {
+          throw new ProviderApiError(response.status, `Status ${response.status} - ${errorText || 'No response body'}`, undefined, retryAfterMs);
+      }
+      console.error(`${endpoint.provider.name} API Error:`, JSON.stringify(errorData, null, 2));
+      throw new ProviderApiError(response.status, errorData?.error?.message || "An unknown API error occurred.", errorData?.error?.code, retryAfterMs);
+  }
 
-    INPUT_DATA:
-    ${JSON.stringify(clientDataForPrompt, null, 2)}
-  `;
-  
-  const resultMap = new Map<number, { city: string; jobTitle: string } | string>();
+  const data = await response.json();
+  return {
+    text: data?.choices?.[0]?.message?.content ?? '',
+    usage: { inputTokens: data?.usage?.prompt_tokens || 0, outputTokens: data?.usage?.completion_tokens || 0 },
+  };
+};
 
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openAiApiKey}`
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        response_format: { type: "json_object" },
-      }),
-    });
+// Sends one batch to a chat completions endpoint and reads the answer with the shared JSON output contract.
+export const requestChatCompletionsBatch = async (endpoint: ChatCompletionsEndpoint, clients: Client[], signal?: AbortSignal): Promise<EnrichmentBatch> => {
+  if (clients.length === 0) {
+    return { results: new Map(), usage: NO_TOKEN_USAGE, model: endpoint.model };
+  }
 
-    if (!response.ok) {
-        let errorData;
-        try {
-            errorData = await response.json();
-        } catch (e) {
-            const errorText = await response.text();
-            const finalError = `API Error: Status ${response.status} - ${errorText || 'No response body'}`;
-            clients.forEach(c => resultMap.set(c.id, finalError));
-            return resultMap;
-        }
+  const batch = await runValidatedBatch(
+    clients,
+    (prompt, requestSignal) => sendChatCompletion(endpoint, prompt, endpoint.responseFormat, requestSignal),
+    { webSearch: false, citeSources: endpoint.citeSources },
+    endpoint.provider,
+    signal,
+  );
+  return { ...batch, model: endpoint.model };
+};
 
-        console.error("OpenAI API Error:", JSON.stringify(errorData, null, 2));
-        const specificMessage = errorData?.error?.message || "An unknown API error occurred.";
-        let errorType = `API Error: ${specificMessage}`;
-        
-        if (errorData?.error?.code === 'insufficient_quota') {
-            errorType = "Insufficient Quota";
-        } else if (response.status === 401) {
-            errorType = "Invalid API Key";
-        } else if (response.status === 429) {
-            errorType = "Rate Limit Exceeded";
-        }
-        
-        clients.forEach(c => resultMap.set(c.id, errorType));
-        return resultMap;
-    }
+// Answers a prompt other than a lookup. Only JSON mode is requested, since the lookup schema does not apply.
+export const requestChatCompletion = async (endpoint: ChatCompletionsEndpoint, prompt: string, signal?: AbortSignal): Promise<ModelCompletion> => {
+  const completion = await sendChatCompletion(endpoint, prompt, 'json_object', signal);
+  return { text: completion.text, usage: completion.usage || NO_TOKEN_USAGE, model: endpoint.model };
+};
 
-    const data = await response.json();
-    const content = JSON.parse(data.choices[0].message.content);
-    
-    if (content && Array.isArray(content.results)) {
-        for (const item of content.results) {
-            if (typeof item.id === 'number' && typeof item.city === 'string' && typeof item.jobTitle === 'string') {
-                resultMap.set(item.id, {
-                  city: item.city.trim() || "Not Found",
-                  jobTitle: item.jobTitle.trim()
-                });
-            }
-        }
-    }
+const initializeOpenAI = ({ apiKey, model }: ProviderSettingValues) => {
+  if (!apiKey) {
+    throw new Error("A valid OpenAI API Key is required to initialize the service.");
+  }
+  openAiApiKey = apiKey;
+  openAiModel = model || DEFAULT_OPENAI_MODEL;
+};
 
-    // Ensure all clients get a result, even if missing from the response
-    for (const client of clients) {
-        if (!resultMap.has(client.id)) {
-            resultMap.set(client.id, "Error: No result from AI");
-        }
-    }
+const getOpenAiEndpoint = (apiKey: string): ChatCompletionsEndpoint => {
+  return { baseUrl: OPENAI_BASE_URL, apiKey, model: openAiModel, provider: openAiProvider, responseFormat: 'json_schema', citeSources: true };
+};
 
-    return resultMap;
+const findClientCitiesBatchOpenAI = async (clients: Client[], signal?: AbortSignal): Promise<EnrichmentBatch> => {
+  if (!openAiApiKey) {
+    throw new Error("OpenAI service has not been initialized. Please configure the API key.");
+  }
+  return requestChatCompletionsBatch(getOpenAiEndpoint(openAiApiKey), clients, signal);
+};
 
-  } catch (error) {
-    console.error("Error calling OpenAI API:", error);
-    let errorMessage = "An unexpected network or parsing error occurred.";
-    if (error instanceof Error) {
-        errorMessage = error.message;
-    }
-    const finalError = `API Error: ${errorMessage}`;
-    clients.forEach(c => resultMap.set(c.id, finalError));
-    return resultMap;
+const completeOpenAI = async (prompt: string, signal?: AbortSignal): Promise<ModelCompletion> => {
+  if (!openAiApiKey) {
+    throw new Error("OpenAI service has not been initialized. Please configure the API key.");
   }
+  return requestChatCompletion(getOpenAiEndpoint(openAiApiKey), prompt, signal);
+};
+
+export const openAiProvider: EnrichmentProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  settings: [
+    { key: 'apiKey', label: 'OpenAI API Key', storageKey: 'openai-api-key', placeholder: 'For retrying failed searches', secret: true, required: true },
+    // Structured outputs need gpt-4o-2024-08-06 or later.
+    { key: 'model', label: 'OpenAI Model', storageKey: 'openai-model', placeholder: DEFAULT_OPENAI_MODEL, suggestions: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'], advanced: true },
+  ],
+  capabilities: { webSearch: false, findAll: true, retryFailed: true },
+  rateLimits: { batchSize: 5, requestsPerMinute: 30 },
+  init: initializeOpenAI,
+  enrichBatch: findClientCitiesBatchOpenAI,
+  complete: completeOpenAI,
 };
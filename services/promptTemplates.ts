@@ -0,0 +1,108 @@
+// The enrichment prompt is a user-editable template. Placeholders are filled in per batch; `{{inputJson}}` and
+// `{{outputRules}}` are required, since results can only be read back if the model gets the clients and the
+// output contract. Every saved edit becomes a new numbered version; version 0 is the built-in default.
+
+export const PROMPT_PLACEHOLDERS = [
+  { name: 'searchInstructions', description: 'How to search: Google Search steps for providers with web search, otherwise a knowledge-based variant.', required: false },
+  { name: 'inputJson', description: 'The batch of people as a JSON array of id, person and context.', required: true },
+  { name: 'outputRules', description: 'The fields to return and the required JSON format.', required: true },
+];
+
+export const DEFAULT_PROMPT_TEMPLATE = `You are an expert researcher. Your goal is to find the current city and job title for each professional in the provided JSON array.
+
+Use the following process:
+{{searchInstructions}}
+3. Analyze the results to determine the most likely current city and job title.
+
+INPUT JSON:
+{{inputJson}}
+
+{{outputRules}}`;
+
+export const DEFAULT_PROMPT_VERSION = 0;
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  // ISO timestamp of when the version was saved.
+  savedAt: string;
+}
+
+// What is stored in the browser: the saved versions and which one is in use.
+export interface PromptTemplateStore {
+  versions: PromptTemplateVersion[];
+  activeVersion: number;
+}
+
+export const EMPTY_PROMPT_TEMPLATE_STORE: PromptTemplateStore = { versions: [], activeVersion: DEFAULT_PROMPT_VERSION };
+
+// Lists the problems that would stop a template from working, e.g. a missing required placeholder.
+export const validatePromptTemplate = (body: string): string[] => {
+  const problems: string[] = [];
+  for (const placeholder of PROMPT_PLACEHOLDERS) {
+    if (placeholder.required && !body.includes(`{{${placeholder.name}}}`)) {
+      problems.push(`The template must contain {{${placeholder.name}}}.`);
+    }
+  }
+  const unknown = [...body.matchAll(/\{\{\s*([^}]*?)\s*\}\}/g)]
+    .map(match => match[1])
+    .filter(name => !PROMPT_PLACEHOLDERS.some(placeholder => placeholder.name === name));
+  for (const name of new Set(unknown)) {
+    problems.push(`{{${name}}} is not a known placeholder.`);
+  }
+  return problems;
+};
+
+export const renderPromptTemplate = (body: string, values: Record<string, string>): string => {
+  return body.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => name in values ? values[name] : placeholder);
+};
+
+const isPromptTemplateVersion = (value: unknown): value is PromptTemplateVersion => {
+  if (!value || typeof value !== 'object') return false;
+  const { version, body, savedAt } = value as Record<string, unknown>;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 && typeof body === 'string' && typeof savedAt === 'string';
+};
+
+// Reads the stored versions, ignoring anything malformed. An active version that no longer exists falls back to
+// the default.
+export const parsePromptTemplateStore = (raw: string | null): PromptTemplateStore => {
+  if (!raw) {
+    return EMPTY_PROMPT_TEMPLATE_STORE;
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    const { versions: storedVersions, activeVersion: storedActiveVersion } = (parsed || {}) as Record<string, unknown>;
+    const versions = Array.isArray(storedVersions) ? storedVersions.filter(isPromptTemplateVersion) : [];
+    const activeVersion = versions.find(version => version.version === storedActiveVersion)?.version ?? DEFAULT_PROMPT_VERSION;
+    return { versions, activeVersion };
+  } catch (e) {
+    console.error('Could not read the saved prompt templates:', e);
+    return EMPTY_PROMPT_TEMPLATE_STORE;
+  }
+};
+
+export const getPromptTemplateBody = (store: PromptTemplateStore, version: number): string => {
+  return store.versions.find(v => v.version === version)?.body ?? DEFAULT_PROMPT_TEMPLATE;
+};
+
+// Saves an edited template as the next version and makes it active. Throws if the template is not usable.
+export const savePromptTemplateVersion = (store: PromptTemplateStore, body: string, savedAt: Date = new Date()): PromptTemplateStore => {
+  const problems = validatePromptTemplate(body);
+  if (problems.length > 0) {
+    throw new Error(problems.join(' '));
+  }
+  const version = Math.max(DEFAULT_PROMPT_VERSION, ...store.versions.map(v => v.version)) + 1;
+  return {
+    versions: [...store.versions, { version, body, savedAt: savedAt.toISOString() }],
+    activeVersion: version,
+  };
+};
+
+// The template every provider builds its prompts from. Set by the app from the stored versions.
+let activeTemplate: { version: number; body: string } = { version: DEFAULT_PROMPT_VERSION, body: DEFAULT_PROMPT_TEMPLATE };
+
+export const setActivePromptTemplate = (store: PromptTemplateStore) => {
+  activeTemplate = { version: store.activeVersion, body: getPromptTemplateBody(store, store.activeVersion) };
+};
+
+export const getActivePromptTemplate = () => activeTemplate;
@@ -0,0 +1,42 @@
+import { EnrichmentProvider, ProviderSettingValues } from './enrichmentProvider';
+import { geminiProvider } from './geminiService';
+import { openAiProvider } from './openaiService';
+import { localModelProvider } from './localModelService';
+
+// All AI providers the app offers, in the order their buttons appear. The first configured provider is the
+// default, used for single-row lookups and for verifying existing cities.
+const providers: EnrichmentProvider[] = [];
+
+export const registerEnrichmentProvider = (provider: EnrichmentProvider) => {
+  if (providers.some(p => p.id === provider.id)) {
+    throw new Error(`An enrichment provider with the id "${provider.id}" is already registered.`);
+  }
+  providers.push(provider);
+};
+
+export const getEnrichmentProviders = (): EnrichmentProvider[] => providers;
+
+export const getEnrichmentProvider = (id: string): EnrichmentProvider | undefined => {
+  return providers.find(provider => provider.id === id);
+};
+
+// Setting values of every provider, keyed by provider id.
+export type AllProviderSettings = Record<string, ProviderSettingValues>;
+
+// A provider can be used once all of its required settings have a value.
+export const isProviderConfigured = (provider: EnrichmentProvider, settings: AllProviderSettings): boolean => {
+  return provider.settings.every(field => !field.required || !!settings[provider.id]?.[field.key]?.trim());
+};
+
+export const getConfiguredProviders = (settings: AllProviderSettings): EnrichmentProvider[] => {
+  return providers.filter(provider => isProviderConfigured(provider, settings));
+};
+
+// The app can start with any one provider, so lookups can stay entirely on a local model.
+export const hasConfiguredProvider = (settings: AllProviderSettings): boolean => {
+  return getConfiguredProviders(settings).length > 0;
+};
+
+registerEnrichmentProvider(geminiProvider);
+registerEnrichmentProvider(openAiProvider);
+registerEnrichmentProvider(localModelProvider);
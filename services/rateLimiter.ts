@@ -0,0 +1,179 @@
+import { Client } from '../types';
+import { EnrichmentBatch, EnrichmentProvider, ProviderRateLimits } from './enrichmentProvider';
+
+// Paces each provider's requests with a token bucket and retries rate-limited batches with backoff, so a run
+// rides out a rate limit instead of stopping at the first one.
+
+export const DEFAULT_MAX_RATE_LIMIT_ATTEMPTS = 5;
+
+// Reads the stored number of attempts per batch, falling back to the default for missing or invalid values.
+export const parseMaxRateLimitAttempts = (value: string | null): number => {
+  const attempts = value === null ? NaN : Number(value);
+  return Number.isInteger(attempts) && attempts >= 1 ? attempts : DEFAULT_MAX_RATE_LIMIT_ATTEMPTS;
+};
+
+// Time source of a limiter; replaced in tests to avoid real waits.
+export interface Clock {
+  now: () => number;
+  // Rejects with the signal's reason when it is aborted during the wait.
+  sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms, signal) => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }),
+};
+
+export interface RateLimiter {
+  // Resolves once a request may be sent, taking a token from the bucket. Rejects when the signal is aborted.
+  acquire: (signal?: AbortSignal) => Promise<void>;
+  // Holds every request back for `waitMs` and halves the rate, after the provider rejected a request.
+  reportRateLimited: (waitMs: number) => void;
+  // Raises the rate back towards the provider's limit after a request went through.
+  reportSuccess: () => void;
+  // Requests per minute currently allowed, or null without a limit.
+  getRequestsPerMinute: () => number | null;
+}
+
+// The rate never drops below this share of the configured limit, however many rate limits were hit.
+const MIN_RATE_SHARE = 1 / 8;
+// Each successful request wins back this share of the configured limit.
+const RECOVERY_RATE_SHARE = 1 / 10;
+
+// A token bucket holding one token, refilled at the provider's requests-per-minute: the first request goes out
+// at once and later ones are spaced evenly.
+export const createRateLimiter = ({ requestsPerMinute }: ProviderRateLimits, clock: Clock = systemClock): RateLimiter => {
+  const maxRate = requestsPerMinute || null;
+  let rate = maxRate;
+  let tokens = 1;
+  let refilledAt = clock.now();
+  let blockedUntil = 0;
+
+  const refill = () => {
+    const now = clock.now();
+    if (rate !== null) {
+      tokens = Math.min(1, tokens + ((now - refilledAt) * rate) / 60000);
+    }
+    refilledAt = now;
+  };
+
+  return {
+    acquire: async signal => {
+      for (;;) {
+        signal?.throwIfAborted();
+        refill();
+        const now = clock.now();
+        if (now < blockedUntil) {
+          await clock.sleep(blockedUntil - now, signal);
+          continue;
+        }
+        if (rate === null) return;
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await clock.sleep(Math.ceil(((1 - tokens) * 60000) / rate), signal);
+      }
+    },
+    reportRateLimited: waitMs => {
+      refill();
+      blockedUntil = Math.max(blockedUntil, clock.now() + waitMs);
+      tokens = 0;
+      if (rate !== null && maxRate !== null) {
+        rate = Math.max(maxRate * MIN_RATE_SHARE, rate / 2);
+      }
+    },
+    reportSuccess: () => {
+      refill();
+      if (rate !== null && maxRate !== null) {
+        rate = Math.min(maxRate, rate + maxRate * RECOVERY_RATE_SHARE);
+      }
+    },
+    getRequestsPerMinute: () => rate,
+  };
+};
+
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_BACKOFF: BackoffOptions = { baseDelayMs: 2000, maxDelayMs: 120000 };
+
+// Exponential backoff for the given (1-based) attempt with "equal jitter": half the delay is fixed and half is
+// random, so parallel retries spread out without any of them retrying almost immediately.
+export const getBackoffDelay = (attempt: number, options: BackoffOptions = DEFAULT_BACKOFF, random: () => number = Math.random): number => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+};
+
+// How long to wait before retrying: what the provider asked for, or the backoff when it did not say.
+export const getRetryDelay = (attempt: number, retryAfterMs?: number, random: () => number = Math.random): number => {
+  if (retryAfterMs !== undefined) {
+    // A little jitter on top, so parallel requests do not all return the moment the window reopens.
+    return retryAfterMs + Math.round(random() * 1000);
+  }
+  return getBackoffDelay(attempt, DEFAULT_BACKOFF, random);
+};
+
+export const isRateLimitedBatch = (batch: EnrichmentBatch): boolean => {
+  return batch.batchError?.code === 'rate_limited';
+};
+
+export interface RateLimitWait {
+  providerName: string;
+  // The attempt that was rate limited, counting from 1.
+  attempt: number;
+  maxAttempts: number;
+  // When the next attempt is sent, as a timestamp.
+  resumeAt: number;
+}
+
+interface RetryOptions {
+  maxAttempts: number;
+  // Called before waiting out a rate limit, e.g. to show a countdown.
+  onWait?: (wait: RateLimitWait) => void;
+  // Aborts the waits and the request in flight; the returned promise then rejects with the signal's reason.
+  signal?: AbortSignal;
+  clock?: Clock;
+  random?: () => number;
+}
+
+// Sends a batch through the provider's limiter, retrying while it is rate limited. After `maxAttempts` the
+// rate-limited batch is returned as is. The returned usage covers every attempt.
+export const enrichBatchWithRetries = async (provider: EnrichmentProvider, clients: Client[], limiter: RateLimiter, { maxAttempts, onWait, signal, clock = systemClock, random = Math.random }: RetryOptions): Promise<EnrichmentBatch> => {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  for (let attempt = 1; ; attempt++) {
+    await limiter.acquire(signal);
+    const batch = await provider.enrichBatch(clients, signal);
+    inputTokens += batch.usage.inputTokens;
+    outputTokens += batch.usage.outputTokens;
+    const withTotalUsage = { ...batch, usage: { inputTokens, outputTokens } };
+
+    if (!isRateLimitedBatch(batch)) {
+      limiter.reportSuccess();
+      return withTotalUsage;
+    }
+
+    const delay = getRetryDelay(attempt, batch.retryAfterMs, random);
+    limiter.reportRateLimited(delay);
+    if (attempt >= maxAttempts) {
+      console.error(`${provider.name} was still rate limited after ${maxAttempts} attempts; giving up on this batch.`);
+      return withTotalUsage;
+    }
+    console.warn(`${provider.name} rate limit reached; retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt} of ${maxAttempts}).`);
+    onWait?.({ providerName: provider.name, attempt, maxAttempts, resumeAt: clock.now() + delay });
+  }
+};
@@ -0,0 +1,110 @@
+import { Client } from '../types';
+import { EnrichmentBatch, EnrichmentResultMap, NO_TOKEN_USAGE } from './enrichmentProvider';
+import { EnrichmentResult } from './enrichmentSchema';
+
+// Answers already paid for, saved in the browser so the same person is not looked up again when a sheet is
+// reloaded with shifted rows, the settings are reset or a run is repeated. An answer is only reused for the
+// provider that gave it and the prompt version it was asked with.
+
+export const DEFAULT_CACHE_TTL_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CachedResult {
+  result: EnrichmentResult;
+  cachedAt: string;
+}
+
+// Keyed by `getResultCacheKey`.
+export type ResultCache = Record<string, CachedResult>;
+
+// Reads a stored number of days. Zero turns the cache off; missing or invalid values fall back to the default.
+export const parseCacheTtlDays = (raw: string | null): number => {
+  const value = Number(raw);
+  return raw !== null && raw.trim() !== '' && Number.isInteger(value) && value >= 0 ? value : DEFAULT_CACHE_TTL_DAYS;
+};
+
+// Ignores case, accents, punctuation and extra spaces, so "José  O'Neil" and "jose o neil" are the same person.
+const normalizeText = (value: string): string =>
+  value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const getPersonKey = (client: Pick<Client, 'firstName' | 'lastName' | 'company'>): string =>
+  `${normalizeText(`${client.firstName} ${client.lastName}`)}|${normalizeText(client.company)}`;
+
+export const getResultCacheKey = (client: Pick<Client, 'firstName' | 'lastName' | 'company'>, providerId: string, promptVersion: number): string =>
+  `${getPersonKey(client)}|${providerId}|v${promptVersion}`;
+
+const isFresh = (entry: CachedResult, ttlDays: number, now: number): boolean =>
+  now - Date.parse(entry.cachedAt) < ttlDays * DAY_MS;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isCachedResult = (value: unknown): value is CachedResult =>
+  isRecord(value) && typeof value.cachedAt === 'string' && !Number.isNaN(Date.parse(value.cachedAt))
+    && isRecord(value.result) && typeof value.result.city === 'string' && typeof value.result.jobTitle === 'string';
+
+// Reads the saved cache, dropping expired and malformed entries.
+export const parseResultCache = (raw: string | null, ttlDays: number, now: number = Date.now()): ResultCache => {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('Unexpected result cache format.');
+    }
+    return pruneResultCache(Object.fromEntries(Object.entries(parsed).filter(([, entry]) => isCachedResult(entry))) as ResultCache, ttlDays, now);
+  } catch (e) {
+    console.error('Could not read the saved result cache:', e);
+    return {};
+  }
+};
+
+export const pruneResultCache = (cache: ResultCache, ttlDays: number, now: number = Date.now()): ResultCache =>
+  Object.fromEntries(Object.entries(cache).filter(([, entry]) => isFresh(entry, ttlDays, now)));
+
+// Forgets every cached answer for these people, whichever provider or prompt version gave it.
+export const removeCachedResults = (cache: ResultCache, clients: Pick<Client, 'firstName' | 'lastName' | 'company'>[]): ResultCache => {
+  const prefixes = clients.map(client => `${getPersonKey(client)}|`);
+  return Object.fromEntries(Object.entries(cache).filter(([key]) => !prefixes.some(prefix => key.startsWith(prefix))));
+};
+
+// Splits a batch into the clients with a fresh cached answer from this provider and the clients still to send.
+export const lookupCachedResults = (cache: ResultCache, clients: Client[], providerId: string, promptVersion: number, ttlDays: number, now: number = Date.now()) => {
+  const cached = new Map<number, CachedResult>();
+  const uncached: Client[] = [];
+  for (const client of clients) {
+    const entry = cache[getResultCacheKey(client, providerId, promptVersion)];
+    if (entry && isFresh(entry, ttlDays, now)) {
+      cached.set(client.id, entry);
+    } else {
+      uncached.push(client);
+    }
+  }
+  return { cached, uncached };
+};
+
+// Saves the cities a batch found. "Not found" answers and errors are left out, so retrying asks again.
+export const addToResultCache = (cache: ResultCache, clients: Client[], batch: EnrichmentBatch, providerId: string, promptVersion: number, now: number = Date.now()): ResultCache => {
+  const next = { ...cache };
+  const cachedAt = new Date(now).toISOString();
+  for (const client of clients) {
+    const outcome = batch.results.get(client.id);
+    if (outcome?.kind === 'result' && outcome.result.city.trim() && outcome.result.city.toLowerCase() !== 'not found') {
+      next[getResultCacheKey(client, providerId, promptVersion)] = { result: outcome.result, cachedAt };
+    }
+  }
+  return next;
+};
+
+// Adds the cached answers to the batch sent for the other clients, or stands in for it when nothing was sent.
+export const mergeCachedResults = (clients: Client[], sent: EnrichmentBatch | null, cached: Map<number, CachedResult>): EnrichmentBatch => {
+  const results: EnrichmentResultMap = new Map();
+  for (const client of clients) {
+    const entry = cached.get(client.id);
+    const outcome = entry ? { kind: 'result' as const, result: entry.result } : sent?.results.get(client.id);
+    if (outcome) results.set(client.id, outcome);
+  }
+  const cachedAt = new Map([...cached].map(([clientId, entry]) => [clientId, entry.cachedAt]));
+  return sent ? { ...sent, results, cachedAt } : { results, usage: { ...NO_TOKEN_USAGE }, model: '', cachedAt };
+};
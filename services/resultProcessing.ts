@@ -0,0 +1,132 @@
+import { Client, EnrichmentError, EnrichmentErrorCode } from '../types';
+import { isBelowThreshold } from './confidenceReview';
+import { combineConsensusResults, ConsensusOutcome } from './consensus';
+import { EnrichmentBatch, EnrichmentProvider } from './enrichmentProvider';
+import { EnrichmentResult } from './enrichmentSchema';
+import { isSameCity, withResolvedLocation } from './gazetteer';
+import { withClassifiedTitle } from './titleClassifier';
+
+// Turns the batches providers return into updated client rows, and decides when a failed batch ends the run.
+
+// Applies an AI result to a client. For rows loaded with a prefilled city, the answer is compared with that city
+// and the outcome is recorded instead of blindly overwriting it. Found cities below the review threshold are
+// marked 'needs_review'. `cachedAt` is set when the result was reused from the result cache.
+const applyAnswer = (client: Client, result: EnrichmentResult, reviewThreshold: number, cachedAt?: string): Client => {
+  const isNotFound = result.city.toLowerCase() === 'not found';
+  const found = isBelowThreshold(result.confidence, reviewThreshold) ? 'needs_review' : 'found';
+  const details: Partial<Client> = {
+    jobTitle: result.jobTitle || client.jobTitle, // Keep original title if AI returns empty
+    sources: result.sources,
+    confidence: result.confidence,
+    rationale: result.rationale,
+    reviewed: undefined,
+    consensusCandidates: undefined,
+    error: undefined,
+    cachedAt,
+  };
+  const previousCity = client.prefilledCity;
+  if (!previousCity) {
+    return { ...client, ...details, city: result.city, cityStatus: isNotFound ? 'not_found' : found };
+  }
+  if (isNotFound) {
+    return { ...client, ...details, city: previousCity, cityStatus: 'prefilled', verification: { status: 'unverifiable', previousCity } };
+  }
+  if (isSameCity(result.city, previousCity)) {
+    return { ...client, ...details, city: previousCity, cityStatus: found, verification: { status: 'confirmed', previousCity } };
+  }
+  return { ...client, ...details, city: result.city, cityStatus: found, verification: { status: 'changed', previousCity } };
+};
+
+// Recomputes the fields derived from the city and the job title: the resolved location and the title's
+// seniority and function.
+export const withDerivedFields = (client: Client): Client => withClassifiedTitle(withResolvedLocation(client));
+
+// Applies an AI result and derives the location and title classification of the answer.
+export const applyFoundCity = (client: Client, result: EnrichmentResult, reviewThreshold: number, cachedAt?: string): Client => {
+  return withDerivedFields(applyAnswer(client, result, reviewThreshold, cachedAt));
+};
+
+// Applies the outcome of a consensus run. A disputed row keeps its city until the user picks a candidate.
+export const applyConsensusOutcome = (client: Client, outcome: ConsensusOutcome, reviewThreshold: number, cachedAt?: string): Client => {
+  if (outcome.status === 'agreed') {
+    return applyFoundCity(client, outcome.result, reviewThreshold, cachedAt);
+  }
+  if (outcome.status === 'failed') {
+    return { ...client, cityStatus: 'error', error: outcome.error };
+  }
+  return withResolvedLocation({
+    ...client,
+    city: client.prefilledCity || '',
+    cityStatus: 'disputed',
+    consensusCandidates: outcome.candidates,
+    error: undefined,
+    cachedAt: undefined,
+    sources: undefined,
+    confidence: undefined,
+    rationale: undefined,
+    reviewed: undefined,
+  });
+};
+
+// Applies a single provider's batch. A failed lookup keeps the city the row had; the error is shown next to it.
+export const applyApiResult = (clients: Client[], batch: EnrichmentBatch, reviewThreshold: number): Client[] => {
+  return clients.map(client => {
+    const outcome = batch.results.get(client.id);
+    if (!outcome) return client;
+    return outcome.kind === 'result'
+      ? applyFoundCity(client, outcome.result, reviewThreshold, batch.cachedAt?.get(client.id))
+      : { ...client, cityStatus: 'error', error: outcome.error };
+  });
+};
+
+// Errors that leave no point in sending the next batch.
+const STOPPING_ERRORS: EnrichmentErrorCode[] = ['invalid_api_key', 'insufficient_quota', 'rate_limited'];
+
+// Why a run stops after a batch, and whether the saved settings must be cleared first.
+export interface BatchStop {
+  error: EnrichmentError;
+  message: string;
+  resetSettings: boolean;
+}
+
+// Errors that apply to the whole batch, such as an invalid key or a rate limit that outlasted its retries, stop
+// the run. Other failed requests are reported per client and the run goes on. With several providers, the
+// first one's stop is reported.
+export const getBatchStop = (batches: EnrichmentBatch[], providers: EnrichmentProvider[], maxRateLimitAttempts: number): BatchStop | undefined => {
+  for (let i = 0; i < batches.length; i++) {
+    const error = batches[i].batchError;
+    const name = providers[i].name;
+    if (error?.code === 'invalid_api_key') {
+      return { error, message: `An invalid ${name} API Key was provided. Resetting settings.`, resetSettings: true };
+    }
+    if (error?.code === 'insufficient_quota') {
+      return { error, message: `${name} Quota Exceeded. Please check your plan and billing details on the ${name} website.`, resetSettings: false };
+    }
+    if (error?.code === 'rate_limited') {
+      // The batch was already retried with backoff, so this is more than a short burst over the limit.
+      return {
+        error,
+        message: `${name} was still rate limited after ${maxRateLimitAttempts} attempts. Paused processing. If this keeps happening, the daily quota may be used up; please try again later.`,
+        resetSettings: false,
+      };
+    }
+  }
+  return undefined;
+};
+
+// Compares the answers of every provider in a consensus run. When the batch stopped the run, nothing can be
+// compared and its clients fail with the stopping error instead.
+export const applyConsensusResults = (clients: Client[], batches: EnrichmentBatch[], providers: EnrichmentProvider[], reviewThreshold: number): Client[] => {
+  const stoppedBy = batches.find(batch => batch.batchError && STOPPING_ERRORS.includes(batch.batchError.code))?.batchError;
+  if (stoppedBy) {
+    return clients.map(client => batches[0].results.has(client.id) ? { ...client, cityStatus: 'error', error: stoppedBy } : client);
+  }
+
+  const outcomes = combineConsensusResults(providers, batches.map(batch => batch.results));
+  return clients.map(client => {
+    const outcome = outcomes.get(client.id);
+    // Only an agreement reached without asking anyone again counts as cached.
+    const cachedAt = batches.every(batch => batch.cachedAt?.has(client.id)) ? batches[0].cachedAt!.get(client.id) : undefined;
+    return outcome ? applyConsensusOutcome(client, outcome, reviewThreshold, cachedAt) : client;
+  });
+};
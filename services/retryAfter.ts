@@ -0,0 +1,47 @@
+// Reads how long a provider asked us to wait after a rate limit, from response headers or error bodies.
+
+const DURATION_UNITS_MS: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+
+// Parses Go-style durations as used in rate limit headers and error details, e.g. "17s", "6m0s", "1.5s", "20ms".
+export const parseDurationMs = (value: string): number | undefined => {
+  const trimmed = value.trim();
+  if (!/^(\d+(\.\d+)?(ms|h|m|s))+$/.test(trimmed)) return undefined;
+  let total = 0;
+  for (const [, amount, unit] of trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    total += parseFloat(amount) * DURATION_UNITS_MS[unit];
+  }
+  return Math.round(total);
+};
+
+// `Retry-After` holds either a number of seconds or an HTTP date.
+const parseRetryAfterValue = (value: string, now: number): number | undefined => {
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return Math.round(parseFloat(value) * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// The wait a rate-limited response asks for. An explicit `Retry-After` wins; otherwise the latest of the
+// quota reset headers OpenAI-compatible servers send, since both the request and token quota must have recovered.
+export const parseRetryAfterHeaders = (headers: Headers, now: number = Date.now()): number | undefined => {
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs && /^\d+(\.\d+)?$/.test(retryAfterMs.trim())) {
+    return Math.round(parseFloat(retryAfterMs));
+  }
+  const retryAfter = headers.get('retry-after');
+  const fromRetryAfter = retryAfter ? parseRetryAfterValue(retryAfter, now) : undefined;
+  if (fromRetryAfter !== undefined) return fromRetryAfter;
+
+  const resets = ['x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']
+    .map(name => headers.get(name))
+    .map(value => (value ? parseDurationMs(value) : undefined))
+    .filter((value): value is number => value !== undefined);
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+};
+
+// Google APIs put the wait into the error body as `RetryInfo`, e.g. `"retryDelay": "17s"`.
+export const parseRetryDelayFromMessage = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"([^"]+)"/);
+  return match ? parseDurationMs(match[1]) : undefined;
+};
@@ -0,0 +1,52 @@
+// Pause, resume and cancel for a bulk run. Pausing or cancelling aborts the requests in flight through the
+// current signal; a paused run sends the interrupted batch again once it is resumed.
+
+export type RunState = 'running' | 'paused' | 'cancelled';
+
+export interface RunControl {
+  getState: () => RunState;
+  // Aborted when the run is paused or cancelled. Resuming starts a fresh signal.
+  getSignal: () => AbortSignal;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  // Resolves at once while running, otherwise when the run is resumed or cancelled.
+  waitUntilResumed: () => Promise<void>;
+}
+
+export const createRunControl = (): RunControl => {
+  let state: RunState = 'running';
+  let abortController = new AbortController();
+  let resumeWaiters: (() => void)[] = [];
+
+  const releaseWaiters = () => {
+    resumeWaiters.forEach(resolve => resolve());
+    resumeWaiters = [];
+  };
+
+  return {
+    getState: () => state,
+    getSignal: () => abortController.signal,
+    pause: () => {
+      if (state !== 'running') return;
+      state = 'paused';
+      abortController.abort();
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      state = 'running';
+      abortController = new AbortController();
+      releaseWaiters();
+    },
+    cancel: () => {
+      if (state === 'cancelled') return;
+      state = 'cancelled';
+      abortController.abort();
+      releaseWaiters();
+    },
+    waitUntilResumed: () => {
+      if (state !== 'paused') return Promise.resolve();
+      return new Promise(resolve => resumeWaiters.push(resolve));
+    },
+  };
+};
@@ -0,0 +1,223 @@
+import { Client, ColumnMapping, SheetTab } from '../types';
+
+// Writes enriched cities and job titles back into the source Google Sheet with the Sheets v4 API.
+// Changes are planned first: every target cell is compared with the live sheet, so rows that moved or cells
+// someone edited since the sheet was loaded are reported as conflicts instead of being overwritten.
+
+export const SHEETS_API_BASE_URL = 'https://sheets.googleapis.com/v4';
+
+export type WriteBackField = 'city' | 'jobTitle';
+
+export interface CellChange {
+  clientId: number;
+  field: WriteBackField;
+  // A1 notation including the tab, e.g. `'EMEA'!F12`.
+  range: string;
+  tabTitle: string;
+  rowNumber: number;
+  header: string;
+  // The value the cell had when the sheet was loaded.
+  loadedValue: string;
+  // The value the cell has now, as read just before writing.
+  currentValue: string;
+  newValue: string;
+  // Why the cell should not be written, if the sheet changed since load.
+  conflict?: string;
+}
+
+export interface WriteBackPlan {
+  changes: CellChange[];
+  conflicts: CellChange[];
+  // Problems that apply to the whole write-back, e.g. a field that has no mapped column.
+  warnings: string[];
+}
+
+interface WriteBackRequest {
+  sheetId: string;
+  accessToken: string;
+  apiBaseUrl?: string;
+}
+
+// Converts a 0-based column index to its letter, e.g. 0 -> A, 27 -> AB.
+export const toColumnLetter = (index: number): string => {
+  let letter = '';
+  let remaining = index + 1;
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    letter = String.fromCharCode(65 + offset) + letter;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return letter;
+};
+
+const quoteTabTitle = (title: string): string => `'${title.replace(/'/g, "''")}'`;
+
+const describeHttpError = async (response: Response, action: string): Promise<Error> => {
+  let detail = '';
+  try {
+    const errorData = await response.json();
+    detail = errorData?.error?.message || '';
+  } catch (e) {
+    // The body is not JSON; the status code is all we have.
+  }
+  if (response.status === 401) {
+    return new Error(`Could not ${action}: the OAuth token is invalid or has expired.`);
+  }
+  if (response.status === 403) {
+    return new Error(`Could not ${action}: the OAuth token does not have permission to edit this sheet.${detail ? ` ${detail}` : ''}`);
+  }
+  return new Error(`Could not ${action}. Status: ${response.status}.${detail ? ` ${detail}` : ''}`);
+};
+
+const sheetsFetch = async ({ accessToken, apiBaseUrl = SHEETS_API_BASE_URL }: WriteBackRequest, path: string, action: string, init: RequestInit = {}) => {
+  const response = await fetch(`${apiBaseUrl}${path}`, {
+    ...init,
+    headers: {
+      ...init.headers,
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+  });
+  if (!response.ok) {
+    throw await describeHttpError(response, action);
+  }
+  return response.json();
+};
+
+// Tabs loaded by gid need their title, since A1 ranges refer to tabs by name.
+const resolveTabTitles = async (request: WriteBackRequest, tabs: SheetTab[]): Promise<Map<SheetTab, string>> => {
+  const titles = new Map<SheetTab, string>();
+  const gidTabs = tabs.filter((tab): tab is { gid: string } => 'gid' in tab);
+  for (const tab of tabs) {
+    if ('name' in tab) {
+      titles.set(tab, tab.name);
+    }
+  }
+  if (gidTabs.length > 0) {
+    const metadata = await sheetsFetch(request, `/spreadsheets/${encodeURIComponent(request.sheetId)}?fields=sheets.properties(sheetId,title)`, 'read the sheet tabs');
+    for (const tab of gidTabs) {
+      const sheet = metadata.sheets?.find((s: { properties: { sheetId: number } }) => String(s.properties.sheetId) === tab.gid);
+      if (sheet) {
+        titles.set(tab, sheet.properties.title);
+      }
+    }
+  }
+  return titles;
+};
+
+// Reads the current contents of each tab in one request.
+const readTabValues = async (request: WriteBackRequest, tabTitles: string[]): Promise<Map<string, string[][]>> => {
+  const params = tabTitles.map(title => `ranges=${encodeURIComponent(quoteTabTitle(title))}`).join('&');
+  const data = await sheetsFetch(request, `/spreadsheets/${encodeURIComponent(request.sheetId)}/values:batchGet?${params}`, 'read the current sheet values');
+  const values = new Map<string, string[][]>();
+  tabTitles.forEach((title, index) => {
+    values.set(title, data.valueRanges?.[index]?.values || []);
+  });
+  return values;
+};
+
+// Only results the AI actually produced are written; idle, errored, prefilled-but-unverified and
+// needs-review rows are left alone until they are accepted.
+const getNewValue = (client: Client, field: WriteBackField): string | null => {
+  if (field === 'city') {
+    return client.cityStatus === 'found' ? client.city : null;
+  }
+  return client.cityStatus === 'found' || client.cityStatus === 'not_found' ? client.jobTitle : null;
+};
+
+export const planWriteBack = async (request: WriteBackRequest, clients: Client[], mapping: ColumnMapping): Promise<WriteBackPlan> => {
+  const warnings: string[] = [];
+  const fields: WriteBackField[] = [];
+  if (mapping.city) {
+    fields.push('city');
+  } else {
+    warnings.push('No city column is mapped, so cities cannot be written back. Map the "Identified City" column first.');
+  }
+  if (mapping.jobTitle) {
+    fields.push('jobTitle');
+  } else {
+    warnings.push('No job title column is mapped, so job titles are not written back.');
+  }
+
+  const writableClients = clients.filter(client => client.sheetTab && client.rowNumber && client.sourceRow);
+  const tabs = [...new Set(writableClients.map(client => client.sheetTab!))];
+  const tabTitles = await resolveTabTitles(request, tabs);
+  for (const tab of tabs) {
+    if (!tabTitles.has(tab)) {
+      warnings.push(`Tab with gid ${'gid' in tab ? tab.gid : ''} no longer exists, so its rows are skipped.`);
+    }
+  }
+
+  const planned: CellChange[] = [];
+  for (const client of writableClients) {
+    const tabTitle = tabTitles.get(client.sheetTab!);
+    if (!tabTitle) continue;
+    const { headers, values } = client.sourceRow!;
+    for (const field of fields) {
+      const newValue = getNewValue(client, field);
+      const header = mapping[field]!;
+      const columnIndex = headers.indexOf(header);
+      const loadedValue = columnIndex === -1 ? '' : values[columnIndex] || '';
+      if (newValue === null || columnIndex === -1 || newValue === loadedValue) continue;
+      planned.push({
+        clientId: client.id,
+        field,
+        range: `${quoteTabTitle(tabTitle)}!${toColumnLetter(columnIndex)}${client.rowNumber}`,
+        tabTitle,
+        rowNumber: client.rowNumber!,
+        header,
+        loadedValue,
+        currentValue: '',
+        newValue,
+      });
+    }
+  }
+
+  if (planned.length === 0) {
+    return { changes: [], conflicts: [], warnings };
+  }
+
+  const currentValues = await readTabValues(request, [...new Set(planned.map(change => change.tabTitle))]);
+  const clientsById = new Map(writableClients.map(client => [client.id, client]));
+  const identityHeaders = [mapping.firstName, mapping.lastName].filter((h): h is string => !!h);
+
+  const changes: CellChange[] = [];
+  const conflicts: CellChange[] = [];
+  for (const change of planned) {
+    const client = clientsById.get(change.clientId)!;
+    const { headers, values } = client.sourceRow!;
+    const currentRow = currentValues.get(change.tabTitle)?.[change.rowNumber - 1] || [];
+    const columnIndex = headers.indexOf(change.header);
+    const checked = { ...change, currentValue: currentRow[columnIndex] || '' };
+
+    // If the name cells no longer match, rows were inserted, deleted or sorted since load.
+    const rowMoved = identityHeaders.some(header => {
+      const index = headers.indexOf(header);
+      return (currentRow[index] || '').trim() !== (values[index] || '').trim();
+    });
+    if (rowMoved) {
+      conflicts.push({ ...checked, conflict: `Row ${change.rowNumber} no longer holds ${client.firstName} ${client.lastName}.` });
+    } else if (checked.currentValue.trim() !== change.loadedValue.trim()) {
+      conflicts.push({ ...checked, conflict: `Cell was changed to "${checked.currentValue}" since the sheet was loaded.` });
+    } else {
+      changes.push(checked);
+    }
+  }
+
+  return { changes, conflicts, warnings };
+};
+
+export const applyWriteBack = async (request: WriteBackRequest, changes: CellChange[]): Promise<number> => {
+  if (changes.length === 0) {
+    return 0;
+  }
+  const data = await sheetsFetch(request, `/spreadsheets/${encodeURIComponent(request.sheetId)}/values:batchUpdate`, 'write to the sheet', {
+    method: 'POST',
+    body: JSON.stringify({
+      // RAW keeps values such as "+1 555" or "1/2" from being interpreted as formulas or dates.
+      valueInputOption: 'RAW',
+      data: changes.map(change => ({ range: change.range, values: [[change.newValue]] })),
+    }),
+  });
+  return data.totalUpdatedCells ?? changes.length;
+};
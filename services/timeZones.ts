@@ -0,0 +1,76 @@
+// Works out a contact's IANA time zone from their resolved city, offline, and what time it is there, so calls can
+// be planned without looking each one up.
+
+// Countries with more than one zone are looked up by region instead. Regions split between zones use the zone
+// of their largest cities.
+const REGION_TIME_ZONES: Record<string, Record<string, string>> = {
+  US: {
+    'Alabama': 'America/Chicago', 'Alaska': 'America/Anchorage', 'Arizona': 'America/Phoenix', 'Arkansas': 'America/Chicago',
+    'California': 'America/Los_Angeles', 'Colorado': 'America/Denver', 'Connecticut': 'America/New_York', 'Delaware': 'America/New_York',
+    'District of Columbia': 'America/New_York', 'Florida': 'America/New_York', 'Georgia': 'America/New_York', 'Hawaii': 'Pacific/Honolulu',
+    'Idaho': 'America/Boise', 'Illinois': 'America/Chicago', 'Indiana': 'America/Indiana/Indianapolis', 'Iowa': 'America/Chicago',
+    'Kansas': 'America/Chicago', 'Kentucky': 'America/New_York', 'Louisiana': 'America/Chicago', 'Maine': 'America/New_York',
+    'Maryland': 'America/New_York', 'Massachusetts': 'America/New_York', 'Michigan': 'America/Detroit', 'Minnesota': 'America/Chicago',
+    'Mississippi': 'America/Chicago', 'Missouri': 'America/Chicago', 'Montana': 'America/Denver', 'Nebraska': 'America/Chicago',
+    'Nevada': 'America/Los_Angeles', 'New Hampshire': 'America/New_York', 'New Jersey': 'America/New_York', 'New Mexico': 'America/Denver',
+    'New York': 'America/New_York', 'North Carolina': 'America/New_York', 'North Dakota': 'America/Chicago', 'Ohio': 'America/New_York',
+    'Oklahoma': 'America/Chicago', 'Oregon': 'America/Los_Angeles', 'Pennsylvania': 'America/New_York', 'Rhode Island': 'America/New_York',
+    'South Carolina': 'America/New_York', 'South Dakota': 'America/Chicago', 'Tennessee': 'America/Chicago', 'Texas': 'America/Chicago',
+    'Utah': 'America/Denver', 'Vermont': 'America/New_York', 'Virginia': 'America/New_York', 'Washington': 'America/Los_Angeles',
+    'West Virginia': 'America/New_York', 'Wisconsin': 'America/Chicago', 'Wyoming': 'America/Denver',
+  },
+  CA: {
+    'Alberta': 'America/Edmonton', 'British Columbia': 'America/Vancouver', 'Manitoba': 'America/Winnipeg', 'New Brunswick': 'America/Moncton',
+    'Newfoundland and Labrador': 'America/St_Johns', 'Nova Scotia': 'America/Halifax', 'Ontario': 'America/Toronto',
+    'Prince Edward Island': 'America/Halifax', 'Quebec': 'America/Toronto', 'Saskatchewan': 'America/Regina',
+  },
+  AU: {
+    'New South Wales': 'Australia/Sydney', 'Victoria': 'Australia/Melbourne', 'Queensland': 'Australia/Brisbane', 'Western Australia': 'Australia/Perth',
+    'South Australia': 'Australia/Adelaide', 'Tasmania': 'Australia/Hobart', 'Australian Capital Territory': 'Australia/Sydney', 'Northern Territory': 'Australia/Darwin',
+  },
+};
+
+// The zone of every other country in the gazetteer. For the few that span several zones (Mexico, Brazil, Russia,
+// Indonesia), all of the gazetteer's cities are in the one listed.
+const COUNTRY_TIME_ZONES: Record<string, string> = {
+  MX: 'America/Mexico_City', BR: 'America/Sao_Paulo', AR: 'America/Argentina/Buenos_Aires', CL: 'America/Santiago', CO: 'America/Bogota',
+  PE: 'America/Lima', GB: 'Europe/London', IE: 'Europe/Dublin', FR: 'Europe/Paris', DE: 'Europe/Berlin', NL: 'Europe/Amsterdam',
+  BE: 'Europe/Brussels', LU: 'Europe/Luxembourg', CH: 'Europe/Zurich', AT: 'Europe/Vienna', ES: 'Europe/Madrid', PT: 'Europe/Lisbon',
+  IT: 'Europe/Rome', DK: 'Europe/Copenhagen', SE: 'Europe/Stockholm', NO: 'Europe/Oslo', FI: 'Europe/Helsinki', PL: 'Europe/Warsaw',
+  CZ: 'Europe/Prague', HU: 'Europe/Budapest', RO: 'Europe/Bucharest', GR: 'Europe/Athens', TR: 'Europe/Istanbul', IL: 'Asia/Jerusalem',
+  AE: 'Asia/Dubai', SA: 'Asia/Riyadh', QA: 'Asia/Qatar', EG: 'Africa/Cairo', ZA: 'Africa/Johannesburg', NG: 'Africa/Lagos',
+  KE: 'Africa/Nairobi', MA: 'Africa/Casablanca', IN: 'Asia/Kolkata', PK: 'Asia/Karachi', BD: 'Asia/Dhaka', SG: 'Asia/Singapore',
+  MY: 'Asia/Kuala_Lumpur', TH: 'Asia/Bangkok', VN: 'Asia/Ho_Chi_Minh', ID: 'Asia/Jakarta', PH: 'Asia/Manila', CN: 'Asia/Shanghai',
+  HK: 'Asia/Hong_Kong', TW: 'Asia/Taipei', JP: 'Asia/Tokyo', KR: 'Asia/Seoul', NZ: 'Pacific/Auckland', RU: 'Europe/Moscow',
+  UA: 'Europe/Kyiv', EE: 'Europe/Tallinn', LV: 'Europe/Riga', LT: 'Europe/Vilnius',
+};
+
+// Local office hours, Monday to Friday.
+export const BUSINESS_HOURS = { startHour: 9, endHour: 17 };
+
+// Returns undefined for a country the tables do not cover, or a region of a multi-zone country they do not list.
+export const getTimeZone = (countryCode: string, region: string): string | undefined => {
+  const regionZones = REGION_TIME_ZONES[countryCode];
+  return regionZones ? regionZones[region] : COUNTRY_TIME_ZONES[countryCode];
+};
+
+// The weekday (0 is Sunday), hour and minute it is in a time zone at the given moment.
+export const getLocalTime = (timeZone: string, now: Date): { weekday: number; hour: number; minute: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', minute: 'numeric', hourCycle: 'h23' }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  return {
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday')),
+    hour: Number(part('hour')),
+    minute: Number(part('minute')),
+  };
+};
+
+export const isWithinBusinessHours = (timeZone: string, now: Date): boolean => {
+  const { weekday, hour } = getLocalTime(timeZone, now);
+  return weekday >= 1 && weekday <= 5 && hour >= BUSINESS_HOURS.startHour && hour < BUSINESS_HOURS.endHour;
+};
+
+// The local time in the user's own format, e.g. "Tue 2:05 PM".
+export const formatLocalTime = (timeZone: string, now: Date): string => {
+  return new Intl.DateTimeFormat(undefined, { timeZone, weekday: 'short', hour: 'numeric', minute: '2-digit' }).format(now);
+};
@@ -0,0 +1,185 @@
+import { Client, JobFunction, Seniority, TitleClassification } from '../types';
+import { EnrichmentProvider, TokenUsage } from './enrichmentProvider';
+import { extractJsonValue } from './enrichmentSchema';
+
+// Reads a seniority level and a business function from free-text job titles, so clients can be segmented.
+// Keyword rules handle most titles; the rest can be sent to an AI provider.
+
+export const SENIORITY_LABELS: Record<Seniority, string> = {
+  c_level: 'C-level',
+  vp: 'VP',
+  director: 'Director',
+  manager: 'Manager',
+  ic: 'IC',
+};
+
+export const JOB_FUNCTION_LABELS: Record<JobFunction, string> = {
+  general_management: 'General Management',
+  sales: 'Sales',
+  marketing: 'Marketing',
+  customer_success: 'Customer Success',
+  product: 'Product',
+  design: 'Design',
+  engineering: 'Engineering',
+  data: 'Data',
+  it: 'IT',
+  finance: 'Finance',
+  hr: 'HR',
+  legal: 'Legal',
+  operations: 'Operations',
+};
+
+// Checked in order; the first match wins, so "Vice President" is never read as a president.
+const SENIORITY_RULES: [Seniority, RegExp][] = [
+  // Assistants and interns work for the people their titles name.
+  ['ic', /\b(assistant to|executive assistant|personal assistant|intern|internship|trainee)\b/],
+  ['vp', /\b(vp|svp|evp|avp|vice president)\b/],
+  ['c_level', /\b(chief|ceo|cfo|cto|coo|cmo|cio|ciso|cro|cpo|chro|cdo|president|founder|co founder|cofounder|(?<!product )owner|managing director|executive director|(?<!business )partner)\b/],
+  ['director', /\b(director|head)\b/],
+  ['manager', /\b(manager|mgr|supervisor|team lead|team leader)\b/],
+  ['ic', /\b(engineer|developer|programmer|analyst|specialist|associate|consultant|representative|rep|coordinator|accountant|designer|scientist|architect|administrator|assistant|executive|agent|officer|recruiter|advisor|technician|sdr|bdr|paralegal|product owner)\b/],
+];
+
+// Checked in order, so "Product Marketing Manager" is marketing and "Sales Engineer" is sales. General
+// management comes last, for titles that name no other function.
+const JOB_FUNCTION_RULES: [JobFunction, RegExp][] = [
+  ['hr', /\b(hr|human resources|people|talent|recruit\w*|chro|payroll)\b/],
+  ['sales', /\b(sales|account executive|account manager|business development|bdr|sdr|revenue|cro|commercial)\b/],
+  ['marketing', /\b(marketing|cmo|brand|growth|demand generation|communications|content|seo)\b/],
+  ['customer_success', /\b(customer\w*|client services|support)\b/],
+  ['product', /\b(product|cpo)\b/],
+  ['design', /\b(design\w*|ux|ui|creative)\b/],
+  ['legal', /\b(legal|counsel|attorney|lawyer|paralegal|compliance|clo)\b/],
+  ['finance', /\b(financ\w*|cfo|accounting|accountant|controller|treasur\w*|tax|audit\w*|fp a)\b/],
+  ['data', /\b(data|analytics|machine learning|ml|ai|business intelligence|bi|cdo)\b/],
+  ['it', /\b(it|information technology|cio|ciso|security|systems? administrator|sysadmin|network|help ?desk|infrastructure)\b/],
+  ['engineering', /\b(engineer\w*|developer|software|cto|devops|sre|architect|programmer|technology|technical|r d|research and development)\b/],
+  ['operations', /\b(operations|operating|coo|ops|supply chain|logistics|procurement|purchasing|facilities|project manager|program manager)\b/],
+  ['general_management', /\b(ceo|chief executive|(?<!vice )president|founder|co founder|cofounder|owner|managing director|general manager|executive director|managing partner|general partner)\b/],
+];
+
+// The seniority and function of a title, either of which may be unknown.
+export type TitleCategories = Pick<TitleClassification, 'seniority' | 'jobFunction'>;
+
+const normalizeTitle = (title: string): string => {
+  return title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+const findMatch = <T>(rules: [T, RegExp][], title: string): T | undefined => rules.find(([, pattern]) => pattern.test(title))?.[0];
+
+// Classifies a title by the keyword rules. Either part is left out when no rule matches it.
+export const classifyTitle = (title: string): TitleCategories => {
+  const normalized = normalizeTitle(title);
+  return { seniority: findMatch(SENIORITY_RULES, normalized), jobFunction: findMatch(JOB_FUNCTION_RULES, normalized) };
+};
+
+// Classifies the client's title again if it changed since it was last classified. An AI classification of the
+// same title is kept.
+export const withClassifiedTitle = (client: Client): Client => {
+  const title = client.jobTitle.trim();
+  if (!title) {
+    return client.titleClassification ? { ...client, titleClassification: undefined } : client;
+  }
+  if (client.titleClassification?.title === title && client.titleClassification.source === 'ai') {
+    return client;
+  }
+  return { ...client, titleClassification: { title, ...classifyTitle(title), source: 'rules' } };
+};
+
+// Titles the rules could only partly classify, and no AI has been asked about yet.
+export const needsAiClassification = (client: Client): boolean => {
+  const classification = client.titleClassification;
+  return !!classification && classification.source === 'rules' && (!classification.seniority || !classification.jobFunction);
+};
+
+// Titles sent to the AI per request.
+export const TITLE_BATCH_SIZE = 50;
+
+const SENIORITY_DESCRIPTIONS: Record<Seniority, string> = {
+  c_level: 'C-suite executives, presidents, founders and owners',
+  vp: 'vice presidents of any rank',
+  director: 'directors and heads of a department',
+  manager: 'managers and team leads',
+  ic: 'individual contributors without reports',
+};
+
+export const buildTitleClassificationPrompt = (titles: string[]): string => {
+  return `Classify each job title below by seniority and business function.
+
+SENIORITY must be one of:
+${Object.entries(SENIORITY_DESCRIPTIONS).map(([value, description]) => `- "${value}": ${description}`).join('\n')}
+- "unknown": the title does not say
+
+FUNCTION must be one of: ${Object.keys(JOB_FUNCTION_LABELS).map(value => `"${value}"`).join(', ')}, or "unknown" when the title does not say.
+
+INPUT (JSON):
+${JSON.stringify(titles.map((title, index) => ({ id: index + 1, title })), null, 2)}
+
+CRITICAL OUTPUT RULES:
+- Your entire response MUST BE ONLY a single JSON object with one key: "results". The value of "results" must be a JSON array.
+- The array must contain an object for every title from the input, with the original 'id' (number), the 'seniority' (string) and the 'function' (string).
+- DO NOT write any introduction, explanation, or apologies.
+- DO NOT wrap the JSON in markdown backticks or any other formatting.`;
+};
+
+const isSeniority = (value: unknown): value is Seniority => typeof value === 'string' && Object.keys(SENIORITY_LABELS).includes(value);
+
+const isJobFunction = (value: unknown): value is JobFunction => typeof value === 'string' && Object.keys(JOB_FUNCTION_LABELS).includes(value);
+
+// Reads the answer to `buildTitleClassificationPrompt`, keyed by title. Values outside the allowed lists count as
+// unknown; titles missing from the answer are left out. Throws if the answer holds no results at all.
+export const parseTitleClassifications = (text: string, titles: string[]): Map<string, TitleCategories> => {
+  const value = extractJsonValue(text);
+  const items = Array.isArray(value) ? value : (value as { results?: unknown } | null)?.results;
+  if (!Array.isArray(items)) {
+    throw new Error('The answer did not contain a "results" array.');
+  }
+  const classifications = new Map<string, TitleCategories>();
+  for (const item of items) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) continue;
+    const { id, seniority, function: jobFunction } = item as Record<string, unknown>;
+    const title = typeof id === 'number' && Number.isInteger(id) ? titles[id - 1] : undefined;
+    if (title === undefined) continue;
+    classifications.set(title, {
+      seniority: isSeniority(seniority) ? seniority : undefined,
+      jobFunction: isJobFunction(jobFunction) ? jobFunction : undefined,
+    });
+  }
+  return classifications;
+};
+
+// Asks the provider about up to `TITLE_BATCH_SIZE` titles. Throws on API failures and unreadable answers.
+export const classifyTitlesWithAi = async (provider: EnrichmentProvider, titles: string[], signal?: AbortSignal): Promise<{
+  classifications: Map<string, TitleCategories>;
+  usage: TokenUsage;
+  model: string;
+}> => {
+  if (!provider.complete) {
+    throw new Error(`${provider.name} cannot classify job titles.`);
+  }
+  const completion = await provider.complete(buildTitleClassificationPrompt(titles), signal);
+  return { classifications: parseTitleClassifications(completion.text, titles), usage: completion.usage, model: completion.model };
+};
+
+// Fills in what the rules could not tell from the AI's answers. The rules' own findings are kept.
+export const applyAiClassifications = (clients: Client[], classifications: Map<string, TitleCategories>): Client[] => {
+  return clients.map(client => {
+    const current = client.titleClassification;
+    const answer = current && needsAiClassification(client) ? classifications.get(current.title) : undefined;
+    if (!current || !answer) return client;
+    return {
+      ...client,
+      titleClassification: {
+        ...current,
+        seniority: current.seniority ?? answer.seniority,
+        jobFunction: current.jobFunction ?? answer.jobFunction,
+        source: 'ai',
+      },
+    };
+  });
+};
@@ -0,0 +1,137 @@
+import { TokenUsage } from './enrichmentProvider';
+
+// Token usage is recorded for every provider call and priced with a user-editable table of per-model prices.
+// Models without a price (e.g. local models) are counted but not costed.
+
+// USD per million tokens.
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// List prices at the time of writing. Gemini 2.5 Pro uses its price for prompts up to 200k tokens.
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.30, outputPerMillion: 2.50 },
+  { model: 'gemini-2.5-flash-lite', inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10.00 },
+  { model: 'gpt-4o', inputPerMillion: 2.50, outputPerMillion: 10.00 },
+  { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.60 },
+  { model: 'gpt-4.1', inputPerMillion: 2.00, outputPerMillion: 8.00 },
+  { model: 'gpt-4.1-mini', inputPerMillion: 0.40, outputPerMillion: 1.60 },
+];
+
+// The usage of one provider call and the clients it served.
+export interface UsageRecord {
+  providerId: string;
+  providerName: string;
+  model: string;
+  clientIds: number[];
+  inputTokens: number;
+  outputTokens: number;
+  // Estimated USD, or null when the model has no price.
+  cost: number | null;
+  recordedAt: string;
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  calls: number;
+  // Calls whose model had no price, so `cost` leaves them out.
+  unpricedCalls: number;
+}
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = { inputTokens: 0, outputTokens: 0, cost: 0, calls: 0, unpricedCalls: 0 };
+
+const isPrice = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isValidPrice = (price: unknown): price is ModelPrice => {
+  if (!price || typeof price !== 'object') return false;
+  const { model, inputPerMillion, outputPerMillion } = price as Record<string, unknown>;
+  return typeof model === 'string' && model.trim() !== '' && isPrice(inputPerMillion) && isPrice(outputPerMillion);
+};
+
+export const parseModelPrices = (raw: string | null): ModelPrice[] => {
+  if (!raw) {
+    return DEFAULT_MODEL_PRICES;
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isValidPrice) : DEFAULT_MODEL_PRICES;
+  } catch (e) {
+    console.error('Could not read the saved model prices:', e);
+    return DEFAULT_MODEL_PRICES;
+  }
+};
+
+// Matches the model name exactly, or else the longest priced name it starts with, so a dated snapshot such as
+// `gpt-4o-2024-08-06` uses the `gpt-4o` price while `gpt-4o-mini` keeps its own.
+export const findModelPrice = (prices: ModelPrice[], model: string): ModelPrice | undefined => {
+  const name = model.trim().toLowerCase();
+  return prices
+    .filter(price => name === price.model.toLowerCase() || name.startsWith(`${price.model.toLowerCase()}-`))
+    .sort((a, b) => b.model.length - a.model.length)[0];
+};
+
+export const estimateCost = (usage: TokenUsage, price: ModelPrice | undefined): number | null => {
+  if (!price) {
+    return null;
+  }
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const addToUsageTotals = (totals: UsageTotals, records: UsageRecord[]): UsageTotals => {
+  return records.reduce((sum, record) => ({
+    inputTokens: sum.inputTokens + record.inputTokens,
+    outputTokens: sum.outputTokens + record.outputTokens,
+    cost: sum.cost + (record.cost ?? 0),
+    calls: sum.calls + 1,
+    unpricedCalls: sum.unpricedCalls + (record.cost === null ? 1 : 0),
+  }), totals);
+};
+
+export const parseUsageTotals = (raw: string | null): UsageTotals => {
+  try {
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (parsed && Object.keys(EMPTY_USAGE_TOTALS).every(key => Number.isFinite(parsed[key]))) {
+      return parsed;
+    }
+  } catch (e) {
+    console.error('Could not read the saved usage totals:', e);
+  }
+  return EMPTY_USAGE_TOTALS;
+};
+
+// A budget is a positive USD amount; anything else means no limit.
+export const parseRunBudget = (raw: string | null): number | null => {
+  const value = Number(raw);
+  return raw && raw.trim() !== '' && Number.isFinite(value) && value > 0 ? value : null;
+};
+
+// Estimates what the next batch will cost from the average cost per client of the priced calls so far in the run.
+// Returns null before anything has been priced.
+export const estimateNextBatchCost = (runRecords: UsageRecord[], clientCount: number): number | null => {
+  const priced = runRecords.filter(record => record.cost !== null && record.clientIds.length > 0);
+  if (priced.length === 0) {
+    return null;
+  }
+  const costPerClient = priced.reduce((sum, record) => sum + record.cost!, 0) / priced.reduce((sum, record) => sum + record.clientIds.length, 0);
+  // Consensus runs send every client to each provider, so a batch costs one call per provider.
+  const callsPerBatch = new Set(runRecords.map(record => record.providerId)).size;
+  return costPerClient * clientCount * callsPerBatch;
+};
+
+// Whether the next batch may start without the run's spending going over the budget.
+export const canAffordNextBatch = (runRecords: UsageRecord[], clientCount: number, budget: number | null): boolean => {
+  if (budget === null) {
+    return true;
+  }
+  const spent = addToUsageTotals(EMPTY_USAGE_TOTALS, runRecords).cost;
+  return spent + (estimateNextBatchCost(runRecords, clientCount) ?? 0) <= budget;
+};
+
+export const formatCost = (cost: number): string => {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+};
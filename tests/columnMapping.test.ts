@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { findHeaderRowIndex, getMissingRequiredFields, parseSavedColumnMappings, suggestColumnMapping } from '../services/columnMapping';
+
+describe('suggestColumnMapping', () => {
+  it('maps the headers this app has always used', () => {
+    const headers = ['Client First Name', 'Client Second Name', 'Job Title', 'Company', 'Identified City'];
+
+    expect(suggestColumnMapping(headers)).toEqual({
+      firstName: 'Client First Name',
+      lastName: 'Client Second Name',
+      jobTitle: 'Job Title',
+      company: 'Company',
+      city: 'Identified City',
+    });
+  });
+
+  it('recognises synonyms and headers that contain them', () => {
+    expect(suggestColumnMapping(['Given Name', 'Surname', 'Organisation', 'Contact Position', 'Location'])).toEqual({
+      firstName: 'Given Name',
+      lastName: 'Surname',
+      company: 'Organisation',
+      jobTitle: 'Contact Position',
+      city: 'Location',
+    });
+  });
+
+  it('tolerates typos', () => {
+    expect(suggestColumnMapping(['Frist Name', 'Last Nmae', 'Compny'])).toEqual({
+      firstName: 'Frist Name',
+      lastName: 'Last Nmae',
+      company: 'Compny',
+    });
+  });
+
+  it('leaves out fields no header matches and uses each header once', () => {
+    const mapping = suggestColumnMapping(['Email', 'Phone', 'Name']);
+
+    expect(mapping).toEqual({});
+    expect(getMissingRequiredFields(mapping, ['Email', 'Phone', 'Name']).map(definition => definition.field)).toEqual(['firstName', 'lastName']);
+  });
+});
+
+describe('findHeaderRowIndex', () => {
+  it('skips blank lines and export metadata above the header row', () => {
+    const rows = [
+      ['Exported from Acme CRM', ''],
+      ['', ''],
+      ['Report date', '2026-10-01'],
+      ['First Name', 'Last Name', 'Company'],
+      ['Jane', 'Doe', 'Acme'],
+    ];
+
+    expect(findHeaderRowIndex(rows)).toBe(3);
+  });
+
+  it('falls back to the first row with several cells', () => {
+    expect(findHeaderRowIndex([[''], ['Col A', 'Col B'], ['1', '2']])).toBe(1);
+  });
+});
+
+describe('parseSavedColumnMappings', () => {
+  it('ignores corrupt and malformed saved mappings', () => {
+    const saved = JSON.stringify({ 'sheet:abc': { firstName: 'Given Name' }, 'file:x.csv': { nickname: 'Nick' }, 'file:y.csv': 'oops' });
+
+    expect(parseSavedColumnMappings(saved)).toEqual({ 'sheet:abc': { firstName: 'Given Name' } });
+    expect(parseSavedColumnMappings('{not json')).toEqual({});
+    expect(parseSavedColumnMappings(null)).toEqual({});
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { applyReviewThreshold, DEFAULT_REVIEW_THRESHOLD, parseReviewThreshold } from '../services/confidenceReview';
+import { Client } from '../types';
+
+const client = (id: number, details: Partial<Client>): Client => ({ id, firstName: `First${id}`, lastName: 'Last', jobTitle: '', company: '', city: 'Oslo', ...details });
+
+describe('applyReviewThreshold', () => {
+  it('flags found results below the threshold and clears flags above it', () => {
+    const clients = [
+      client(1, { cityStatus: 'found', confidence: 55 }),
+      client(2, { cityStatus: 'needs_review', confidence: 65 }),
+      client(3, { cityStatus: 'found', confidence: 95 }),
+    ];
+
+    expect(applyReviewThreshold(clients, 60).map(c => c.cityStatus)).toEqual(['needs_review', 'found', 'found']);
+  });
+
+  it('leaves accepted, typed-in and unfinished rows alone', () => {
+    const clients = [
+      client(1, { cityStatus: 'found', confidence: 20, reviewed: true }),
+      client(2, { cityStatus: 'found' }),
+      client(3, { cityStatus: 'not_found', confidence: 10 }),
+    ];
+
+    expect(applyReviewThreshold(clients, 80)).toEqual(clients);
+  });
+});
+
+describe('parseReviewThreshold', () => {
+  it('falls back to the default for missing or invalid values', () => {
+    expect(parseReviewThreshold('55')).toBe(55);
+    expect(parseReviewThreshold('0')).toBe(0);
+    expect(parseReviewThreshold(null)).toBe(DEFAULT_REVIEW_THRESHOLD);
+    expect(parseReviewThreshold('')).toBe(DEFAULT_REVIEW_THRESHOLD);
+    expect(parseReviewThreshold('150')).toBe(DEFAULT_REVIEW_THRESHOLD);
+    expect(parseReviewThreshold('high')).toBe(DEFAULT_REVIEW_THRESHOLD);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { combineConsensusResults, getConsensusBatchSize, isSameJobTitle } from '../services/consensus';
+import { createEnrichmentError, EnrichmentOutcome, EnrichmentProvider, EnrichmentResultMap } from '../services/enrichmentProvider';
+import { EnrichmentResult } from '../services/enrichmentSchema';
+import { EnrichmentError } from '../types';
+
+const provider = (id: string, name: string, batchSize: number, requestsPerMinute: number | null): EnrichmentProvider => ({
+  id,
+  name,
+  settings: [],
+  capabilities: { webSearch: false, findAll: true, retryFailed: true },
+  rateLimits: { batchSize, requestsPerMinute },
+  init: () => {},
+  enrichBatch: async () => ({ results: new Map(), usage: { inputTokens: 0, outputTokens: 0 }, model: id }),
+});
+
+const gemini = provider('gemini', 'Gemini', 5, 6);
+const openai = provider('openai', 'OpenAI', 10, 30);
+
+const found = (result: EnrichmentResult): EnrichmentOutcome => ({ kind: 'result', result });
+const failed = (error: EnrichmentError): EnrichmentOutcome => ({ kind: 'error', error });
+
+describe('combineConsensusResults', () => {
+  it('accepts matching answers and keeps differing ones as candidates', () => {
+    const geminiResults: EnrichmentResultMap = new Map([
+      [1, found({ city: 'São Paulo, Brazil', jobTitle: 'VP Sales', confidence: 70, sources: [{ url: 'https://a.test' }] })],
+      [2, found({ city: 'London, UK', jobTitle: 'CTO' })],
+      [3, found({ city: 'Not Found', jobTitle: '' })],
+      [4, failed(createEnrichmentError('malformed_response', gemini))],
+    ]);
+    const openaiResults: EnrichmentResultMap = new Map([
+      [1, found({ city: 'sao paulo, SP', jobTitle: 'VP, Sales', confidence: 85 })],
+      [2, found({ city: 'Paris, France', jobTitle: 'CTO' })],
+      [3, found({ city: 'Not Found', jobTitle: '' })],
+      [4, found({ city: 'Berlin, Germany', jobTitle: '' })],
+    ]);
+
+    const outcomes = combineConsensusResults([gemini, openai], [geminiResults, openaiResults]);
+
+    expect(outcomes.get(1)).toEqual({
+      status: 'agreed',
+      result: { city: 'São Paulo, Brazil', jobTitle: 'VP Sales', confidence: 85, rationale: 'Gemini and OpenAI gave the same answer.', sources: [{ url: 'https://a.test' }] },
+    });
+    expect(outcomes.get(2)).toEqual({
+      status: 'disputed',
+      candidates: [
+        { providerId: 'gemini', providerName: 'Gemini', city: 'London, UK', jobTitle: 'CTO' },
+        { providerId: 'openai', providerName: 'OpenAI', city: 'Paris, France', jobTitle: 'CTO' },
+      ],
+    });
+    expect(outcomes.get(3)?.status).toBe('agreed');
+    // A single answer is offered for review rather than accepted on its own.
+    expect(outcomes.get(4)).toEqual({ status: 'disputed', candidates: [{ providerId: 'openai', providerName: 'OpenAI', city: 'Berlin, Germany', jobTitle: '' }] });
+  });
+
+  it('does not count cities of the same name in different regions as agreement', () => {
+    const outcomes = combineConsensusResults([gemini, openai], [
+      new Map([[1, found({ city: 'Portland, OR', jobTitle: 'CEO' })]]),
+      new Map([[1, found({ city: 'Portland, ME', jobTitle: 'CEO' })]]),
+    ]);
+
+    expect(outcomes.get(1)?.status).toBe('disputed');
+  });
+
+  it('reports an error when no provider answered', () => {
+    const noResult = createEnrichmentError('no_result', gemini);
+    const timeout = createEnrichmentError('api_error', openai, { message: 'timeout' });
+    const outcomes = combineConsensusResults([gemini, openai], [new Map([[1, failed(noResult)]]), new Map([[1, failed(timeout)]])]);
+    expect(outcomes.get(1)).toEqual({ status: 'failed', error: noResult });
+  });
+});
+
+describe('consensus helpers', () => {
+  it('treats an empty job title as no opinion', () => {
+    expect(isSameJobTitle('Head of R&D', 'head of r and d')).toBe(true);
+    expect(isSameJobTitle('', 'CEO')).toBe(true);
+    expect(isSameJobTitle('CEO', 'CFO')).toBe(false);
+  });
+
+  it('uses the smallest batch size of the providers', () => {
+    expect(getConsensusBatchSize([gemini, openai])).toBe(5);
+  });
+});
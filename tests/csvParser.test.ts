@@ -0,0 +1,99 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createCsvTokenizer, detectDelimiter, parseCsvText } from '../services/csvParser';
+import { parseCSV } from '../services/googleSheetService';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'csv');
+
+// Every `<name>.csv`/`<name>.tsv` fixture has a `<name>.expected.json` file next to it.
+const fixtures = readdirSync(FIXTURES_DIR)
+  .filter(file => /\.(csv|tsv)$/.test(file))
+  .map(file => ({
+    name: file,
+    text: readFileSync(path.join(FIXTURES_DIR, file), 'utf8'),
+    expected: JSON.parse(readFileSync(path.join(FIXTURES_DIR, file.replace(/\.(csv|tsv)$/, '.expected.json')), 'utf8')),
+  }));
+
+const parseInChunks = (text: string, chunkSize: number) => {
+  const tokenizer = createCsvTokenizer();
+  const rows: string[][] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    rows.push(...tokenizer.write(text.slice(i, i + chunkSize)));
+  }
+  rows.push(...tokenizer.end());
+  return { rows, errors: tokenizer.errors, delimiter: tokenizer.getDelimiter() };
+};
+
+describe('parseCsvText fixtures', () => {
+  it.each(fixtures)('parses $name', ({ text, expected }) => {
+    const result = parseCsvText(text);
+    expect(result.rows).toEqual(expected.rows);
+    expect(result.errors).toEqual(expected.errors);
+    expect(result.delimiter).toBe(expected.delimiter);
+  });
+
+  it.each(fixtures)('gives the same result for $name when streamed one character at a time', ({ text, expected }) => {
+    const result = parseInChunks(text, 1);
+    expect(result.rows).toEqual(expected.rows);
+    expect(result.errors).toEqual(expected.errors);
+    expect(result.delimiter).toBe(expected.delimiter);
+  });
+});
+
+describe('parseCsvText', () => {
+  it('records the line each row starts on', () => {
+    const result = parseCsvText('a,b\r\n"multi\r\nline",x\r\nlast,row');
+    expect(result.rowLines).toEqual([1, 2, 4]);
+  });
+
+  it('uses an explicit delimiter instead of detecting one', () => {
+    const result = parseCsvText('a;b,c\n', { delimiter: ',' });
+    expect(result.rows).toEqual([['a;b', 'c']]);
+  });
+
+  it('ignores whitespace around quoted fields', () => {
+    expect(parseCsvText('"a" , "b"\n').rows).toEqual([['a', 'b']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('skips preamble lines without delimiters', () => {
+    expect(detectDelimiter('Report title\nName;Company;City\n')).toBe(';');
+  });
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('"a,b,c";"d";"e"\n')).toBe(';');
+  });
+});
+
+describe('parseCSV', () => {
+  it('finds the header row below a preamble', () => {
+    const fixture = fixtures.find(f => f.name === 'bom-and-preamble.csv')!;
+    const table = parseCSV(fixture.text);
+    expect(table.headers).toEqual(['Client first name', 'Client second name', 'Company']);
+    expect(table.rows).toEqual([['Ida', 'King', 'Acme'], [''], ['Jo', 'Lund', 'Globex']]);
+  });
+
+  it('keeps multiline and escaped-quote values intact', () => {
+    const table = parseCSV(fixtures.find(f => f.name === 'multiline.csv')!.text);
+    expect(table.rows[0]).toEqual(['Ana', 'Silva', 'Head of Sales\nLATAM', 'Acme']);
+    expect(parseCSV(fixtures.find(f => f.name === 'escaped-quotes.csv')!.text).rows[0][2]).toBe('The "Best" Company');
+  });
+
+  it('reports malformed rows with line numbers', () => {
+    const table = parseCSV(fixtures.find(f => f.name === 'malformed.csv')!.text);
+    expect(table.parseErrors.map(e => e.line)).toEqual([2, 2, 3, 4]);
+  });
+
+  it('reports rows with more values than headers', () => {
+    const table = parseCSV('First Name,Last Name\nAl,Bo,extra\nCy,Di,\n');
+    expect(table.parseErrors).toEqual([
+      { line: 2, message: 'Row has 3 fields but the header has 2. Extra values are ignored.' },
+    ]);
+  });
+
+  it('throws when there is no header row', () => {
+    expect(() => parseCSV('just one column\nand another line\n')).toThrow('CSV headers are missing');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { createEnrichmentError, describeProviderError, EnrichmentResultMap, MAX_REPAIR_ATTEMPTS, ProviderApiError, runValidatedBatch } from '../services/enrichmentProvider';
+import { Client } from '../types';
+
+const clients = [1, 2, 3].map((id): Client => ({ id, firstName: `First${id}`, lastName: 'Last', jobTitle: '', company: '', city: '' }));
+const provider = { id: 'test', name: 'Test' };
+
+// The found results, or error codes, in batch order.
+const summarize = (results: EnrichmentResultMap) => [...results.values()].map(outcome => outcome.kind === 'result' ? outcome.result : outcome.error.code);
+
+// Answers each prompt with the next scripted response, recording the prompts it was sent.
+const scriptedCompletion = (responses: (string | Error)[]) => {
+  const prompts: string[] = [];
+  const complete = async (prompt: string) => {
+    prompts.push(prompt);
+    const response = responses[prompts.length - 1];
+    if (response instanceof Error) throw response;
+    return { text: response };
+  };
+  return { prompts, complete };
+};
+
+describe('runValidatedBatch', () => {
+  it('re-prompts only for the ids that failed validation', async () => {
+    const { prompts, complete } = scriptedCompletion([
+      '{"results":[{"id":1,"city":"Oslo","jobTitle":"CTO"},{"id":2,"city":42,"jobTitle":""}]}',
+      '{"results":[{"id":2,"city":"Bergen","jobTitle":""},{"id":3,"city":"Not Found","jobTitle":""}]}',
+    ]);
+
+    const { results } = await runValidatedBatch(clients, complete, { webSearch: false, citeSources: false }, provider);
+
+    expect(summarize(results)).toEqual([
+      { city: 'Oslo', jobTitle: 'CTO' },
+      { city: 'Bergen', jobTitle: '' },
+      { city: 'Not Found', jobTitle: '' },
+    ]);
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('id 2: "city" must be a string, got 42.');
+    expect(prompts[1]).toContain('id 3 has no result.');
+    expect(prompts[1]).toContain('"person": "First2 Last"');
+    expect(prompts[1]).not.toContain('"person": "First1 Last"');
+  });
+
+  it('attributes grounded sources to the result they support', async () => {
+    const text = '{"results":[{"id":1,"city":"Oslo","jobTitle":"CTO"},{"id":2,"city":"Bergen","jobTitle":""},{"id":3,"city":"Not Found","jobTitle":""}]}';
+    const oslo = { url: 'https://example.com/oslo', title: 'example.com' };
+    const bergen = { url: 'https://example.com/bergen' };
+    const complete = async () => ({
+      text,
+      groundedSegments: [
+        { text: '"city":"Oslo"', sources: [oslo] },
+        { startIndex: text.indexOf('"Bergen"'), endIndex: text.indexOf('"Bergen"') + 8, sources: [bergen, oslo] },
+      ],
+    });
+
+    const { results } = await runValidatedBatch(clients, complete, { webSearch: true, citeSources: false }, provider);
+
+    expect(summarize(results)).toEqual([
+      { city: 'Oslo', jobTitle: 'CTO', sources: [oslo] },
+      { city: 'Bergen', jobTitle: '', sources: [bergen, oslo] },
+      { city: 'Not Found', jobTitle: '' },
+    ]);
+  });
+
+  it('gives up after the repair attempts are used up', async () => {
+    const { prompts, complete } = scriptedCompletion(Array(MAX_REPAIR_ATTEMPTS + 1).fill('[{"id":1,"city":"Oslo","jobTitle":""},{"id":2}]'));
+
+    const { results } = await runValidatedBatch(clients, complete, { webSearch: false, citeSources: false }, provider);
+
+    expect(prompts).toHaveLength(MAX_REPAIR_ATTEMPTS + 1);
+    expect(summarize(results)).toEqual([{ city: 'Oslo', jobTitle: '' }, 'malformed_response', 'no_result']);
+  });
+
+  it('reports API failures for every client still waiting', async () => {
+    const { complete } = scriptedCompletion([
+      'not json',
+      new ProviderApiError(429, 'Rate limit reached for requests'),
+    ]);
+
+    const { results, batchError } = await runValidatedBatch(clients, complete, { webSearch: false, citeSources: false }, provider);
+
+    expect(summarize(results)).toEqual(Array(3).fill('rate_limited'));
+    // The first request was answered, so the batch as a whole did not fail.
+    expect(batchError).toBeUndefined();
+  });
+
+  it('reports a failed first request as a batch error', async () => {
+    const { complete } = scriptedCompletion([new ProviderApiError(401, 'Incorrect API key provided')]);
+
+    const { results, batchError } = await runValidatedBatch(clients, complete, { webSearch: false, citeSources: false }, provider);
+
+    expect(batchError).toEqual({ code: 'invalid_api_key', message: 'Incorrect API key provided', retryable: false, providerId: 'test', providerName: 'Test', status: 401 });
+    expect(summarize(results)).toEqual(Array(3).fill('invalid_api_key'));
+  });
+
+  it('rejects instead of reporting an error when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const complete = async () => {
+      controller.abort();
+      throw new Error('The operation was aborted.');
+    };
+
+    await expect(runValidatedBatch(clients, complete, { webSearch: false, citeSources: false }, provider, controller.signal))
+      .rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('describeProviderError', () => {
+  it('classifies API failures by error code', () => {
+    expect(describeProviderError({ status: 429, code: 'insufficient_quota', message: 'You exceeded your current quota' }, provider).code).toBe('insufficient_quota');
+    expect(describeProviderError({ status: 401, message: 'Incorrect API key provided' }, provider).code).toBe('invalid_api_key');
+    expect(describeProviderError({ message: 'API key not valid. Please pass a valid API key.' }, provider).code).toBe('invalid_api_key');
+    expect(describeProviderError({ message: '{"error":{"code":429,"status":"RESOURCE_EXHAUSTED"}}' }, provider).code).toBe('rate_limited');
+  });
+
+  it('only retries API errors that may pass on another attempt', () => {
+    expect(describeProviderError({ status: 500, message: 'Server overloaded' }, provider)).toEqual(
+      createEnrichmentError('api_error', provider, { message: 'Server overloaded', status: 500 })
+    );
+    expect(describeProviderError({ status: 400, message: 'Unsupported parameter' }, provider).retryable).toBe(false);
+    expect(describeProviderError({ message: 'fetch failed' }, provider).retryable).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { extractJsonValue, validateEnrichmentResponse } from '../services/enrichmentSchema';
+
+describe('extractJsonValue', () => {
+  it('finds JSON in the shapes models answer with', () => {
+    expect(extractJsonValue('{"results":[]}')).toEqual({ results: [] });
+    expect(extractJsonValue('```json\n{"results":[]}\n```')).toEqual({ results: [] });
+    expect(extractJsonValue('Here you go:\n[{"id":1}]\nGood luck!')).toEqual([{ id: 1 }]);
+    expect(extractJsonValue('{"id":1,"city":"Rome"}\n{"id":2,"city":"Milan"}')).toEqual([{ id: 1, city: 'Rome' }, { id: 2, city: 'Milan' }]);
+    expect(extractJsonValue('I could not find anyone.')).toBeUndefined();
+  });
+});
+
+describe('validateEnrichmentResponse', () => {
+  it('accepts valid results and fills an empty city with "Not Found"', () => {
+    const validation = validateEnrichmentResponse({ results: [{ id: 1, city: ' Paris, France ', jobTitle: 'CEO' }, { id: 2, city: '', jobTitle: '' }] }, [1, 2]);
+    expect(validation.issues).toEqual([]);
+    expect(validation.failingIds).toEqual([]);
+    expect(validation.results.get(1)).toEqual({ city: 'Paris, France', jobTitle: 'CEO' });
+    expect(validation.results.get(2)).toEqual({ city: 'Not Found', jobTitle: '' });
+  });
+
+  it('accepts a bare results array', () => {
+    expect(validateEnrichmentResponse([{ id: 1, city: 'Oslo', jobTitle: 'CTO' }], [1]).failingIds).toEqual([]);
+  });
+
+  it('reads the confidence and rationale of each result', () => {
+    const validation = validateEnrichmentResponse({
+      results: [
+        { id: 1, city: 'Oslo', jobTitle: 'CTO', confidence: 87.6, rationale: ' Company site lists the Oslo office. ' },
+        { id: 2, city: 'Bergen', jobTitle: '', confidence: 'high', rationale: 'Guess' },
+      ],
+    }, [1, 2]);
+    expect(validation.results.get(1)).toEqual({ city: 'Oslo', jobTitle: 'CTO', confidence: 88, rationale: 'Company site lists the Oslo office.' });
+    expect(validation.failingIds).toEqual([2]);
+    expect(validation.issues[0].message).toBe('id 2: "confidence" must be a number from 0 to 100, got "high".');
+  });
+
+  it('keeps the usable links of a sources array', () => {
+    const validation = validateEnrichmentResponse({
+      results: [
+        { id: 1, city: 'Oslo', jobTitle: 'CTO', sources: [{ url: 'https://example.com/jane', title: 'Jane Doe - Example' }, { url: 'not a link', title: 'x' }, { title: 'no url' }] },
+        { id: 2, city: 'Bergen', jobTitle: '', sources: 'https://example.com' },
+      ],
+    }, [1, 2]);
+    expect(validation.results.get(1)).toEqual({ city: 'Oslo', jobTitle: 'CTO', sources: [{ url: 'https://example.com/jane', title: 'Jane Doe - Example' }] });
+    expect(validation.failingIds).toEqual([2]);
+    expect(validation.issues[0].message).toBe('id 2: "sources" must be an array, got "https://example.com".');
+  });
+
+  it('reports invalid, unknown and missing items by id', () => {
+    const validation = validateEnrichmentResponse({
+      results: [
+        { id: 1, city: 'Oslo', jobTitle: null },
+        { id: 9, city: 'Bergen', jobTitle: '' },
+        { id: '3', city: 'Tromsø', jobTitle: '' },
+      ],
+    }, [1, 2, 3]);
+    expect(validation.failingIds).toEqual([1, 2, 3]);
+    expect(validation.missingIds).toEqual([2, 3]);
+    expect(validation.issues.map(issue => issue.message)).toEqual([
+      'id 1: "jobTitle" must be a string, got null.',
+      'results[1].id 9 was not in the input.',
+      'results[2].id must be an integer, got "3".',
+      'id 2 has no result.',
+      'id 3 has no result.',
+    ]);
+  });
+
+  it('rejects a response without a results array', () => {
+    const validation = validateEnrichmentResponse({ people: [] }, [1, 2]);
+    expect(validation.failingIds).toEqual([1, 2]);
+    expect(validation.issues[0].message).toBe('The response must be a JSON object with a "results" array.');
+  });
+});
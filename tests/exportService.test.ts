@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { buildClientsCsv } from '../services/exportService';
+import { mapTablesToClients, parseCSV } from '../services/googleSheetService';
+import { parseCsvText } from '../services/csvParser';
+
+const SOURCE_CSV = [
+  'Account ID,First Name,Surname,Email,Job Title,Company,Identified City,Owner',
+  'A-1,Jane,Doe,jane@acme.test,CEO,"Acme, Inc.",,Sam',
+  'A-2,John,Smith,john@globex.test,,Globex,,Kim',
+].join('\n');
+
+const MAPPING = { firstName: 'First Name', lastName: 'Surname', jobTitle: 'Job Title', company: 'Company', city: 'Identified City' };
+
+describe('buildClientsCsv', () => {
+  it('writes every source column in order and fills the matching enriched column in place', () => {
+    const clients = mapTablesToClients([parseCSV(SOURCE_CSV)], MAPPING);
+    clients[0] = { ...clients[0], city: 'New York, NY', jobTitle: 'Chief Executive Officer' };
+
+    const { rows } = parseCsvText(buildClientsCsv(clients));
+
+    expect(rows[0]).toEqual(['Account ID', 'First Name', 'Surname', 'Email', 'Job Title', 'Company', 'Identified City', 'Owner', 'Identified Job Title']);
+    expect(rows[1]).toEqual(['A-1', 'Jane', 'Doe', 'jane@acme.test', 'CEO', 'Acme, Inc.', 'New York, NY', 'Sam', 'Chief Executive Officer']);
+    expect(rows[2]).toEqual(['A-2', 'John', 'Smith', 'john@globex.test', '', 'Globex', '', 'Kim', '']);
+  });
+
+  it('merges tables with different layouts by header name', () => {
+    const emea = { ...parseCSV('First Name,Surname,Phone\nAna,Silva,123\n'), tab: 'EMEA' };
+    const apac = { ...parseCSV('Surname,First Name,LinkedIn URL\nChen,Bo,https://linkedin.test/bo\n'), tab: 'APAC' };
+    const clients = mapTablesToClients([emea, apac], { firstName: 'First Name', lastName: 'Surname' });
+
+    const { rows } = parseCsvText(buildClientsCsv(clients));
+
+    expect(rows[0]).toEqual(['First Name', 'Surname', 'Phone', 'LinkedIn URL', 'Identified City', 'Identified Job Title', 'Sheet Tab']);
+    expect(rows[1]).toEqual(['Ana', 'Silva', '123', '', '', '', 'EMEA']);
+    expect(rows[2]).toEqual(['Bo', 'Chen', '', 'https://linkedin.test/bo', '', '', 'APAC']);
+  });
+
+  it('writes lookup errors to their own column and leaves the city empty', () => {
+    const clients = mapTablesToClients([parseCSV(SOURCE_CSV)], MAPPING);
+    clients[1] = {
+      ...clients[1],
+      cityStatus: 'error',
+      error: { code: 'insufficient_quota', message: 'Your quota is used up.', retryable: false, providerId: 'openai', providerName: 'OpenAI', status: 429 },
+    };
+
+    const { rows } = parseCsvText(buildClientsCsv(clients));
+
+    expect(rows[0]).toContain('Lookup Error');
+    expect(rows[2][rows[0].indexOf('Identified City')]).toBe('');
+    expect(rows[2][rows[0].indexOf('Lookup Error')]).toBe('OpenAI: Your quota is used up.');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { buildClientsCsv } from '../services/exportService';
+import { isSameCity, resolveCity, withResolvedLocation } from '../services/gazetteer';
+import { parseCsvText } from '../services/csvParser';
+import { Client } from '../types';
+
+describe('resolveCity', () => {
+  it.each([
+    'San Francisco',
+    'SF',
+    'San Francisco, CA',
+    'san francisco, California, USA',
+    'San Francisco Bay Area',
+    'San Francisco CA 94105',
+  ])('resolves %s to San Francisco', value => {
+    expect(resolveCity(value)).toEqual({ city: 'San Francisco', region: 'California', countryCode: 'US', latitude: 37.7749, longitude: -122.4194, timeZone: 'America/Los_Angeles' });
+  });
+
+  it('drops words describing the surrounding area', () => {
+    expect(resolveCity('Greater London Area')).toMatchObject({ city: 'London', region: 'England', countryCode: 'GB' });
+    expect(resolveCity('Munich Metropolitan Region')).toMatchObject({ city: 'Munich', countryCode: 'DE' });
+  });
+
+  it('reads the region or country trailing a city without a comma', () => {
+    expect(resolveCity('Austin TX')).toMatchObject({ city: 'Austin', region: 'Texas', countryCode: 'US' });
+    expect(resolveCity('Paris France')).toMatchObject({ city: 'Paris', countryCode: 'FR' });
+  });
+
+  it('uses the country or region to tell cities of the same name apart', () => {
+    expect(resolveCity('Cambridge')?.countryCode).toBe('GB');
+    expect(resolveCity('Cambridge, MA')).toMatchObject({ city: 'Cambridge', region: 'Massachusetts', countryCode: 'US' });
+    expect(resolveCity('Cambridge, Massachusetts, United States')?.countryCode).toBe('US');
+  });
+
+  it('matches other spellings and accents', () => {
+    expect(resolveCity('Bangalore, India')).toMatchObject({ city: 'Bengaluru', region: 'Karnataka' });
+    expect(resolveCity('Zürich, Switzerland')).toMatchObject({ city: 'Zurich', countryCode: 'CH' });
+    expect(resolveCity('Montreal, QC, Canada')).toMatchObject({ city: 'Montreal', region: 'Quebec', countryCode: 'CA' });
+  });
+
+  it('ignores qualifiers that name no known place', () => {
+    expect(resolveCity('Brooklyn, Kings County, NY')).toMatchObject({ city: 'New York', region: 'New York' });
+  });
+
+  it('leaves unknown cities and places that contradict their qualifiers unresolved', () => {
+    expect(resolveCity('Paris, TX')).toBeUndefined();
+    expect(resolveCity('London, Ontario')).toBeUndefined();
+    expect(resolveCity('Springfield')).toBeUndefined();
+    expect(resolveCity('New York Mills')).toBeUndefined();
+    expect(resolveCity('')).toBeUndefined();
+  });
+});
+
+describe('isSameCity', () => {
+  it('matches the same city written differently', () => {
+    expect(isSameCity('San Francisco, CA', 'san francisco, California, USA')).toBe(true);
+    expect(isSameCity('Zürich', 'Zurich, Switzerland')).toBe(true);
+    expect(isSameCity('San Jose, CA', 'San Francisco, CA')).toBe(false);
+  });
+
+  it('tells apart cities of the same name in different regions or countries', () => {
+    expect(isSameCity('Portland, OR', 'Portland, ME')).toBe(false);
+    expect(isSameCity('Vancouver, BC', 'Vancouver, Washington')).toBe(false);
+    expect(isSameCity('Cambridge, UK', 'Cambridge, MA, USA')).toBe(false);
+  });
+
+  it('only compares regions and countries both answers name', () => {
+    expect(isSameCity('Portland', 'Portland, OR')).toBe(true);
+    expect(isSameCity('Vancouver, CA', 'Vancouver, British Columbia')).toBe(true);
+    expect(isSameCity('Austin, TX', 'Austin, USA')).toBe(true);
+  });
+});
+
+describe('withResolvedLocation', () => {
+  const client: Client = { id: 1, firstName: 'Jane', lastName: 'Doe', jobTitle: 'CEO', company: 'Acme', city: '' };
+
+  it('sets the location of a known city and flags an unknown one', () => {
+    expect(withResolvedLocation({ ...client, city: 'NYC' })).toMatchObject({ location: { city: 'New York', countryCode: 'US' }, locationUnresolved: undefined });
+    expect(withResolvedLocation({ ...client, city: 'Springfield' })).toMatchObject({ location: undefined, locationUnresolved: true });
+  });
+
+  it('does not flag rows without a city', () => {
+    expect(withResolvedLocation({ ...client, city: 'Not Found' }).locationUnresolved).toBeUndefined();
+    expect(withResolvedLocation({ ...client, city: 'Austin, TX', location: resolveCity('Austin, TX') }).location?.city).toBe('Austin');
+    expect(withResolvedLocation(client).locationUnresolved).toBeUndefined();
+  });
+
+  it('adds the structured fields to the export', () => {
+    const clients = [withResolvedLocation({ ...client, city: 'Austin, TX' }), withResolvedLocation({ ...client, id: 2, firstName: 'John', city: 'Springfield' })];
+
+    const { rows } = parseCsvText(buildClientsCsv(clients));
+
+    expect(rows[0].slice(6)).toEqual(['City (Normalized)', 'Region', 'Country Code', 'Latitude', 'Longitude', 'Time Zone', 'Location Unresolved']);
+    expect(rows[1].slice(6)).toEqual(['Austin', 'Texas', 'US', '30.2672', '-97.7431', 'America/Chicago', '']);
+    expect(rows[2].slice(6)).toEqual(['', '', '', '', '', '', 'Yes']);
+  });
+});
@@ -0,0 +1,81 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { fetchSheetTables, SheetFetchError } from '../services/googleSheetService';
+import { buildProxiedUrl } from '../services/corsProxy';
+
+const EXPORT_URL = 'https://docs.google.com/spreadsheets/d/sheet-123/export?format=csv&gid=0';
+
+describe('buildProxiedUrl', () => {
+  it('builds the request URL for each proxy mode', () => {
+    expect(buildProxiedUrl(EXPORT_URL, { mode: 'none', urlTemplate: '' })).toBe(EXPORT_URL);
+    expect(buildProxiedUrl(EXPORT_URL, { mode: 'builtin', urlTemplate: '' })).toBe(`/sheet-proxy?url=${encodeURIComponent(EXPORT_URL)}`);
+    expect(buildProxiedUrl(EXPORT_URL, { mode: 'custom', urlTemplate: 'https://proxy.test/fetch?target={url}&cache=0' }))
+      .toBe(`https://proxy.test/fetch?target=${encodeURIComponent(EXPORT_URL)}&cache=0`);
+    expect(buildProxiedUrl(EXPORT_URL, { mode: 'custom', urlTemplate: 'https://corsproxy.io/?' })).toBe(`https://corsproxy.io/?${encodeURIComponent(EXPORT_URL)}`);
+  });
+});
+
+describe('fetchSheetTables through a custom proxy', () => {
+  let server: Server;
+  let proxyTemplate: string;
+  let requestedUrls: string[];
+  let reply: { status: number; contentType: string; body: string };
+
+  beforeEach(async () => {
+    requestedUrls = [];
+    reply = { status: 200, contentType: 'text/csv', body: 'First Name,Last Name\nJane,Doe\n' };
+    server = createServer((req, res) => {
+      requestedUrls.push(new URL(req.url!, 'http://localhost').searchParams.get('target') || '');
+      res.writeHead(reply.status, { 'Content-Type': reply.contentType });
+      res.end(reply.body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    proxyTemplate = `http://127.0.0.1:${(server.address() as AddressInfo).port}/?target={url}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const loadWithProxy = () => fetchSheetTables('sheet-123', [], { mode: 'custom', urlTemplate: proxyTemplate });
+
+  const expectErrorKind = async (kind: SheetFetchError['kind']) => {
+    const error = await loadWithProxy().catch(e => e);
+    expect(error).toBeInstanceOf(SheetFetchError);
+    expect(error.kind).toBe(kind);
+  };
+
+  it('fetches the export URL through the template', async () => {
+    const tables = await loadWithProxy();
+    expect(requestedUrls).toEqual([EXPORT_URL]);
+    expect(tables[0].rows).toEqual([['Jane', 'Doe']]);
+  });
+
+  it('reports a refused sheet as a permission failure', async () => {
+    reply = { status: 403, contentType: 'text/plain', body: 'Forbidden' };
+    await expectErrorKind('permission');
+  });
+
+  it('reports the Google sign-in page as a permission failure', async () => {
+    reply = { status: 200, contentType: 'text/html; charset=utf-8', body: '<html><title>Sign in</title></html>' };
+    await expectErrorKind('permission');
+  });
+
+  it('reports a missing sheet as not found', async () => {
+    reply = { status: 404, contentType: 'text/html', body: 'Not Found' };
+    await expectErrorKind('not_found');
+  });
+
+  it('reports proxy errors as proxy failures', async () => {
+    reply = { status: 502, contentType: 'text/plain', body: 'Bad Gateway' };
+    await expectErrorKind('proxy');
+  });
+
+  it('reports an unreachable proxy as a proxy failure', async () => {
+    await new Promise(resolve => server.close(resolve));
+    await expectErrorKind('proxy');
+    server = createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+});
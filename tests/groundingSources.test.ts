@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { attributeGroundedSources, getSourceLabel, mergeSourceLinks } from '../services/groundingSources';
+
+const linkedIn = { url: 'https://www.linkedin.com/in/jane-doe', title: 'Jane Doe | LinkedIn' };
+const company = { url: 'https://www.acme.com/team' };
+
+describe('attributeGroundedSources', () => {
+  it('maps byte offsets to the result object they fall inside', () => {
+    // "Zürich" takes one more byte than characters, which shifts every later offset.
+    const text = '{"results":[{"id":1,"city":"Zürich","jobTitle":""},{"id":2,"city":"Bern","jobTitle":""}]}';
+    const bytes = (chars: number) => new TextEncoder().encode(text.substring(0, chars)).length;
+    const bernStart = text.indexOf('"Bern"');
+
+    const attributed = attributeGroundedSources(text, [1, 2], [
+      { startIndex: bytes(bernStart), endIndex: bytes(bernStart + 6), text: '"Bern"', sources: [company] },
+    ]);
+
+    expect(attributed.get(1)).toBeUndefined();
+    expect(attributed.get(2)).toEqual([company]);
+  });
+
+  it('gives every source to the only person in the batch', () => {
+    const attributed = attributeGroundedSources('Jane lives in Oslo.', [7], [
+      { text: 'not in the answer', sources: [linkedIn] },
+      { sources: [company, linkedIn] },
+    ]);
+    expect(attributed.get(7)).toEqual([linkedIn, company]);
+  });
+});
+
+describe('source links', () => {
+  it('merges lists without repeating a URL', () => {
+    expect(mergeSourceLinks([linkedIn], undefined, [company, { url: linkedIn.url }])).toEqual([linkedIn, company]);
+  });
+
+  it('labels links by title or host name', () => {
+    expect(getSourceLabel(linkedIn)).toBe('Jane Doe | LinkedIn');
+    expect(getSourceLabel(company)).toBe('acme.com');
+  });
+});
@@ -0,0 +1,15 @@
+import { Clock } from '../../services/rateLimiter';
+
+// A clock whose sleeps pass instantly, recording how long each one was.
+export const createFakeClock = () => {
+  let time = 0;
+  const sleeps: number[] = [];
+  const clock: Clock = {
+    now: () => time,
+    sleep: async ms => {
+      sleeps.push(ms);
+      time += ms;
+    },
+  };
+  return { clock, sleeps };
+};
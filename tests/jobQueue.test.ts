@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { EnrichmentOutcome } from '../services/enrichmentProvider';
+import { createJobQueue, getJobOutcomes, getUnfinishedClientKeys, parseJobQueue, saveJobOutcomes, setJobState } from '../services/jobQueue';
+
+const queue = createJobQueue('consensus', ['gemini', 'openai'], [
+  { key: 'jane|doe|acme', status: 'idle' },
+  { key: 'john|smith|globex', status: 'error' },
+  { key: 'ann|lee|initech', status: 'not_found' },
+]);
+
+describe('job queue', () => {
+  it('tracks every client with every provider', () => {
+    expect(queue.entries).toHaveLength(6);
+    expect(queue.previousStatuses['john|smith|globex']).toBe('error');
+    expect(getUnfinishedClientKeys(queue)).toEqual(['jane|doe|acme', 'john|smith|globex', 'ann|lee|initech']);
+  });
+
+  it('keeps a client unfinished until every provider is done', () => {
+    let next = setJobState(queue, ['jane|doe|acme', 'john|smith|globex'], 'done');
+    next = setJobState(next, ['ann|lee|initech'], 'done', 'gemini');
+
+    expect(getUnfinishedClientKeys(next)).toEqual(['ann|lee|initech']);
+  });
+
+  it('keeps the answers of providers that finished until the batch is processed', () => {
+    const answer: EnrichmentOutcome = { kind: 'result', result: { city: 'Austin, TX', jobTitle: 'CEO' } };
+    const inFlight = setJobState(queue, ['jane|doe|acme'], 'in_flight');
+    const answered = saveJobOutcomes(inFlight, 'gemini', new Map([['jane|doe|acme', answer]]));
+
+    // Only OpenAI still has to be asked about Jane, also after a reload.
+    const restored = parseJobQueue(JSON.stringify(answered))!;
+    expect(getJobOutcomes(restored, 'gemini')).toEqual(new Map([['jane|doe|acme', answer]]));
+    expect(getJobOutcomes(restored, 'openai').size).toBe(0);
+    expect(restored.entries.find(entry => entry.clientKey === 'jane|doe|acme' && entry.providerId === 'openai')?.state).toBe('pending');
+    expect(getUnfinishedClientKeys(restored)[0]).toBe('jane|doe|acme');
+
+    expect(getJobOutcomes(setJobState(answered, ['jane|doe|acme'], 'done'), 'gemini').size).toBe(0);
+  });
+
+  it('requeues requests that were in flight when the page closed', () => {
+    const saved = JSON.stringify(setJobState(queue, ['jane|doe|acme'], 'in_flight'));
+
+    const restored = parseJobQueue(saved);
+
+    expect(restored?.entries.every(entry => entry.state === 'pending')).toBe(true);
+    expect(restored?.mode).toBe('consensus');
+  });
+
+  it('ignores missing or malformed saved queues', () => {
+    expect(parseJobQueue(null)).toBeNull();
+    expect(parseJobQueue('{"mode":"findAll","providerIds":["gemini"],"entries":[{"clientKey":1}]}')).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { localModelProvider } from '../services/localModelService';
+import { Client } from '../types';
+
+const clients: Client[] = [
+  { id: 1, firstName: 'Jane', lastName: 'Doe', jobTitle: 'CEO', company: 'Acme', city: '' },
+  { id: 2, firstName: 'John', lastName: 'Smith', jobTitle: '', company: 'Globex', city: '' },
+];
+
+// The parts of a chat completions request the tests look at.
+interface ChatCompletionRequest {
+  model: string;
+  response_format?: { type: string };
+  messages: { role: string; content: string }[];
+}
+
+// A stand-in for an Ollama or llama.cpp server's chat completions endpoint.
+const createStubModelServer = () => {
+  const requests: { headers: IncomingMessage['headers']; body: ChatCompletionRequest }[] = [];
+  let reply: { status: number; body: unknown; headers?: Record<string, string> } = { status: 200, body: {} };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    if (req.method !== 'POST' || req.url !== '/v1/chat/completions') {
+      res.writeHead(404);
+      return res.end();
+    }
+    requests.push({ headers: req.headers, body: JSON.parse(body) as ChatCompletionRequest });
+    res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+    res.end(JSON.stringify(reply.body));
+  };
+
+  const server: Server = createServer((req, res) => { handle(req, res); });
+  return { server, requests, setReply: (next: typeof reply) => { reply = next; } };
+};
+
+const completion = (content: unknown) => ({ choices: [{ message: { role: 'assistant', content: JSON.stringify(content) } }] });
+
+describe('local model provider', () => {
+  let stub: ReturnType<typeof createStubModelServer>;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    stub = createStubModelServer();
+    await new Promise<void>(resolve => stub.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => stub.server.close(resolve));
+  });
+
+  it('sends the batch to the configured model and reads the JSON results', async () => {
+    stub.setReply({ status: 200, body: completion({ results: [{ id: 1, city: 'Austin, TX', jobTitle: 'Chief Executive Officer' }, { id: 2, city: 'Not Found', jobTitle: '' }] }) });
+    localModelProvider.init({ baseUrl, model: 'llama3.1', apiKey: '' });
+
+    const { results } = await localModelProvider.enrichBatch(clients);
+
+    expect(results.get(1)).toEqual({ kind: 'result', result: { city: 'Austin, TX', jobTitle: 'Chief Executive Officer' } });
+    expect(results.get(2)).toEqual({ kind: 'result', result: { city: 'Not Found', jobTitle: '' } });
+    expect(stub.requests[0].body.model).toBe('llama3.1');
+    expect(stub.requests[0].body.response_format).toEqual({ type: 'json_object' });
+    expect(stub.requests[0].body.messages[0].content).toContain('"person": "Jane Doe"');
+    expect(stub.requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('reports the tokens the server used', async () => {
+    const results = [{ id: 1, city: 'Austin, TX', jobTitle: '' }, { id: 2, city: 'Not Found', jobTitle: '' }];
+    stub.setReply({ status: 200, body: { ...completion({ results }), usage: { prompt_tokens: 812, completion_tokens: 64, total_tokens: 876 } } });
+    localModelProvider.init({ baseUrl, model: 'llama3.1', apiKey: '' });
+
+    const { usage, model } = await localModelProvider.enrichBatch(clients);
+
+    expect(usage).toEqual({ inputTokens: 812, outputTokens: 64 });
+    expect(model).toBe('llama3.1');
+  });
+
+  it('sends the API key when one is set', async () => {
+    stub.setReply({ status: 200, body: completion({ results: [] }) });
+    localModelProvider.init({ baseUrl, model: 'qwen2.5', apiKey: 'local-secret' });
+
+    await localModelProvider.enrichBatch(clients);
+
+    expect(stub.requests[0].headers.authorization).toBe('Bearer local-secret');
+  });
+
+  it('reports server errors for every client in the batch', async () => {
+    stub.setReply({ status: 404, body: { error: { message: 'model "missing" not found, try pulling it first' } } });
+    localModelProvider.init({ baseUrl, model: 'missing', apiKey: '' });
+
+    const { results, batchError } = await localModelProvider.enrichBatch(clients);
+
+    expect(batchError).toEqual({
+      code: 'api_error',
+      message: 'model "missing" not found, try pulling it first',
+      retryable: false,
+      providerId: 'local',
+      providerName: 'Local Model',
+      status: 404,
+    });
+    expect([...results.values()]).toEqual([{ kind: 'error', error: batchError }, { kind: 'error', error: batchError }]);
+  });
+
+  it('reports the wait a rate-limited server asks for', async () => {
+    stub.setReply({ status: 429, body: { error: { message: 'Too many requests' } }, headers: { 'Retry-After': '12' } });
+    localModelProvider.init({ baseUrl, model: 'llama3.1', apiKey: '' });
+
+    const batch = await localModelProvider.enrichBatch(clients);
+
+    expect(batch.batchError?.code).toBe('rate_limited');
+    expect(batch.retryAfterMs).toBe(12000);
+  });
+
+  it('requires a base URL and a model', () => {
+    expect(() => localModelProvider.init({ baseUrl: '', model: 'llama3.1' })).toThrow('base URL and a model name');
+  });
+});
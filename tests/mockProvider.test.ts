@@ -0,0 +1,100 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createMockProvider, parseRecordedResponses } from '../services/mockProvider';
+import { createRateLimiter, enrichBatchWithRetries } from '../services/rateLimiter';
+import { Client } from '../types';
+import { createFakeClock } from './helpers/fakeClock';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'responses');
+
+// Every fixture is a JSON array of recorded responses, replayed in order.
+const loadFixture = (name: string) => parseRecordedResponses(readFileSync(path.join(FIXTURES_DIR, `${name}.json`), 'utf8'));
+
+const clients: Client[] = [
+  { id: 1, firstName: 'Jane', lastName: 'Doe', jobTitle: 'CEO', company: 'Acme', city: '' },
+  { id: 2, firstName: 'John', lastName: 'Smith', jobTitle: '', company: 'Globex', city: '' },
+];
+
+const ANSWERS = new Map([
+  [1, { kind: 'result', result: { city: 'Austin, TX', jobTitle: 'Chief Executive Officer', confidence: 92, rationale: 'Her LinkedIn profile lists Austin.' } }],
+  [2, { kind: 'result', result: { city: 'Not Found', jobTitle: '', confidence: 10, rationale: 'No current profile was found.' } }],
+]);
+
+describe('mock provider', () => {
+  it.each(['json-lines', 'wrapped-array', 'fenced-object'])('reads the %s answer shape', async fixture => {
+    const provider = createMockProvider(loadFixture(fixture));
+
+    const batch = await provider.enrichBatch(clients);
+
+    expect(batch.results).toEqual(ANSWERS);
+    expect(batch.usage).toEqual({ inputTokens: 420, outputTokens: 80 });
+    expect(batch.model).toBe('mock-model');
+    expect(provider.getRemainingCount()).toBe(0);
+  });
+
+  it('asks again for the results that failed validation', async () => {
+    const provider = createMockProvider(loadFixture('malformed-then-repaired'));
+
+    const batch = await provider.enrichBatch(clients);
+
+    expect(batch.results).toEqual(ANSWERS);
+    expect(batch.usage).toEqual({ inputTokens: 720, outputTokens: 110 });
+    expect(provider.getPrompts()).toHaveLength(2);
+    expect(provider.getPrompts()[1]).toContain('"id": 2');
+    expect(provider.getPrompts()[1]).not.toContain('"id": 1');
+  });
+
+  it('reports answers that stay malformed after the repair attempts', async () => {
+    const provider = createMockProvider(loadFixture('malformed'));
+
+    const batch = await provider.enrichBatch(clients);
+
+    expect(batch.results.get(1)).toMatchObject({ kind: 'error', error: { code: 'malformed_response', providerName: 'Mock' } });
+    expect(batch.results.get(2)).toMatchObject({ kind: 'error', error: { code: 'no_result' } });
+    expect(batch.batchError).toBeUndefined();
+  });
+
+  it.each([
+    ['rate-limited-openai', 20000],
+    ['rate-limited-gemini', 17000],
+  ])('waits as long as %s asks and replays the batch', async (fixture, waitMs) => {
+    const { clock, sleeps } = createFakeClock();
+    const provider = createMockProvider(loadFixture(fixture));
+
+    const batch = await enrichBatchWithRetries(provider, clients, createRateLimiter(provider.rateLimits, clock), { maxAttempts: 3, clock, random: () => 0 });
+
+    expect(sleeps).toEqual([waitMs]);
+    expect(batch.results).toEqual(ANSWERS);
+  });
+
+  it('reports an exceeded quota as a batch error', async () => {
+    const provider = createMockProvider(loadFixture('quota'));
+
+    const batch = await provider.enrichBatch(clients);
+
+    expect(batch.batchError).toMatchObject({ code: 'insufficient_quota', status: 429, retryable: false });
+    expect(batch.results.get(2)).toEqual({ kind: 'error', error: batch.batchError });
+  });
+
+  it('reports a rejected key as a batch error', async () => {
+    const provider = createMockProvider(loadFixture('invalid-key'));
+
+    const batch = await provider.enrichBatch(clients);
+
+    expect(batch.batchError?.code).toBe('invalid_api_key');
+  });
+
+  it('fails the batch once the recordings run out', async () => {
+    const provider = createMockProvider([], { id: 'offline', name: 'Offline' });
+
+    const batch = await provider.enrichBatch(clients);
+
+    expect(batch.batchError).toMatchObject({ code: 'api_error', providerId: 'offline', message: 'Offline has no recorded response left for request 1.' });
+  });
+
+  it('rejects fixtures that are not recorded responses', () => {
+    expect(() => parseRecordedResponses('{"text":"hi"}')).toThrow('JSON array');
+    expect(() => parseRecordedResponses('[{"text":"hi"},{"error":{"status":429}}]')).toThrow('Recorded response 2');
+  });
+});
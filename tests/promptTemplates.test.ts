@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { buildEnrichmentPrompt } from '../services/enrichmentProvider';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  EMPTY_PROMPT_TEMPLATE_STORE,
+  getActivePromptTemplate,
+  parsePromptTemplateStore,
+  savePromptTemplateVersion,
+  setActivePromptTemplate,
+  validatePromptTemplate,
+} from '../services/promptTemplates';
+import { Client } from '../types';
+
+const clients: Client[] = [{ id: 4, firstName: 'Jane', lastName: 'Doe', jobTitle: 'CEO', company: 'Acme', city: '' }];
+
+describe('prompt templates', () => {
+  it('fills the placeholders of a template', () => {
+    const prompt = buildEnrichmentPrompt(clients, { webSearch: true, citeSources: false }, 'Focus on medical devices.\n{{inputJson}}\n{{outputRules}}');
+
+    expect(prompt.startsWith('Focus on medical devices.\n[')).toBe(true);
+    expect(prompt).toContain('"person": "Jane Doe"');
+    expect(prompt).toContain('CRITICAL OUTPUT RULES:');
+    expect(prompt).not.toContain('{{');
+  });
+
+  it('requires the input and output placeholders and rejects unknown ones', () => {
+    expect(validatePromptTemplate(DEFAULT_PROMPT_TEMPLATE)).toEqual([]);
+    expect(validatePromptTemplate('Find {{people}}.\n{{outputRules}}')).toEqual([
+      'The template must contain {{inputJson}}.',
+      '{{people}} is not a known placeholder.',
+    ]);
+  });
+
+  it('saves edits as new versions and builds prompts from the active one', () => {
+    const first = savePromptTemplateVersion(EMPTY_PROMPT_TEMPLATE_STORE, 'v1 {{inputJson}} {{outputRules}}', new Date('2025-01-01T00:00:00Z'));
+    const second = savePromptTemplateVersion(first, 'v2 {{inputJson}} {{outputRules}}');
+    expect(second.versions.map(v => v.version)).toEqual([1, 2]);
+    expect(second.activeVersion).toBe(2);
+    expect(() => savePromptTemplateVersion(second, 'no placeholders')).toThrow('{{inputJson}}');
+
+    setActivePromptTemplate({ ...second, activeVersion: 1 });
+    try {
+      expect(getActivePromptTemplate().version).toBe(1);
+      expect(buildEnrichmentPrompt(clients, { webSearch: false, citeSources: false }).startsWith('v1 [')).toBe(true);
+    } finally {
+      setActivePromptTemplate(EMPTY_PROMPT_TEMPLATE_STORE);
+    }
+  });
+
+  it('falls back to the default for missing or malformed stored data', () => {
+    expect(parsePromptTemplateStore(null)).toEqual(EMPTY_PROMPT_TEMPLATE_STORE);
+    expect(parsePromptTemplateStore('not json')).toEqual(EMPTY_PROMPT_TEMPLATE_STORE);
+    const stored = JSON.stringify({ versions: [{ version: 1, body: 'x', savedAt: '2025-01-01T00:00:00.000Z' }, { version: 'two' }], activeVersion: 3 });
+    expect(parsePromptTemplateStore(stored)).toEqual({ versions: [{ version: 1, body: 'x', savedAt: '2025-01-01T00:00:00.000Z' }], activeVersion: 0 });
+  });
+});
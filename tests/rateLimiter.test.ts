@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { createEnrichmentError, EnrichmentBatch, EnrichmentProvider } from '../services/enrichmentProvider';
+import { createRateLimiter, enrichBatchWithRetries, getBackoffDelay, parseMaxRateLimitAttempts, RateLimitWait } from '../services/rateLimiter';
+import { Client } from '../types';
+import { createFakeClock } from './helpers/fakeClock';
+
+const clients: Client[] = [{ id: 1, firstName: 'Jane', lastName: 'Doe', jobTitle: 'CEO', company: 'Acme', city: '' }];
+
+const rateLimitError = createEnrichmentError('rate_limited', { id: 'test', name: 'Test' }, { status: 429 });
+
+const rateLimited = (retryAfterMs?: number): EnrichmentBatch => ({
+  results: new Map([[1, { kind: 'error', error: rateLimitError }]]),
+  usage: { inputTokens: 0, outputTokens: 0 },
+  model: 'test-model',
+  batchError: rateLimitError,
+  ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+});
+
+const answered: EnrichmentBatch = {
+  results: new Map([[1, { kind: 'result', result: { city: 'Austin, TX', jobTitle: 'CEO' } }]]),
+  usage: { inputTokens: 100, outputTokens: 20 },
+  model: 'test-model',
+};
+
+// A provider that returns the given batches in order.
+const scriptedProvider = (batches: EnrichmentBatch[]): EnrichmentProvider & { calls: number } => {
+  const provider = {
+    id: 'test',
+    name: 'Test',
+    settings: [],
+    capabilities: { webSearch: false, findAll: true, retryFailed: true },
+    rateLimits: { batchSize: 5, requestsPerMinute: 60 },
+    init: () => {},
+    calls: 0,
+    enrichBatch: async () => batches[provider.calls++],
+  };
+  return provider;
+};
+
+describe('rate limiter', () => {
+  it('spaces requests evenly at the configured rate', async () => {
+    const { clock, sleeps } = createFakeClock();
+    const limiter = createRateLimiter({ batchSize: 5, requestsPerMinute: 6 }, clock);
+
+    await limiter.acquire();
+    await limiter.acquire();
+    await limiter.acquire();
+
+    expect(sleeps).toEqual([10000, 10000]);
+  });
+
+  it('does not wait without a request limit', async () => {
+    const { clock, sleeps } = createFakeClock();
+    const limiter = createRateLimiter({ batchSize: 5, requestsPerMinute: null }, clock);
+
+    await limiter.acquire();
+    await limiter.acquire();
+
+    expect(sleeps).toEqual([]);
+  });
+
+  it('holds requests back and slows down after a rate limit, then recovers', async () => {
+    const { clock, sleeps } = createFakeClock();
+    const limiter = createRateLimiter({ batchSize: 5, requestsPerMinute: 60 }, clock);
+
+    await limiter.acquire();
+    limiter.reportRateLimited(5000);
+    expect(limiter.getRequestsPerMinute()).toBe(30);
+    await limiter.acquire();
+    expect(sleeps[0]).toBe(5000);
+
+    for (let i = 0; i < 10; i++) limiter.reportSuccess();
+    expect(limiter.getRequestsPerMinute()).toBe(60);
+  });
+
+  it('backs off exponentially with jitter up to a ceiling', () => {
+    expect(getBackoffDelay(1, { baseDelayMs: 1000, maxDelayMs: 10000 }, () => 0)).toBe(500);
+    expect(getBackoffDelay(3, { baseDelayMs: 1000, maxDelayMs: 10000 }, () => 1)).toBe(4000);
+    expect(getBackoffDelay(10, { baseDelayMs: 1000, maxDelayMs: 10000 }, () => 1)).toBe(10000);
+  });
+
+  it('falls back to the default number of attempts for invalid values', () => {
+    expect(parseMaxRateLimitAttempts('3')).toBe(3);
+    expect(parseMaxRateLimitAttempts('0')).toBe(5);
+    expect(parseMaxRateLimitAttempts('2.5')).toBe(5);
+    expect(parseMaxRateLimitAttempts(null)).toBe(5);
+  });
+});
+
+describe('enrichBatchWithRetries', () => {
+  it('waits as long as the provider asks and resends the batch', async () => {
+    const { clock, sleeps } = createFakeClock();
+    const provider = scriptedProvider([rateLimited(20000), answered]);
+    const waits: RateLimitWait[] = [];
+
+    const batch = await enrichBatchWithRetries(provider, clients, createRateLimiter(provider.rateLimits, clock), {
+      maxAttempts: 3,
+      onWait: wait => waits.push(wait),
+      clock,
+      random: () => 0,
+    });
+
+    expect(batch.results.get(1)).toEqual({ kind: 'result', result: { city: 'Austin, TX', jobTitle: 'CEO' } });
+    expect(batch.usage).toEqual({ inputTokens: 100, outputTokens: 20 });
+    expect(provider.calls).toBe(2);
+    expect(sleeps).toEqual([20000]);
+    expect(waits).toEqual([{ providerName: 'Test', attempt: 1, maxAttempts: 3, resumeAt: 20000 }]);
+  });
+
+  it('stops waiting when the signal is aborted', async () => {
+    const provider = scriptedProvider([rateLimited(60000), answered]);
+    const controller = new AbortController();
+
+    const request = enrichBatchWithRetries(provider, clients, createRateLimiter(provider.rateLimits), {
+      maxAttempts: 3,
+      onWait: () => controller.abort(),
+      signal: controller.signal,
+    });
+
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    expect(provider.calls).toBe(1);
+  });
+
+  it('returns the rate-limited batch once the attempts are used up', async () => {
+    const { clock } = createFakeClock();
+    const provider = scriptedProvider([rateLimited(), rateLimited(), rateLimited()]);
+
+    const batch = await enrichBatchWithRetries(provider, clients, createRateLimiter(provider.rateLimits, clock), { maxAttempts: 2, clock, random: () => 0 });
+
+    expect(batch.batchError?.code).toBe('rate_limited');
+    expect(provider.calls).toBe(2);
+  });
+});
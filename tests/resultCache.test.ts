@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { EnrichmentBatch } from '../services/enrichmentProvider';
+import {
+  addToResultCache,
+  getResultCacheKey,
+  lookupCachedResults,
+  mergeCachedResults,
+  parseCacheTtlDays,
+  parseResultCache,
+  removeCachedResults,
+} from '../services/resultCache';
+import { Client } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+const jane: Client = { id: 1, firstName: 'Jane', lastName: 'Doe', jobTitle: 'CEO', company: 'Acme', city: '' };
+const jose: Client = { id: 2, firstName: 'José', lastName: "O'Neil", jobTitle: 'CTO', company: 'Globex  Corp', city: '' };
+
+const answered: EnrichmentBatch = {
+  results: new Map([
+    [1, { kind: 'result', result: { city: 'Austin, TX', jobTitle: 'CEO' } }],
+    [2, { kind: 'result', result: { city: 'Not Found', jobTitle: 'CTO' } }],
+  ]),
+  usage: { inputTokens: 100, outputTokens: 20 },
+  model: 'test-model',
+};
+
+describe('result cache', () => {
+  it('matches people regardless of case, accents and punctuation', () => {
+    const reloaded = { ...jose, id: 7, firstName: 'jose', lastName: 'o neil', company: 'GLOBEX CORP' };
+
+    expect(getResultCacheKey(reloaded, 'gemini', 2)).toBe(getResultCacheKey(jose, 'gemini', 2));
+    expect(getResultCacheKey(jose, 'gemini', 2)).not.toBe(getResultCacheKey(jose, 'openai', 2));
+    expect(getResultCacheKey(jose, 'gemini', 2)).not.toBe(getResultCacheKey(jose, 'gemini', 3));
+  });
+
+  it('caches found cities only and reuses them for the same provider and prompt version', () => {
+    const cache = addToResultCache({}, [jane, jose], answered, 'gemini', 0, NOW);
+
+    const { cached, uncached } = lookupCachedResults(cache, [{ ...jane, id: 9 }, jose], 'gemini', 0, 30, NOW + DAY_MS);
+
+    expect(cached.get(9)?.result.city).toBe('Austin, TX');
+    expect(uncached).toEqual([jose]);
+    expect(lookupCachedResults(cache, [jane], 'openai', 0, 30, NOW).uncached).toEqual([jane]);
+  });
+
+  it('stops reusing answers once they are older than the TTL', () => {
+    const cache = addToResultCache({}, [jane], answered, 'gemini', 0, NOW);
+
+    expect(lookupCachedResults(cache, [jane], 'gemini', 0, 7, NOW + 8 * DAY_MS).uncached).toEqual([jane]);
+    expect(parseResultCache(JSON.stringify(cache), 7, NOW + 8 * DAY_MS)).toEqual({});
+  });
+
+  it('forgets every cached answer of the given people', () => {
+    let cache = addToResultCache({}, [jane, jose], { ...answered, results: new Map([[2, { kind: 'result', result: { city: 'Lisbon', jobTitle: 'CTO' } }]]) }, 'gemini', 0, NOW);
+    cache = addToResultCache(cache, [jane], answered, 'openai', 1, NOW);
+
+    expect(Object.keys(removeCachedResults(cache, [jane]))).toEqual([getResultCacheKey(jose, 'gemini', 0)]);
+  });
+
+  it('merges cached answers into the sent batch in client order', () => {
+    const cache = addToResultCache({}, [jane], answered, 'gemini', 0, NOW);
+    const { cached } = lookupCachedResults(cache, [jane, jose], 'gemini', 0, 30, NOW);
+    const sent: EnrichmentBatch = { ...answered, results: new Map([[2, answered.results.get(2)!]]) };
+
+    const merged = mergeCachedResults([jane, jose], sent, cached);
+
+    expect([...merged.results.keys()]).toEqual([1, 2]);
+    expect(merged.cachedAt).toEqual(new Map([[1, new Date(NOW).toISOString()]]));
+    expect(merged.usage).toEqual(answered.usage);
+    expect(mergeCachedResults([jane], null, cached).usage).toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+
+  it('falls back to the default TTL for invalid values', () => {
+    expect(parseCacheTtlDays('0')).toBe(0);
+    expect(parseCacheTtlDays('14')).toBe(14);
+    expect(parseCacheTtlDays('-1')).toBe(30);
+    expect(parseCacheTtlDays(null)).toBe(30);
+  });
+});
@@ -0,0 +1,102 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createMockProvider, parseRecordedResponses } from '../services/mockProvider';
+import { applyApiResult, applyConsensusResults, getBatchStop } from '../services/resultProcessing';
+import { Client } from '../types';
+
+const loadFixture = (name: string) => parseRecordedResponses(readFileSync(path.join(__dirname, 'fixtures', 'responses', `${name}.json`), 'utf8'));
+
+const clients: Client[] = [
+  { id: 1, firstName: 'Jane', lastName: 'Doe', jobTitle: 'CEO', company: 'Acme', city: '', cityStatus: 'finding' },
+  { id: 2, firstName: 'John', lastName: 'Smith', jobTitle: 'Head of Sales', company: 'Globex', city: '', cityStatus: 'finding' },
+  { id: 3, firstName: 'Ann', lastName: 'Lee', jobTitle: 'CFO', company: 'Initech', city: 'Boston, MA', cityStatus: 'found' },
+];
+
+describe('applyApiResult', () => {
+  it('fills found cities and marks the rest not found, leaving other rows alone', async () => {
+    const batch = await createMockProvider(loadFixture('json-lines')).enrichBatch(clients.slice(0, 2));
+
+    const [jane, john, ann] = applyApiResult(clients, batch, 70);
+
+    expect(jane).toMatchObject({ city: 'Austin, TX', cityStatus: 'found', jobTitle: 'Chief Executive Officer', confidence: 92, location: { city: 'Austin', countryCode: 'US' } });
+    expect(john).toMatchObject({ city: 'Not Found', cityStatus: 'not_found', jobTitle: 'Head of Sales' });
+    expect(ann).toBe(clients[2]);
+  });
+
+  it('flags answers below the review threshold', async () => {
+    const batch = await createMockProvider(loadFixture('json-lines')).enrichBatch(clients.slice(0, 2));
+
+    expect(applyApiResult(clients, batch, 95)[0].cityStatus).toBe('needs_review');
+  });
+
+  it('compares the answer with a prefilled city instead of overwriting it', async () => {
+    const prefilled: Client = { ...clients[0], city: 'Austin, Texas', prefilledCity: 'Austin, Texas', cityStatus: 'prefilled' };
+    const batch = await createMockProvider(loadFixture('json-lines')).enrichBatch([prefilled, clients[1]]);
+
+    const [jane] = applyApiResult([prefilled], batch, 70);
+
+    expect(jane).toMatchObject({ city: 'Austin, Texas', cityStatus: 'found', verification: { status: 'confirmed', previousCity: 'Austin, Texas' } });
+  });
+
+  it('keeps the city of a failed row and records the error', async () => {
+    const row: Client = { ...clients[0], city: 'Dallas, TX' };
+    const batch = await createMockProvider(loadFixture('quota')).enrichBatch([row]);
+
+    const [jane] = applyApiResult([row], batch, 70);
+
+    expect(jane).toMatchObject({ city: 'Dallas, TX', cityStatus: 'error', error: { code: 'insufficient_quota' } });
+  });
+
+  it('labels answers taken from the result cache', async () => {
+    const batch = await createMockProvider(loadFixture('json-lines')).enrichBatch(clients.slice(0, 2));
+
+    const [jane, john] = applyApiResult(clients, { ...batch, cachedAt: new Map([[1, '2026-01-01T00:00:00.000Z']]) }, 70);
+
+    expect(jane.cachedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(john.cachedAt).toBeUndefined();
+  });
+});
+
+describe('getBatchStop', () => {
+  it('stops on a rejected key, an exceeded quota or a lasting rate limit', async () => {
+    const invalidKey = createMockProvider(loadFixture('invalid-key'), { name: 'Gemini' });
+    const quota = createMockProvider(loadFixture('quota'), { name: 'OpenAI' });
+
+    const keyStop = getBatchStop([await invalidKey.enrichBatch(clients)], [invalidKey], 5);
+    const quotaStop = getBatchStop([await quota.enrichBatch(clients)], [quota], 5);
+
+    expect(keyStop).toMatchObject({ resetSettings: true, message: 'An invalid Gemini API Key was provided. Resetting settings.' });
+    expect(quotaStop).toMatchObject({ resetSettings: false, error: { code: 'insufficient_quota' } });
+  });
+
+  it('lets the run go on after answers or failures of single clients', async () => {
+    const provider = createMockProvider(loadFixture('malformed'));
+
+    expect(getBatchStop([await provider.enrichBatch(clients)], [provider], 5)).toBeUndefined();
+  });
+});
+
+describe('applyConsensusResults', () => {
+  it('accepts the answers both providers agree on', async () => {
+    const gemini = createMockProvider(loadFixture('json-lines'), { id: 'gemini', name: 'Gemini' });
+    const openai = createMockProvider(loadFixture('fenced-object'), { id: 'openai', name: 'OpenAI' });
+    const batch = clients.slice(0, 2);
+
+    const [jane] = applyConsensusResults(clients, [await gemini.enrichBatch(batch), await openai.enrichBatch(batch)], [gemini, openai], 70);
+
+    expect(jane).toMatchObject({ city: 'Austin, TX', cityStatus: 'found' });
+  });
+
+  it('fails the whole batch when one provider stops the run', async () => {
+    const gemini = createMockProvider(loadFixture('json-lines'), { id: 'gemini', name: 'Gemini' });
+    const openai = createMockProvider(loadFixture('quota'), { id: 'openai', name: 'OpenAI' });
+    const batch = clients.slice(0, 2);
+
+    const [jane, john, ann] = applyConsensusResults(clients, [await gemini.enrichBatch(batch), await openai.enrichBatch(batch)], [gemini, openai], 70);
+
+    expect(jane).toMatchObject({ cityStatus: 'error', error: { code: 'insufficient_quota', providerName: 'OpenAI' } });
+    expect(john.cityStatus).toBe('error');
+    expect(ann).toBe(clients[2]);
+  });
+});
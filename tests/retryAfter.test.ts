@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseDurationMs, parseRetryAfterHeaders, parseRetryDelayFromMessage } from '../services/retryAfter';
+
+describe('retry hints', () => {
+  it('parses Go-style durations', () => {
+    expect(parseDurationMs('17s')).toBe(17000);
+    expect(parseDurationMs('6m0s')).toBe(360000);
+    expect(parseDurationMs('1.5s')).toBe(1500);
+    expect(parseDurationMs('20ms')).toBe(20);
+    expect(parseDurationMs('soon')).toBeUndefined();
+  });
+
+  it('reads Retry-After as seconds or as a date', () => {
+    const now = Date.parse('2025-01-01T12:00:00Z');
+    expect(parseRetryAfterHeaders(new Headers({ 'Retry-After': '30' }), now)).toBe(30000);
+    expect(parseRetryAfterHeaders(new Headers({ 'Retry-After': 'Wed, 01 Jan 2025 12:00:45 GMT' }), now)).toBe(45000);
+    expect(parseRetryAfterHeaders(new Headers({ 'retry-after-ms': '250' }), now)).toBe(250);
+  });
+
+  it('falls back to the latest quota reset header', () => {
+    const headers = new Headers({ 'x-ratelimit-reset-requests': '2s', 'x-ratelimit-reset-tokens': '1m30s' });
+    expect(parseRetryAfterHeaders(headers)).toBe(90000);
+    expect(parseRetryAfterHeaders(new Headers())).toBeUndefined();
+  });
+
+  it('reads the retry delay from a Google error body', () => {
+    const message = '{"error":{"code":429,"status":"RESOURCE_EXHAUSTED","details":[{"@type":"type.googleapis.com/google.rpc.RetryInfo","retryDelay":"17s"}]}}';
+    expect(parseRetryDelayFromMessage(message)).toBe(17000);
+    expect(parseRetryDelayFromMessage('429 Too Many Requests')).toBeUndefined();
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createRunControl } from '../services/runControl';
+
+describe('run control', () => {
+  it('aborts the current signal on pause and starts a fresh one on resume', async () => {
+    const control = createRunControl();
+    const signal = control.getSignal();
+
+    control.pause();
+    expect(signal.aborted).toBe(true);
+    expect(control.getState()).toBe('paused');
+
+    let resumed = false;
+    const waiting = control.waitUntilResumed().then(() => { resumed = true; });
+    await Promise.resolve();
+    expect(resumed).toBe(false);
+
+    control.resume();
+    await waiting;
+    expect(resumed).toBe(true);
+    expect(control.getSignal().aborted).toBe(false);
+  });
+
+  it('releases a paused run when it is cancelled', async () => {
+    const control = createRunControl();
+    control.pause();
+    const waiting = control.waitUntilResumed();
+
+    control.cancel();
+    await waiting;
+
+    expect(control.getState()).toBe('cancelled');
+    control.resume();
+    expect(control.getState()).toBe('cancelled');
+  });
+});
@@ -0,0 +1,134 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { applyWriteBack, planWriteBack, toColumnLetter } from '../services/sheetsWriteBackService';
+import { mapTablesToClients, parseCSV } from '../services/googleSheetService';
+import { Client } from '../types';
+
+const SHEET_ID = 'sheet-123';
+const TOKEN = 'test-token';
+const MAPPING = { firstName: 'First Name', lastName: 'Surname', jobTitle: 'Job Title', city: 'Identified City' };
+
+const LOADED_CSV = [
+  'First Name,Surname,Job Title,Identified City',
+  'Jane,Doe,CEO,',
+  'John,Smith,CTO,',
+  'Ana,Silva,CFO,',
+].join('\n');
+
+// A minimal stand-in for the three Sheets v4 endpoints the write-back uses.
+const createMockSheetsServer = (tabs: Record<string, { gid: number; values: string[][] }>) => {
+  const updates: { range: string; values: string[][] }[] = [];
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+      return send(401, { error: { message: 'Request had invalid authentication credentials.' } });
+    }
+    const url = new URL(req.url!, 'http://localhost');
+    const base = `/spreadsheets/${SHEET_ID}`;
+
+    if (req.method === 'GET' && url.pathname === base) {
+      return send(200, { sheets: Object.entries(tabs).map(([title, tab]) => ({ properties: { sheetId: tab.gid, title } })) });
+    }
+    if (req.method === 'GET' && url.pathname === `${base}/values:batchGet`) {
+      const valueRanges = url.searchParams.getAll('ranges').map(range => {
+        const title = range.replace(/^'|'$/g, '').replace(/''/g, "'");
+        return { range, values: tabs[title]?.values || [] };
+      });
+      return send(200, { valueRanges });
+    }
+    if (req.method === 'POST' && url.pathname === `${base}/values:batchUpdate`) {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      const { data } = JSON.parse(body);
+      updates.push(...data);
+      return send(200, { totalUpdatedCells: data.length });
+    }
+    send(404, { error: { message: 'Not found' } });
+  };
+
+  const server: Server = createServer((req, res) => { handle(req, res); });
+  return { server, updates };
+};
+
+const loadClients = (): Client[] => {
+  const table = { ...parseCSV(LOADED_CSV), tab: undefined, sheetTab: { gid: '0' } };
+  return mapTablesToClients([table], MAPPING);
+};
+
+describe('sheets write-back', () => {
+  let mock: ReturnType<typeof createMockSheetsServer>;
+  let apiBaseUrl: string;
+  let tabs: Record<string, { gid: number; values: string[][] }>;
+
+  beforeEach(async () => {
+    tabs = {
+      "Contacts 'EU'": {
+        gid: 0,
+        values: [
+          ['First Name', 'Surname', 'Job Title', 'Identified City'],
+          ['Jane', 'Doe', 'CEO'],
+          ['John', 'Smith', 'CTO', 'Boston, MA'],
+          ['Someone', 'Else', 'CFO'],
+        ],
+      },
+    };
+    mock = createMockSheetsServer(tabs);
+    await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+    apiBaseUrl = `http://127.0.0.1:${(mock.server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => mock.server.close(resolve));
+  });
+
+  it('plans cell changes and reports rows or cells that changed since load', async () => {
+    const clients = loadClients().map(client => ({ ...client, city: `${client.firstName}ville`, jobTitle: `New ${client.jobTitle}`, cityStatus: 'found' as const }));
+
+    const plan = await planWriteBack({ sheetId: SHEET_ID, accessToken: TOKEN, apiBaseUrl }, clients, MAPPING);
+
+    expect(plan.warnings).toEqual([]);
+    expect(plan.changes.map(change => [change.range, change.newValue])).toEqual([
+      ["'Contacts ''EU'''!D2", 'Janeville'],
+      ["'Contacts ''EU'''!C2", 'New CEO'],
+      ["'Contacts ''EU'''!C3", 'New CTO'],
+    ]);
+    expect(plan.conflicts.map(change => [change.range, change.conflict])).toEqual([
+      ["'Contacts ''EU'''!D3", 'Cell was changed to "Boston, MA" since the sheet was loaded.'],
+      ["'Contacts ''EU'''!D4", 'Row 4 no longer holds Ana Silva.'],
+      ["'Contacts ''EU'''!C4", 'Row 4 no longer holds Ana Silva.'],
+    ]);
+  });
+
+  it('writes the planned cells with values:batchUpdate', async () => {
+    const clients = loadClients().map(client => client.firstName === 'Jane' ? { ...client, city: 'Lisbon, Portugal', cityStatus: 'found' as const } : client);
+    const request = { sheetId: SHEET_ID, accessToken: TOKEN, apiBaseUrl };
+
+    const plan = await planWriteBack(request, clients, MAPPING);
+    const updatedCells = await applyWriteBack(request, plan.changes);
+
+    expect(updatedCells).toBe(1);
+    expect(mock.updates).toEqual([{ range: "'Contacts ''EU'''!D2", values: [['Lisbon, Portugal']] }]);
+  });
+
+  it('warns when no city column is mapped', async () => {
+    const plan = await planWriteBack({ sheetId: SHEET_ID, accessToken: TOKEN, apiBaseUrl }, [], { firstName: 'First Name', lastName: 'Surname' });
+    expect(plan.warnings[0]).toContain('No city column is mapped');
+  });
+
+  it('explains an expired token', async () => {
+    const clients = loadClients().map(client => ({ ...client, city: 'Paris', cityStatus: 'found' as const }));
+    await expect(planWriteBack({ sheetId: SHEET_ID, accessToken: 'expired', apiBaseUrl }, clients, MAPPING))
+      .rejects.toThrow('the OAuth token is invalid or has expired');
+  });
+});
+
+describe('toColumnLetter', () => {
+  it('converts column indexes to letters', () => {
+    expect([0, 25, 26, 27, 701, 702].map(toColumnLetter)).toEqual(['A', 'Z', 'AA', 'AB', 'ZZ', 'AAA']);
+  });
+});
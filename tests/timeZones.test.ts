@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { resolveCity } from '../services/gazetteer';
+import { GAZETTEER_CITIES, GAZETTEER_COUNTRIES } from '../services/gazetteerData';
+import { getLocalTime, getTimeZone, isWithinBusinessHours } from '../services/timeZones';
+
+// A Tuesday; 11:00 in New York and midnight in Tokyo.
+const TUESDAY_AFTERNOON_UTC = new Date('2026-10-20T15:00:00Z');
+
+describe('getTimeZone', () => {
+  it('uses the region in countries with several zones', () => {
+    expect(getTimeZone('US', 'California')).toBe('America/Los_Angeles');
+    expect(getTimeZone('US', 'Texas')).toBe('America/Chicago');
+    expect(getTimeZone('CA', 'British Columbia')).toBe('America/Vancouver');
+    expect(getTimeZone('US', 'Ontario')).toBeUndefined();
+  });
+
+  it('uses the country zone elsewhere', () => {
+    expect(getTimeZone('DE', 'BY')).toBe('Europe/Berlin');
+    expect(getTimeZone('XX', '')).toBeUndefined();
+  });
+
+  it('knows a valid zone for every city in the gazetteer', () => {
+    const countryNames = new Map(GAZETTEER_COUNTRIES.map(([code, name]) => [code, name]));
+    for (const [name, , , countryCode] of GAZETTEER_CITIES) {
+      const timeZone = resolveCity(`${name}, ${countryNames.get(countryCode)}`)?.timeZone;
+      expect(timeZone, name).toBeDefined();
+      expect(() => new Intl.DateTimeFormat('en-US', { timeZone })).not.toThrow();
+    }
+  });
+});
+
+describe('business hours', () => {
+  it('reads the local weekday and time', () => {
+    expect(getLocalTime('America/New_York', TUESDAY_AFTERNOON_UTC)).toEqual({ weekday: 2, hour: 11, minute: 0 });
+    expect(getLocalTime('Asia/Tokyo', TUESDAY_AFTERNOON_UTC)).toEqual({ weekday: 3, hour: 0, minute: 0 });
+  });
+
+  it('counts 9:00 to 17:00 on weekdays', () => {
+    expect(isWithinBusinessHours('America/New_York', TUESDAY_AFTERNOON_UTC)).toBe(true);
+    expect(isWithinBusinessHours('Asia/Tokyo', TUESDAY_AFTERNOON_UTC)).toBe(false);
+    expect(isWithinBusinessHours('America/Chicago', new Date('2026-10-20T14:00:00Z'))).toBe(true); // 9:00
+    expect(isWithinBusinessHours('Europe/London', new Date('2026-10-20T16:00:00Z'))).toBe(false); // 17:00
+  });
+
+  it('leaves out weekends', () => {
+    expect(isWithinBusinessHours('America/New_York', new Date('2026-10-24T15:00:00Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { buildClientsCsv } from '../services/exportService';
+import { createMockProvider } from '../services/mockProvider';
+import { applyAiClassifications, classifyTitle, classifyTitlesWithAi, needsAiClassification, withClassifiedTitle } from '../services/titleClassifier';
+import { parseCsvText } from '../services/csvParser';
+import { Client } from '../types';
+
+const client: Client = { id: 1, firstName: 'Jane', lastName: 'Doe', jobTitle: '', company: 'Acme', city: '' };
+
+describe('classifyTitle', () => {
+  it.each([
+    ['Chief Executive Officer', 'c_level', 'general_management'],
+    ['Co-Founder & CTO', 'c_level', 'engineering'],
+    ['CFO', 'c_level', 'finance'],
+    ['SVP, Sales', 'vp', 'sales'],
+    ['Vice President of Marketing', 'vp', 'marketing'],
+    ['Head of People', 'director', 'hr'],
+    ['Director, Product Management', 'director', 'product'],
+    ['Engineering Manager', 'manager', 'engineering'],
+    ['Product Marketing Manager', 'manager', 'marketing'],
+    ['Customer Success Manager', 'manager', 'customer_success'],
+    ['Senior Software Engineer', 'ic', 'engineering'],
+    ['Sales Engineer', 'ic', 'sales'],
+    ['Account Executive', 'ic', 'sales'],
+    ['Data Scientist', 'ic', 'data'],
+    ['Product Owner', 'ic', 'product'],
+    ['Executive Assistant to the CEO', 'ic', 'general_management'],
+  ])('classifies %s', (title, seniority, jobFunction) => {
+    expect(classifyTitle(title)).toEqual({ seniority, jobFunction });
+  });
+
+  it('leaves out what the title does not say', () => {
+    expect(classifyTitle('Vice President')).toEqual({ seniority: 'vp', jobFunction: undefined });
+    expect(classifyTitle('Rainmaker')).toEqual({ seniority: undefined, jobFunction: undefined });
+  });
+});
+
+describe('withClassifiedTitle', () => {
+  it('classifies the title again only when it changed from an AI-classified one', () => {
+    const classified = withClassifiedTitle({ ...client, jobTitle: 'Rainmaker' });
+    const byAi: Client = { ...classified, titleClassification: { title: 'Rainmaker', seniority: 'ic', jobFunction: 'sales', source: 'ai' } };
+
+    expect(classified.titleClassification).toEqual({ title: 'Rainmaker', seniority: undefined, jobFunction: undefined, source: 'rules' });
+    expect(withClassifiedTitle(byAi)).toBe(byAi);
+    expect(withClassifiedTitle({ ...byAi, jobTitle: 'CFO' }).titleClassification).toMatchObject({ seniority: 'c_level', jobFunction: 'finance', source: 'rules' });
+    expect(withClassifiedTitle({ ...byAi, jobTitle: '' }).titleClassification).toBeUndefined();
+  });
+
+  it('only sends partly classified titles to the AI', () => {
+    expect(needsAiClassification(withClassifiedTitle({ ...client, jobTitle: 'Vice President' }))).toBe(true);
+    expect(needsAiClassification(withClassifiedTitle({ ...client, jobTitle: 'VP Sales' }))).toBe(false);
+    expect(needsAiClassification(client)).toBe(false);
+  });
+});
+
+describe('AI fallback', () => {
+  const answer = JSON.stringify({ results: [
+    { id: 1, seniority: 'ic', function: 'sales' },
+    { id: 2, seniority: 'manager', function: 'astrology' },
+  ] });
+
+  it('fills in what the rules could not tell and keeps their findings', async () => {
+    const provider = createMockProvider([{ text: answer, usage: { inputTokens: 300, outputTokens: 40 } }]);
+    const clients = [
+      withClassifiedTitle({ ...client, jobTitle: 'Rainmaker' }),
+      withClassifiedTitle({ ...client, id: 2, jobTitle: 'Vice President' }),
+      withClassifiedTitle({ ...client, id: 3, jobTitle: 'Dreamer' }),
+    ];
+
+    const result = await classifyTitlesWithAi(provider, ['Rainmaker', 'Vice President', 'Dreamer']);
+    const [rainmaker, vicePresident, dreamer] = applyAiClassifications(clients, result.classifications);
+
+    expect(provider.getPrompts()[0]).toContain('"title": "Vice President"');
+    expect(result).toMatchObject({ usage: { inputTokens: 300, outputTokens: 40 }, model: 'mock-model' });
+    expect(rainmaker.titleClassification).toEqual({ title: 'Rainmaker', seniority: 'ic', jobFunction: 'sales', source: 'ai' });
+    // The rules' 'vp' stays, and a function outside the list counts as unknown.
+    expect(vicePresident.titleClassification).toEqual({ title: 'Vice President', seniority: 'vp', jobFunction: undefined, source: 'ai' });
+    // Titles missing from the answer can be asked about again.
+    expect(dreamer).toBe(clients[2]);
+  });
+
+  it('throws on answers without results', async () => {
+    const provider = createMockProvider([{ text: 'I cannot help with that.' }]);
+
+    await expect(classifyTitlesWithAi(provider, ['Rainmaker'])).rejects.toThrow('"results" array');
+  });
+});
+
+describe('export', () => {
+  it('writes the seniority and function columns', () => {
+    const { rows } = parseCsvText(buildClientsCsv([withClassifiedTitle({ ...client, jobTitle: 'VP Sales' })]));
+
+    expect(rows[0].slice(5, 8)).toEqual(['Identified Job Title', 'Seniority', 'Job Function']);
+    expect(rows[1].slice(5, 8)).toEqual(['VP Sales', 'VP', 'Sales']);
+  });
+});
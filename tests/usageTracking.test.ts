@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addToUsageTotals,
+  canAffordNextBatch,
+  DEFAULT_MODEL_PRICES,
+  EMPTY_USAGE_TOTALS,
+  estimateCost,
+  estimateNextBatchCost,
+  findModelPrice,
+  parseModelPrices,
+  UsageRecord,
+} from '../services/usageTracking';
+
+const record = (providerId: string, clientCount: number, cost: number | null): UsageRecord => ({
+  providerId,
+  providerName: providerId,
+  model: 'model',
+  clientIds: Array.from({ length: clientCount }, (_, i) => i),
+  inputTokens: 1000,
+  outputTokens: 200,
+  cost,
+  recordedAt: '2025-01-01T00:00:00.000Z',
+});
+
+describe('pricing', () => {
+  it('finds the price of a model or of the snapshot it belongs to', () => {
+    expect(findModelPrice(DEFAULT_MODEL_PRICES, 'gpt-4o-2024-08-06')?.model).toBe('gpt-4o');
+    expect(findModelPrice(DEFAULT_MODEL_PRICES, 'gpt-4o-mini')?.model).toBe('gpt-4o-mini');
+    expect(findModelPrice(DEFAULT_MODEL_PRICES, 'llama3.1')).toBeUndefined();
+  });
+
+  it('estimates the cost of a call from its tokens', () => {
+    const price = { model: 'gpt-4o', inputPerMillion: 2.5, outputPerMillion: 10 };
+    expect(estimateCost({ inputTokens: 2000, outputTokens: 500 }, price)).toBeCloseTo(0.01);
+    expect(estimateCost({ inputTokens: 2000, outputTokens: 500 }, undefined)).toBeNull();
+  });
+
+  it('keeps only valid stored prices', () => {
+    expect(parseModelPrices(null)).toEqual(DEFAULT_MODEL_PRICES);
+    expect(parseModelPrices('[{"model":"x","inputPerMillion":1,"outputPerMillion":2},{"model":"","inputPerMillion":1,"outputPerMillion":2}]'))
+      .toEqual([{ model: 'x', inputPerMillion: 1, outputPerMillion: 2 }]);
+  });
+});
+
+describe('usage totals and budgets', () => {
+  it('adds up calls and counts the ones without a price', () => {
+    expect(addToUsageTotals(EMPTY_USAGE_TOTALS, [record('openai', 5, 0.02), record('local', 5, null)])).toEqual({
+      inputTokens: 2000, outputTokens: 400, cost: 0.02, calls: 2, unpricedCalls: 1,
+    });
+  });
+
+  it('estimates the next batch from the cost per client so far', () => {
+    expect(estimateNextBatchCost([], 5)).toBeNull();
+    expect(estimateNextBatchCost([record('openai', 5, 0.05), record('openai', 2, 0.02)], 5)).toBeCloseTo(0.05);
+    // A consensus batch is sent to every provider.
+    expect(estimateNextBatchCost([record('openai', 5, 0.05), record('gemini', 5, 0.05)], 5)).toBeCloseTo(0.1);
+  });
+
+  it('stops before a batch that would go over the budget', () => {
+    const runRecords = [record('openai', 5, 0.04), record('openai', 5, 0.04)];
+    expect(canAffordNextBatch(runRecords, 5, 0.12)).toBe(true);
+    expect(canAffordNextBatch(runRecords, 5, 0.1)).toBe(false);
+    expect(canAffordNextBatch(runRecords, 5, null)).toBe(true);
+  });
+});
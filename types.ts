@@ -5,5 +5,155 @@ export interface Client {
   jobTitle: string;
   company: string;
   city: string;
-  cityStatus?: 'idle' | 'finding' | 'found' | 'not_found' | 'error';
+  // Label of the spreadsheet tab the client was loaded from, when the source has several tabs.
+  sourceTab?: string;
+  // The complete original row in source column order, so every column can be written back out on export.
+  // `headers` is shared by all clients loaded from the same table.
+  sourceRow?: { headers: string[]; values: string[] };
+  // 1-based row number of the client in the source sheet or file, used to write results back in place.
+  rowNumber?: number;
+  // The Google Sheet tab the client was loaded from, for writing results back.
+  sheetTab?: SheetTab;
+  // The city the source already had, for rows loaded for re-verification instead of being skipped.
+  prefilledCity?: string;
+  // Outcome of re-checking a prefilled city with the AI.
+  verification?: CityVerification;
+  // Web pages the AI based its answer on, so reviewers can check the result.
+  sources?: SourceLink[];
+  // How sure the AI was of its answer (0-100) and why it chose it.
+  confidence?: number;
+  rationale?: string;
+  // Set when a reviewer accepted a low-confidence result, so a threshold change does not flag it again.
+  reviewed?: boolean;
+  // The differing answers of a consensus run, for the user to pick from.
+  consensusCandidates?: ConsensusCandidate[];
+  // Why the last lookup failed, for rows with the 'error' status. The city keeps the value it had.
+  error?: EnrichmentError;
+  // When the answer was first looked up, if it was reused from the result cache instead of asked for again.
+  cachedAt?: string;
+  // The city resolved against the offline gazetteer. Derived from `city` whenever it changes, so it is not saved.
+  location?: CityLocation;
+  // Set when the row has a city the gazetteer could not place.
+  locationUnresolved?: boolean;
+  // Seniority and function read from the job title. Derived from `jobTitle` by rules whenever it changes.
+  titleClassification?: TitleClassification;
+  // 'needs_review' is a found city whose confidence is below the review threshold; 'disputed' means the
+  // providers of a consensus run disagreed.
+  cityStatus?: 'idle' | 'finding' | 'found' | 'needs_review' | 'disputed' | 'not_found' | 'error' | 'prefilled';
+}
+
+export interface CityVerification {
+  status: 'confirmed' | 'changed' | 'unverifiable';
+  // The city the source had before verification.
+  previousCity: string;
+}
+
+// A city as a structured place, for exports that need more than the free text the AI returned.
+export interface CityLocation {
+  city: string;
+  region: string;
+  // ISO 3166-1 alpha-2 code, e.g. "US".
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+  // IANA time zone, e.g. "America/Chicago", when it is known for the city's country and region.
+  timeZone?: string;
+}
+
+export type Seniority = 'c_level' | 'vp' | 'director' | 'manager' | 'ic';
+
+export type JobFunction =
+  | 'general_management'
+  | 'sales'
+  | 'marketing'
+  | 'customer_success'
+  | 'product'
+  | 'design'
+  | 'engineering'
+  | 'data'
+  | 'it'
+  | 'finance'
+  | 'hr'
+  | 'legal'
+  | 'operations';
+
+export interface TitleClassification {
+  // The title that was classified, so a changed title is classified again.
+  title: string;
+  // Left out when the title does not say.
+  seniority?: Seniority;
+  jobFunction?: JobFunction;
+  // 'ai' when an AI filled in what the rules could not tell. Kept until the title changes.
+  source: 'rules' | 'ai';
+}
+
+// One provider's answer in a consensus run.
+export interface ConsensusCandidate {
+  providerId: string;
+  providerName: string;
+  city: string;
+  jobTitle: string;
+  confidence?: number;
+  rationale?: string;
+  sources?: SourceLink[];
+}
+
+export type EnrichmentErrorCode =
+  | 'invalid_api_key'
+  | 'insufficient_quota'
+  | 'rate_limited'
+  | 'api_error'
+  | 'malformed_response'
+  | 'no_result'
+  // The run stopped before the client was sent.
+  | 'not_processed';
+
+export interface EnrichmentError {
+  code: EnrichmentErrorCode;
+  // A readable explanation, e.g. the message the API returned.
+  message: string;
+  // Whether sending the same client to the same provider again may succeed.
+  retryable: boolean;
+  providerId: string;
+  providerName: string;
+  // The HTTP status of the failed request, when there was one.
+  status?: number;
+}
+
+export interface SourceLink {
+  url: string;
+  title?: string;
+}
+
+// A spreadsheet tab to load, identified either by its numeric gid or by its name.
+export type SheetTab = { gid: string } | { name: string };
+
+// The Client fields that can be filled from a source column.
+export type MappableClientField = 'firstName' | 'lastName' | 'jobTitle' | 'company' | 'city';
+
+// Maps each Client field to the source header it is read from.
+export type ColumnMapping = Partial<Record<MappableClientField, string>>;
+
+// The raw contents of one loaded tab or file, before columns are mapped to Client fields.
+export interface SheetTable {
+  // Label of the tab the table was loaded from, if the source has several tabs.
+  tab?: string;
+  // The Google Sheet tab the table was loaded from. Not set for local files.
+  sheetTab?: SheetTab;
+  // 1-based row number of the header row. Data rows follow it directly, one record per row.
+  headerRowNumber: number;
+  headers: string[];
+  rows: string[][];
+  // Malformed input found while parsing, with the line it was found on. Parsing continues past these.
+  parseErrors: { line: number; message: string }[];
+}
+
+// How sheet exports are fetched from the browser, which cannot read docs.google.com directly because of CORS.
+// `custom` wraps the export URL in `urlTemplate`; `builtin` uses the route served by the Vite dev and preview servers.
+export type CorsProxyMode = 'none' | 'custom' | 'builtin';
+
+export interface CorsProxySettings {
+  mode: CorsProxyMode;
+  // A proxy URL with a `{url}` placeholder for the encoded export URL. Only used in `custom` mode.
+  urlTemplate: string;
 }
@@ -1,6 +1,62 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { BUILTIN_PROXY_ALLOWED_HOSTS, BUILTIN_PROXY_HEADER, BUILTIN_PROXY_PATH } from './services/corsProxy';
+
+// Fetches Google Sheets exports on behalf of the browser, so the sheet does not have to go through a third-party proxy.
+// Only available while the app is served by `vite` or `vite preview`.
+const handleSheetProxyRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const sendError = (status: number, message: string) => {
+    res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8', [BUILTIN_PROXY_HEADER]: 'error' });
+    res.end(message);
+  };
+
+  let target: URL;
+  try {
+    target = new URL(new URL(req.url || '', 'http://localhost').searchParams.get('url') || '');
+  } catch (e) {
+    return sendError(400, 'The request has no valid `url` parameter.');
+  }
+  if (target.protocol !== 'https:' || !BUILTIN_PROXY_ALLOWED_HOSTS.includes(target.hostname)) {
+    return sendError(403, `Only ${BUILTIN_PROXY_ALLOWED_HOSTS.join(', ')} can be fetched through this proxy.`);
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(target);
+  } catch (error) {
+    return sendError(502, `Could not reach ${target.hostname}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Google's status and content type are passed through, so the app can recognise permission problems itself.
+  res.writeHead(upstream.status, {
+    'Content-Type': upstream.headers.get('Content-Type') || 'text/plain',
+    [BUILTIN_PROXY_HEADER]: 'upstream',
+  });
+  res.end(Buffer.from(await upstream.arrayBuffer()));
+};
+
+// Reading the sheet can still fail after the headers went out, in which case the response is cut short.
+const serveSheetProxyRequest = (req: IncomingMessage, res: ServerResponse) => {
+  handleSheetProxyRequest(req, res).catch(error => {
+    console.error('The sheet proxy failed:', error);
+    if (!res.headersSent) {
+      res.writeHead(502, { 'Content-Type': 'text/plain; charset=utf-8', [BUILTIN_PROXY_HEADER]: 'error' });
+    }
+    res.end();
+  });
+};
+
+const sheetProxyPlugin = (): Plugin => ({
+  name: 'sheet-proxy',
+  configureServer(server) {
+    server.middlewares.use(BUILTIN_PROXY_PATH, serveSheetProxyRequest);
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(BUILTIN_PROXY_PATH, serveSheetProxyRequest);
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +65,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), sheetProxyPlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)